@@ -0,0 +1,366 @@
+/**
+ * @file Account
+ * @desc These methods calculate what an account can still do in the Rifi
+ *     Protocol markets, based on its liquidity in the Cointroller.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import * as eth from './eth';
+import { getAccountLiquidity } from './cointroller';
+import {
+  rTokenMetadata,
+  rTokenMetadataAll,
+  rTokenBalances,
+  rTokenBalancesAll,
+  rTokenUnderlyingPriceAll,
+  getAccountLimits,
+} from './lens';
+import { netId, callOptions, usdDecimals, decimalsOf } from './helpers';
+import { RifiValidationError } from './errors';
+import { address, abi, rTokens } from './constants';
+import { CallOptions, MarketLimit, LiquidationPrice } from './types';
+
+const EXP_SCALE = ethers.constants.WeiPerEther;
+
+function validateMarket(
+  account: string,
+  asset: string,
+  buffer: number,
+  errorPrefix: string
+): [ string, string, number ] {
+  if (!ethers.utils.isAddress(account)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `account` must be a valid Ethereum address.');
+  }
+
+  if (typeof asset !== 'string' || asset.length < 1) {
+    throw new RifiValidationError(errorPrefix + 'Argument `asset` must be a non-empty string.');
+  }
+
+  if (typeof buffer !== 'number' || buffer < 0 || buffer >= 100) {
+    throw new RifiValidationError(errorPrefix + 'Argument `buffer` must be a percentage from 0 to 100.');
+  }
+
+  const rTokenName = asset[0] === 'r' ? asset : 'r' + asset;
+  const underlyingName = rTokenName.slice(1);
+
+  if (!rTokens[this._network.name].includes(rTokenName)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `asset` is not supported.');
+  }
+
+  const underlyingDecimals = decimalsOf(this._network.name, underlyingName);
+
+  return [ rTokenName, underlyingName, underlyingDecimals ];
+}
+
+/**
+ * Gets the value an account can still use against its collateral, after
+ *     keeping `buffer` percent of its borrow limit unused.
+ *
+ * @hidden
+ */
+async function getAvailableValue(
+  account: string,
+  buffer: number,
+  options: CallOptions
+): Promise<[ BigNumber, BigNumber ]> {
+  const { collateralValue, borrowValue } = await getAccountLiquidity.apply(
+    this, [account, options]
+  );
+
+  const borrowLimit = collateralValue.mul(10000 - Math.round(buffer * 100)).div(10000);
+  const available = borrowLimit.gt(borrowValue) ?
+    borrowLimit.sub(borrowValue) : BigNumber.from(0);
+
+  return [ available, borrowValue ];
+}
+
+function pickLimit(limits: [ MarketLimit['limitedBy'], BigNumber ][]): [ MarketLimit['limitedBy'], BigNumber ] {
+  return limits.reduce((min, limit) => limit[1].lt(min[1]) ? limit : min);
+}
+
+/**
+ * Gets the most an account can borrow of an asset right now. The amount is
+ *     limited by the account's liquidity, the cash the market holds and the
+ *     market's borrow cap, whichever is lowest.
+ *
+ * @param {string} account The address of the account.
+ * @param {string} asset The asset to borrow, e.g. `USDC` or `rUSDC`.
+ * @param {number} [buffer] Percentage of the account's borrow limit to leave
+ *     unused as a safety margin. Defaults to 0.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     calls.
+ *
+ * @returns {MarketLimit} Returns the amount in the underlying asset as a
+ *     mantissa (`amount`) and as a plain number (`human`), and which limit
+ *     applied (`liquidity`, `cash` or `borrowCap`).
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const { human } = await rifi.getMaxBorrow(myAddress, Rifi.USDC, 10);
+ *   console.log('USDC that can be borrowed, keeping a 10% buffer', human);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getMaxBorrow(
+  account: string,
+  asset: string,
+  buffer = 0,
+  options: CallOptions = {}
+): Promise<MarketLimit> {
+  await netId(this);
+  const errorPrefix = 'Rifi [getMaxBorrow] | ';
+
+  const [ rTokenName, , underlyingDecimals ] = validateMarket.bind(this)(
+    account, asset, buffer, errorPrefix
+  );
+
+  const rTokenAddress = address[this._network.name][rTokenName];
+  const readOptions: CallOptions = callOptions(this, options);
+
+  const [ [ available ], metadata, price, borrowCap ] = await Promise.all([
+    getAvailableValue.apply(this, [account, buffer, options]),
+    rTokenMetadata.apply(this, [rTokenName, options]),
+    eth.read(
+      address[this._network.name].PriceFeed,
+      'getUnderlyingPrice',
+      [rTokenAddress],
+      { ...readOptions, abi: abi.PriceFeed }
+    ),
+    eth.read(
+      address[this._network.name].Cointroller,
+      'borrowCaps',
+      [rTokenAddress],
+      { ...readOptions, abi: abi.Cointroller }
+    ),
+  ]);
+
+  const limits: [ MarketLimit['limitedBy'], BigNumber ][] = [
+    [ 'liquidity', price.isZero() ? BigNumber.from(0) : available.mul(EXP_SCALE).div(price) ],
+    [ 'cash', metadata.totalCash ],
+  ];
+
+  // A borrow cap of 0 means the market is uncapped
+  if (!borrowCap.isZero()) {
+    const capLeft = borrowCap.gt(metadata.totalBorrows) ?
+      borrowCap.sub(metadata.totalBorrows) : BigNumber.from(0);
+    limits.push([ 'borrowCap', capLeft ]);
+  }
+
+  const [ limitedBy, amount ] = pickLimit(limits);
+
+  return {
+    amount,
+    human: +ethers.utils.formatUnits(amount, underlyingDecimals),
+    limitedBy,
+  };
+}
+
+/**
+ * Gets the most of its supplied asset an account can redeem right now without
+ *     going into shortfall. The amount is limited by the account's supply
+ *     balance, the cash the market holds and, if the market is used as
+ *     collateral while the account has borrows, the account's liquidity.
+ *
+ * @param {string} account The address of the account.
+ * @param {string} asset The supplied asset, e.g. `BUSD` or `rBUSD`.
+ * @param {number} [buffer] Percentage of the account's borrow limit to leave
+ *     unused as a safety margin. Defaults to 0.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     calls.
+ *
+ * @returns {MarketLimit} Returns the amount in the underlying asset as a
+ *     mantissa (`amount`) and as a plain number (`human`), and which limit
+ *     applied (`balance`, `liquidity` or `cash`).
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const { human } = await rifi.getMaxRedeem(myAddress, Rifi.BUSD);
+ *   console.log('BUSD that can be redeemed', human);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getMaxRedeem(
+  account: string,
+  asset: string,
+  buffer = 0,
+  options: CallOptions = {}
+): Promise<MarketLimit> {
+  await netId(this);
+  const errorPrefix = 'Rifi [getMaxRedeem] | ';
+
+  const [ rTokenName, , underlyingDecimals ] = validateMarket.bind(this)(
+    account, asset, buffer, errorPrefix
+  );
+
+  const rTokenAddress = address[this._network.name][rTokenName];
+  const readOptions: CallOptions = callOptions(this, options);
+
+  const [ [ available, borrowValue ], metadata, balances, price, isMember ] = await Promise.all([
+    getAvailableValue.apply(this, [account, buffer, options]),
+    rTokenMetadata.apply(this, [rTokenName, options]),
+    rTokenBalances.apply(this, [rTokenName, account, options]),
+    eth.read(
+      address[this._network.name].PriceFeed,
+      'getUnderlyingPrice',
+      [rTokenAddress],
+      { ...readOptions, abi: abi.PriceFeed }
+    ),
+    eth.read(
+      address[this._network.name].Cointroller,
+      'checkMembership',
+      [account, rTokenAddress],
+      { ...readOptions, abi: abi.Cointroller }
+    ),
+  ]);
+
+  const limits: [ MarketLimit['limitedBy'], BigNumber ][] = [
+    [ 'balance', balances.balanceOfUnderlying ],
+    [ 'cash', metadata.totalCash ],
+  ];
+
+  const collateralFactor: BigNumber = metadata.collateralFactorMantissa;
+  const backsBorrows = isMember && !borrowValue.isZero() && !collateralFactor.isZero();
+
+  if (backsBorrows) {
+    // Each unit of underlying redeemed lowers collateral by `price * cf`
+    const maxByLiquidity = price.isZero() ? BigNumber.from(0) :
+      available.mul(EXP_SCALE).mul(EXP_SCALE).div(price.mul(collateralFactor));
+    limits.push([ 'liquidity', maxByLiquidity ]);
+  }
+
+  const [ limitedBy, amount ] = pickLimit(limits);
+
+  return {
+    amount,
+    human: +ethers.utils.formatUnits(amount, underlyingDecimals),
+    limitedBy,
+  };
+}
+
+/**
+ * Gets, for each asset an account uses as collateral, the price at which the
+ *     account would go into shortfall if every other price stayed the same.
+ *     Usually this is a price drop of the collateral. When the account
+ *     borrows more of an asset than its weighted collateral in it, the
+ *     account is instead liquidated if that asset's price rises.
+ *
+ * @param {string} account The address of the account.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     calls.
+ *
+ * @returns {LiquidationPrice[]} Returns the current and the liquidation price
+ *     in USD for each collateral asset, the `direction` the price has to move
+ *     and the relative `change` needed (e.g. -0.25 for a 25% drop). The
+ *     liquidation price is `null` if no price of that asset can cause a
+ *     shortfall.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const prices = await rifi.getLiquidationPrices(myAddress);
+ *   prices.forEach(({ asset, liquidationPrice }) => {
+ *     console.log(`${asset} liquidation at $${liquidationPrice}`);
+ *   });
+ * })().catch(console.error);
+ * ```
+ */
+export async function getLiquidationPrices(
+  account: string,
+  options: CallOptions = {}
+): Promise<LiquidationPrice[]> {
+  await netId(this);
+  const errorPrefix = 'Rifi [getLiquidationPrices] | ';
+
+  if (!ethers.utils.isAddress(account)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `account` must be a valid Ethereum address.');
+  }
+
+  const [ limits, balances, prices, metadata ] = await Promise.all([
+    getAccountLimits.apply(this, [account, options]),
+    rTokenBalancesAll.apply(this, [account, options]),
+    rTokenUnderlyingPriceAll.apply(this, [options]),
+    rTokenMetadataAll.apply(this, [options]),
+  ]);
+
+  const entered = limits.markets.map((market: string) => market.toLowerCase());
+  const valueDecimals = usdDecimals(this);
+
+  const markets = [];
+
+  rTokens[this._network.name].forEach((rTokenName: string) => {
+    const rTokenAddress = address[this._network.name][rTokenName].toLowerCase();
+    const find = (list) => list.find(({ rToken }) => rToken.toLowerCase() === rTokenAddress);
+
+    const market = find(metadata.rTokens);
+    const balance = find(balances);
+    const price = find(prices);
+
+    if (!market || !balance || !price) {
+      return;
+    }
+
+    const collateralFactor: BigNumber = entered.includes(rTokenAddress) ?
+      market.collateralFactorMantissa : BigNumber.from(0);
+
+    // Underlying amount the account's health moves with, per unit of price
+    const exposure: BigNumber = balance.balanceOfUnderlying
+      .mul(collateralFactor).div(EXP_SCALE)
+      .sub(balance.borrowBalanceCurrent);
+
+    markets.push({
+      rTokenName,
+      price: price.underlyingPrice,
+      supplied: balance.balanceOfUnderlying,
+      isCollateral: !collateralFactor.isZero(),
+      exposure,
+      value: exposure.mul(price.underlyingPrice).div(EXP_SCALE),
+    });
+  });
+
+  // Collateral value minus borrow value, across all markets
+  const netValue = markets.reduce((sum, { value }) => sum.add(value), BigNumber.from(0));
+
+  return markets
+    .filter(({ isCollateral, supplied }) => isCollateral && !supplied.isZero())
+    .map(({ rTokenName, price, exposure, value }) => {
+      const asset = rTokenName.slice(1);
+      const underlyingDecimals = decimalsOf(this._network.name, asset);
+      const priceDecimals = valueDecimals + 18 - underlyingDecimals;
+      const toUsd = (mantissa: BigNumber) => +ethers.utils.formatUnits(mantissa, priceDecimals);
+
+      // Shortfall starts where `exposure * p + otherNetValue` reaches zero
+      const otherNetValue = netValue.sub(value);
+      let liquidationPriceMantissa: BigNumber = null;
+
+      if (exposure.gt(0) && otherNetValue.lt(0)) {
+        liquidationPriceMantissa = otherNetValue.mul(-1).mul(EXP_SCALE).div(exposure);
+      } else if (exposure.lt(0) && otherNetValue.gt(0)) {
+        liquidationPriceMantissa = otherNetValue.mul(EXP_SCALE).div(exposure.mul(-1));
+      }
+
+      const currentPrice = toUsd(price);
+      const liquidationPrice = liquidationPriceMantissa ? toUsd(liquidationPriceMantissa) : null;
+
+      return {
+        asset,
+        rToken: rTokenName,
+        price: currentPrice,
+        liquidationPrice,
+        liquidationPriceMantissa,
+        direction: liquidationPriceMantissa ? (exposure.gt(0) ? 'down' : 'up') : null,
+        change: liquidationPrice !== null && currentPrice > 0 ?
+          liquidationPrice / currentPrice - 1 : null,
+      };
+    });
+}
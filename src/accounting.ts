@@ -0,0 +1,377 @@
+/**
+ * @file Accounting
+ * @desc These methods value an account's activity in USD at the block of each
+ *     event, calculate the interest earned and paid in each market, and
+ *     format the records as CSV or JSON for tax and accounting reports.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import * as eth from './eth';
+import { createActivityIndexer } from './activity';
+import { netId, usdDecimals, decimalsOf } from './helpers';
+import { RifiValidationError } from './errors';
+import { address, abi, rTokens } from './constants';
+import {
+  AbiItem,
+  CallOptions,
+  Activity,
+  AccountingOptions,
+  AccountingRecord,
+  AccountingReport,
+  MarketInterest,
+} from './types';
+
+const EXP_SCALE = ethers.constants.WeiPerEther;
+
+// Records valued at once, so a long history doesn't flood the provider
+const MAX_CONCURRENT_READS = 8;
+
+const CSV_COLUMNS: (keyof AccountingRecord)[] = [
+  'date',
+  'blockNumber',
+  'transactionHash',
+  'type',
+  'source',
+  'asset',
+  'amount',
+  'rTokenAmount',
+  'price',
+  'value',
+  'interestEarned',
+  'interestPaid',
+  'counterparty',
+];
+
+// Running totals of a market, in the underlying asset
+interface MarketState {
+  rTokens: BigNumber;
+  costBasis: BigNumber;
+  principal: BigNumber;
+  unpaidInterest: BigNumber;
+  debt: BigNumber | null;
+  interestEarned: BigNumber;
+  interestPaid: BigNumber;
+  interestEarnedValue: BigNumber;
+  interestPaidValue: BigNumber;
+}
+
+function createMarketState(): MarketState {
+  const zero = BigNumber.from(0);
+  return {
+    rTokens: zero,
+    costBasis: zero,
+    principal: zero,
+    unpaidInterest: zero,
+    debt: null,
+    interestEarned: zero,
+    interestPaid: zero,
+    interestEarnedValue: zero,
+    interestPaidValue: zero,
+  };
+}
+
+function min(a: BigNumber, b: BigNumber): BigNumber {
+  return a.lt(b) ? a : b;
+}
+
+/**
+ * Calculates the interest of a market realized by an activity. Supplies are
+ *     valued at their average cost, so a redeem earns what it returns above
+ *     the cost of the rTokens it burns. Borrow balances grow by the interest
+ *     accrued between two events, and repayments pay the interest first.
+ *
+ * @hidden
+ *
+ * @returns {BigNumber[]} Returns the interest earned and paid, in the
+ *     underlying asset, or null when the history does not tell.
+ */
+function realizeInterest(
+  state: MarketState,
+  activity: Activity,
+  underlyingAmount: BigNumber
+): [ BigNumber | null, BigNumber | null ] {
+  const { type, amount, rTokenAmount, accountBorrows } = activity;
+
+  switch (type) {
+  case 'supply':
+  case 'transferIn':
+    state.rTokens = state.rTokens.add(rTokenAmount);
+    state.costBasis = state.costBasis.add(underlyingAmount);
+    return [ null, null ];
+  case 'redeem':
+  case 'transferOut': {
+    // Without the history before the scan, the cost of the rTokens is unknown
+    if (state.rTokens.lt(rTokenAmount)) {
+      state.rTokens = state.costBasis = BigNumber.from(0);
+      return [ null, null ];
+    }
+
+    const cost = state.costBasis.mul(rTokenAmount).div(state.rTokens);
+    state.rTokens = state.rTokens.sub(rTokenAmount);
+    state.costBasis = state.costBasis.sub(cost);
+
+    return type === 'redeem' ? [ amount.sub(cost), null ] : [ null, null ];
+  }
+  case 'borrow':
+  case 'repay': {
+    if (!accountBorrows) {
+      return [ null, null ];
+    }
+
+    const isBorrow = type === 'borrow';
+    const debtBefore = isBorrow ? accountBorrows.sub(amount) : accountBorrows.add(amount);
+
+    // The debt found at the first event is taken as principal
+    const accrued = state.debt === null ? BigNumber.from(0) : debtBefore.sub(state.debt);
+    if (state.debt === null) {
+      state.principal = debtBefore;
+    }
+
+    state.unpaidInterest = state.unpaidInterest.add(accrued);
+    state.debt = accountBorrows;
+
+    if (isBorrow) {
+      state.principal = state.principal.add(amount);
+      return [ null, null ];
+    }
+
+    const interestPaid = min(amount, state.unpaidInterest);
+    state.unpaidInterest = state.unpaidInterest.sub(interestPaid);
+    state.principal = state.principal.sub(min(state.principal, amount.sub(interestPaid)));
+
+    return [ null, interestPaid ];
+  }
+  default:
+    return [ null, null ];
+  }
+}
+
+// Like `Promise.all(items.map(fn))`, with at most `limit` calls pending
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Builds an accounting report of an account's activity in the Rifi Protocol.
+ *     Each supply, redeem, borrow, repay, liquidation, rToken transfer, vault
+ *     deposit, withdrawal and harvest and RIFI claim becomes a record, valued
+ *     in USD with the Cointroller's oracle price at the block of the event,
+ *     or left without a price and value when it cannot be read. Interest
+ *     earned is realized by redeems and interest paid by repayments, per
+ *     market, so the scan should start before the account's first supply or
+ *     borrow.
+ *
+ * @param {string} account The address of the account.
+ * @param {AccountingOptions} [options] Call options, `activities` already
+ *     found by an activity indexer, or `fromBlock`, `blockRange` and `vaults`
+ *     to scan for them like `createActivityIndexer`.
+ *
+ * @returns {AccountingReport} Returns the records and the interest of each
+ *     market, with amounts as decimal strings.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi('https://bsc-dataseed.binance.org');
+ *
+ * (async function () {
+ *   const report = await rifi.getAccountingReport(myAddress, { fromBlock: 9000000 });
+ *   fs.writeFileSync('rifi.csv', Rifi.accounting.toCsv(report));
+ * })().catch(console.error);
+ * ```
+ */
+export async function getAccountingReport(
+  account: string,
+  options: AccountingOptions = {}
+): Promise<AccountingReport> {
+  await netId(this);
+  const errorPrefix = 'Rifi [getAccountingReport] | ';
+
+  if (!ethers.utils.isAddress(account)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `account` must be a valid Ethereum address.');
+  }
+
+  if (options.activities !== undefined && !Array.isArray(options.activities)) {
+    throw new RifiValidationError(errorPrefix + 'Option `activities` must be an array.');
+  }
+
+  const netName = this._network.name;
+  const addresses = address[netName];
+  const valueDecimals = usdDecimals(this);
+
+  let activities = options.activities;
+  if (!activities) {
+    const indexer = createActivityIndexer.apply(this, [ account, {
+      fromBlock: options.fromBlock,
+      blockRange: options.blockRange,
+      vaults: options.vaults,
+    } ]);
+
+    await indexer.sync();
+    activities = indexer.activities;
+  }
+
+  const readOptions: CallOptions = { ...options, _rifiProvider: this._provider };
+
+  // Reads at the same block are shared, e.g. a liquidation and its transfer
+  const reads = new Map<string, Promise<unknown>>();
+  const readAt = <T>(
+    contract: string,
+    method: string,
+    parameters: string[],
+    contractAbi: AbiItem[] | string[],
+    blockTag: number
+  ): Promise<T> => {
+    const key = [ contract, method, ...parameters, blockTag ].join(':');
+
+    if (!reads.has(key)) {
+      reads.set(key, eth.read(contract, method, parameters, { ...readOptions, abi: contractAbi, blockTag }));
+    }
+
+    return reads.get(key) as Promise<T>;
+  };
+
+  // The oracle the Cointroller used at the block, which may since have been
+  // replaced. A price that cannot be read leaves the record without a value.
+  const priceAt = async (rTokenName: string, blockTag: number): Promise<BigNumber | null> => {
+    if (!rTokens[netName].includes(rTokenName)) {
+      return null;
+    }
+
+    try {
+      const oracle = await readAt<string>(addresses.Cointroller, 'oracle', [], abi.Cointroller, blockTag);
+      return await readAt<BigNumber>(oracle, 'getUnderlyingPrice', [ addresses[rTokenName] ], abi.PriceFeed, blockTag);
+    } catch (e) {
+      return null;
+    }
+  };
+
+  // The underlying amount, its market and its price at the event
+  const valuate = async (activity: Activity): Promise<[ BigNumber, string, BigNumber | null ]> => {
+    const isRToken = rTokens[netName].includes(activity.asset);
+    const rTokenName = isRToken ? activity.asset : 'r' + activity.asset;
+    const price = await priceAt(rTokenName, activity.blockNumber);
+
+    if (!isRToken) {
+      return [ activity.amount, activity.asset, price ];
+    }
+
+    const exchangeRate = await readAt<BigNumber>(
+      addresses[rTokenName], 'exchangeRateStored', [], abi.rBep20, activity.blockNumber
+    );
+    return [ activity.amount.mul(exchangeRate).div(EXP_SCALE), rTokenName.slice(1), price ];
+  };
+
+  const sorted = activities.slice().sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  const valued = await mapLimit(sorted, MAX_CONCURRENT_READS, valuate);
+
+  const states: { [rTokenName: string]: MarketState } = {};
+  const format = (value: BigNumber | null, valueDec: number) =>
+    value === null ? null : ethers.utils.formatUnits(value, valueDec);
+
+  const records: AccountingRecord[] = sorted.map((activity, i) => {
+    const [ underlyingAmount, underlying, price ] = valued[i];
+    const underlyingDecimals = decimalsOf(netName, underlying);
+    const toValue = (amount: BigNumber) => price ? amount.mul(price).div(EXP_SCALE) : null;
+
+    const isMarket = rTokens[netName].includes(activity.source);
+    const state = isMarket ?
+      (states[activity.source] = states[activity.source] || createMarketState()) : null;
+
+    const [ interestEarned, interestPaid ] = state ?
+      realizeInterest(state, activity, underlyingAmount) : [ null, null ];
+
+    if (interestEarned) {
+      state.interestEarned = state.interestEarned.add(interestEarned);
+      state.interestEarnedValue = state.interestEarnedValue.add(toValue(interestEarned) || 0);
+    }
+
+    if (interestPaid) {
+      state.interestPaid = state.interestPaid.add(interestPaid);
+      state.interestPaidValue = state.interestPaidValue.add(toValue(interestPaid) || 0);
+    }
+
+    return {
+      date: activity.timestamp ? new Date(activity.timestamp * 1000).toISOString() : null,
+      timestamp: activity.timestamp,
+      blockNumber: activity.blockNumber,
+      transactionHash: activity.transactionHash,
+      type: activity.type,
+      source: activity.source,
+      asset: activity.asset,
+      amount: format(activity.amount, decimalsOf(netName, activity.asset)),
+      rTokenAmount: format(activity.rTokenAmount, decimalsOf(netName, activity.collateral || activity.source)),
+      price: format(price, valueDecimals + 18 - underlyingDecimals),
+      value: format(toValue(underlyingAmount), valueDecimals),
+      interestEarned: format(interestEarned, underlyingDecimals),
+      interestPaid: format(interestPaid, underlyingDecimals),
+      counterparty: activity.counterparty,
+    };
+  });
+
+  const interest: MarketInterest[] = Object.keys(states).map((rTokenName) => {
+    const state = states[rTokenName];
+    const underlyingDecimals = decimalsOf(netName, rTokenName.slice(1));
+
+    return {
+      rToken: rTokenName,
+      asset: rTokenName.slice(1),
+      interestEarned: format(state.interestEarned, underlyingDecimals),
+      interestPaid: format(state.interestPaid, underlyingDecimals),
+      interestEarnedValue: format(state.interestEarnedValue, valueDecimals),
+      interestPaidValue: format(state.interestPaidValue, valueDecimals),
+    };
+  });
+
+  return {
+    account: ethers.utils.getAddress(account),
+    network: netName,
+    fromBlock: sorted.length ? sorted[0].blockNumber : null,
+    toBlock: sorted.length ? sorted[sorted.length - 1].blockNumber : null,
+    records,
+    interest,
+  };
+}
+
+function toCsvField(value: string | number | null): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+}
+
+/**
+ * Formats the records of an accounting report as CSV, one line per record
+ *     after a header line.
+ *
+ * @param {AccountingReport} report A report from `getAccountingReport`.
+ *
+ * @returns {string} Returns the CSV text.
+ */
+export function toCsv(report: AccountingReport): string {
+  const lines = report.records.map((record) =>
+    CSV_COLUMNS.map((column) => toCsvField(record[column])).join(',')
+  );
+
+  return [ CSV_COLUMNS.join(','), ...lines ].join('\n') + '\n';
+}
+
+/**
+ * Formats an accounting report as JSON.
+ *
+ * @param {AccountingReport} report A report from `getAccountingReport`.
+ *
+ * @returns {string} Returns the JSON text.
+ */
+export function toJson(report: AccountingReport): string {
+  return JSON.stringify(report, null, 2);
+}
@@ -0,0 +1,406 @@
+/**
+ * @file Activity
+ * @desc These methods index an account's history in the Rifi Protocol from
+ *     the events of the rToken, vault and RIFI contracts.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import { netId, decimalsOf } from './helpers';
+import { RifiValidationError } from './errors';
+import { address, abi, rTokens, vaultConfig } from './constants';
+import {
+  Activity,
+  ActivityType,
+  ActivityCheckpoint,
+  ActivityIndexer,
+  ActivityIndexerOptions,
+} from './types';
+
+const DEFAULT_BLOCK_RANGE = 5000;
+
+const MARKET_EVENTS = [ 'Mint', 'Redeem', 'Borrow', 'RepayBorrow', 'LiquidateBorrow' ];
+
+const rTokenInterface = new ethers.utils.Interface(abi.rBep20);
+const transferInterface = new ethers.utils.Interface(abi.Bep20);
+
+// A contract an account's tokens move to or from
+interface Counterparty {
+  name: string;
+  kind: 'rToken' | 'vault' | 'rewardLocker' | 'cointroller';
+  depositToken?: string;
+  rewardToken?: string;
+}
+
+// Fields of an activity that only some events have
+interface ActivityDetails {
+  rTokenAmount?: BigNumber;
+  accountBorrows?: BigNumber;
+  counterparty?: string;
+  collateral?: string;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+// Checkpoints can be stored as JSON, which turns BigNumbers into objects
+function reviveActivity(activity: Activity): Activity {
+  return {
+    ...activity,
+    amount: BigNumber.from(activity.amount),
+    rTokenAmount: activity.rTokenAmount === null ? null : BigNumber.from(activity.rTokenAmount),
+    accountBorrows: activity.accountBorrows === null ? null : BigNumber.from(activity.accountBorrows),
+  };
+}
+
+function compareActivities(a: Activity, b: Activity): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+/**
+ * Creates an indexer of an account's activity: supplies, redeems, borrows,
+ *     repays, liquidations and rToken transfers from the events of every
+ *     rToken market, vault deposits, withdrawals and harvests from the token
+ *     transfers to and from the vaults and reward lockers, and RIFI claimed
+ *     from the Cointroller. Blocks are scanned in ranges of `blockRange`, and
+ *     the checkpoint after each range can be stored to resume the scan later.
+ *
+ * @param {string} account The address of the account.
+ * @param {ActivityIndexerOptions} [indexerOptions] `fromBlock` is the first
+ *     block to scan (defaults to 0), `blockRange` the number of blocks per log
+ *     request, `vaults` the names of the vaults to include (defaults to every
+ *     deployed vault), `checkpoint` a checkpoint to resume from and
+ *     `onCheckpoint` a function called with the checkpoint after each range.
+ *
+ * @returns {ActivityIndexer} Returns an indexer object.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const indexer = rifi.createActivityIndexer(myAddress, {
+ *     checkpoint: JSON.parse(localStorage.getItem('activity') || 'null'),
+ *     onCheckpoint: (checkpoint) => {
+ *       localStorage.setItem('activity', JSON.stringify(checkpoint));
+ *     },
+ *   });
+ *
+ *   await indexer.sync();
+ *   indexer.activities.forEach(({ type, asset, human }) => {
+ *     console.log(type, human.amount, asset);
+ *   });
+ * })().catch(console.error);
+ * ```
+ */
+export function createActivityIndexer(
+  account: string,
+  indexerOptions: ActivityIndexerOptions = {}
+): ActivityIndexer {
+  // eslint-disable-next-line @typescript-eslint/no-this-alias
+  const _rifi = this;
+  const errorPrefix = 'Rifi [activity] | ';
+
+  if (!ethers.utils.isAddress(account)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `account` must be a valid Ethereum address.');
+  }
+
+  account = ethers.utils.getAddress(account);
+
+  const checkpoint = indexerOptions.checkpoint;
+  if (checkpoint && !sameAddress(checkpoint.account, account)) {
+    throw new RifiValidationError(errorPrefix + 'Option `checkpoint` is for another account.');
+  }
+
+  const activities: Activity[] = checkpoint ? checkpoint.activities.map(reviveActivity) : [];
+  let nextBlock: number = checkpoint ? checkpoint.nextBlock : (indexerOptions.fromBlock || 0);
+  let network: string = checkpoint ? checkpoint.network : null;
+
+  // The contracts to index, by lower case address
+  function getCounterparties(): Map<string, Counterparty> {
+    const netName = _rifi._network.name;
+    const addresses = address[netName];
+    const counterparties = new Map<string, Counterparty>();
+
+    rTokens[netName].forEach((rTokenName: string) => {
+      counterparties.set(addresses[rTokenName].toLowerCase(), { name: rTokenName, kind: 'rToken' });
+    });
+
+    const vaults = indexerOptions.vaults ||
+      Object.keys(vaultConfig[netName] || {}).filter((vault) => addresses[vault]);
+
+    vaults.forEach((vault) => {
+      if (!addresses[vault]) {
+        throw new RifiValidationError(errorPrefix + `Vault ${vault} not found.`);
+      }
+
+      const config = (vaultConfig[netName] || {})[vault] || {};
+      counterparties.set(addresses[vault].toLowerCase(), {
+        name: vault,
+        kind: 'vault',
+        depositToken: config.depositToken,
+        rewardToken: config.rewardToken,
+      });
+
+      if (config.rewardLocker && addresses[config.rewardLocker]) {
+        counterparties.set(addresses[config.rewardLocker].toLowerCase(), {
+          name: config.rewardLocker,
+          kind: 'rewardLocker',
+          rewardToken: config.rewardToken,
+        });
+      }
+    });
+
+    if (addresses.Cointroller) {
+      counterparties.set(addresses.Cointroller.toLowerCase(), { name: 'Cointroller', kind: 'cointroller' });
+    }
+
+    return counterparties;
+  }
+
+  function createActivity(
+    type: ActivityType,
+    log: ethers.providers.Log,
+    source: string,
+    asset: string,
+    amount: BigNumber,
+    details: ActivityDetails = {}
+  ): Activity {
+    const rTokenAmount = details.rTokenAmount || null;
+    const collateral = details.collateral || null;
+    const rTokenDecimals = decimalsOf(_rifi._network.name, collateral || source);
+
+    return {
+      type,
+      blockNumber: log.blockNumber,
+      timestamp: null,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+      source,
+      asset,
+      amount,
+      rTokenAmount,
+      accountBorrows: details.accountBorrows || null,
+      counterparty: details.counterparty || null,
+      collateral,
+      human: {
+        amount: +ethers.utils.formatUnits(amount, decimalsOf(_rifi._network.name, asset)),
+        rTokenAmount: rTokenAmount === null ?
+          null : +ethers.utils.formatUnits(rTokenAmount, rTokenDecimals),
+      },
+    };
+  }
+
+  // Supplies, redeems, borrows, repays and liquidations of the account
+  function fromMarketLog(
+    log: ethers.providers.Log,
+    rTokenName: string,
+    counterparties: Map<string, Counterparty>
+  ): Activity | null {
+    const { name, args } = rTokenInterface.parseLog(log);
+    const underlying = rTokenName.slice(1);
+
+    switch (name) {
+    case 'Mint':
+      return sameAddress(args.minter, account) ? createActivity(
+        'supply', log, rTokenName, underlying, args.mintAmount, { rTokenAmount: args.mintTokens }
+      ) : null;
+    case 'Redeem':
+      return sameAddress(args.redeemer, account) ? createActivity(
+        'redeem', log, rTokenName, underlying, args.redeemAmount, { rTokenAmount: args.redeemTokens }
+      ) : null;
+    case 'Borrow':
+      return sameAddress(args.borrower, account) ? createActivity(
+        'borrow', log, rTokenName, underlying, args.borrowAmount, { accountBorrows: args.accountBorrows }
+      ) : null;
+    case 'RepayBorrow':
+      if (sameAddress(args.borrower, account)) {
+        return createActivity('repay', log, rTokenName, underlying, args.repayAmount, {
+          accountBorrows: args.accountBorrows,
+          counterparty: sameAddress(args.payer, account) ? null : args.payer,
+        });
+      }
+
+      return sameAddress(args.payer, account) ? createActivity(
+        'repayBehalf', log, rTokenName, underlying, args.repayAmount, { counterparty: args.borrower }
+      ) : null;
+    case 'LiquidateBorrow': {
+      const collateral = counterparties.get(args.rTokenCollateral.toLowerCase());
+      const details = {
+        rTokenAmount: args.seizeTokens,
+        collateral: collateral ? collateral.name : args.rTokenCollateral,
+      };
+
+      if (sameAddress(args.borrower, account)) {
+        return createActivity(
+          'liquidated', log, rTokenName, underlying, args.repayAmount,
+          { ...details, counterparty: args.liquidator }
+        );
+      }
+
+      return sameAddress(args.liquidator, account) ? createActivity(
+        'liquidate', log, rTokenName, underlying, args.repayAmount,
+        { ...details, counterparty: args.borrower }
+      ) : null;
+    }
+    default:
+      return null;
+    }
+  }
+
+  // rToken transfers, vault deposits, withdrawals and harvests, RIFI claims
+  function fromTransferLog(
+    log: ethers.providers.Log,
+    counterparties: Map<string, Counterparty>
+  ): Activity | null {
+    const addresses = address[_rifi._network.name];
+    const { args } = transferInterface.parseLog(log);
+    const incoming = sameAddress(args.to, account);
+    const other: string = incoming ? args.from : args.to;
+    const amount: BigNumber = args[2];
+
+    const token = counterparties.get(log.address.toLowerCase());
+    const party = counterparties.get(other.toLowerCase());
+
+    // Mints and redeems move rTokens to and from the market itself
+    if (token && token.kind === 'rToken') {
+      return sameAddress(log.address, other) ? null : createActivity(
+        incoming ? 'transferIn' : 'transferOut', log, token.name, token.name, amount,
+        { rTokenAmount: amount, counterparty: other }
+      );
+    }
+
+    if (!party) {
+      return null;
+    }
+
+    const isToken = (name: string) => !!name && sameAddress(addresses[name], log.address);
+
+    if (party.kind === 'vault' && isToken(party.depositToken)) {
+      return createActivity(
+        incoming ? 'vaultWithdraw' : 'vaultDeposit', log, party.name, party.depositToken, amount
+      );
+    }
+
+    if (incoming && (party.kind === 'vault' || party.kind === 'rewardLocker') && isToken(party.rewardToken)) {
+      return createActivity('vaultHarvest', log, party.name, party.rewardToken, amount);
+    }
+
+    if (incoming && party.kind === 'cointroller' && isToken('RIFI')) {
+      return createActivity('claimRifi', log, party.name, 'RIFI', amount);
+    }
+
+    return null;
+  }
+
+  async function scan(
+    provider: ethers.providers.Provider,
+    counterparties: Map<string, Counterparty>,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Activity[]> {
+    const transferTopic = transferInterface.getEventTopic('Transfer');
+    const accountTopic = ethers.utils.hexZeroPad(account, 32);
+    const marketTopics = MARKET_EVENTS.map((name) => rTokenInterface.getEventTopic(name));
+
+    const markets = Array.from(counterparties.entries()).filter(([ , { kind } ]) => kind === 'rToken');
+
+    // Market events have no indexed account, so every event is read
+    const [ marketLogs, sent, received ] = await Promise.all([
+      Promise.all(markets.map(([ rTokenAddress ]) => provider.getLogs({
+        address: rTokenAddress, topics: [ marketTopics ], fromBlock, toBlock,
+      }))),
+      provider.getLogs({ topics: [ transferTopic, accountTopic ], fromBlock, toBlock }),
+      provider.getLogs({ topics: [ transferTopic, null, accountTopic ], fromBlock, toBlock }),
+    ]);
+
+    const found: Activity[] = [];
+
+    marketLogs.forEach((logs, i) => logs.forEach((log) => {
+      found.push(fromMarketLog(log, markets[i][1].name, counterparties));
+    }));
+
+    [ ...sent, ...received ]
+      // Transfers to oneself are in both lists
+      .filter((log, i, logs) => logs.findIndex((other) =>
+        other.transactionHash === log.transactionHash && other.logIndex === log.logIndex
+      ) === i)
+      .filter((log) => log.topics.length === 3)
+      .forEach((log) => found.push(fromTransferLog(log, counterparties)));
+
+    const result = found.filter((activity) => activity);
+    const blockNumbers = Array.from(new Set(result.map(({ blockNumber }) => blockNumber)));
+    const blocks = await Promise.all(blockNumbers.map((blockNumber) => provider.getBlock(blockNumber)));
+
+    result.forEach((activity) => {
+      activity.timestamp = blocks[blockNumbers.indexOf(activity.blockNumber)].timestamp;
+    });
+
+    return result.sort(compareActivities);
+  }
+
+  /**
+   * Gets the checkpoint of the indexer: the activities found and the next
+   *     block to scan. It can be stored as JSON and passed as the `checkpoint`
+   *     option to resume the scan.
+   *
+   * @returns {ActivityCheckpoint} Returns the checkpoint.
+   */
+  function getCheckpoint(): ActivityCheckpoint {
+    return {
+      network,
+      account,
+      nextBlock,
+      activities: activities.slice(),
+    };
+  }
+
+  /**
+   * Scans the blocks since the last scan, up to the latest block, and adds
+   *     the account's activities to `activities`. Instances made by `rifi.at`
+   *     scan up to their block.
+   *
+   * @returns {Activity[]} Returns the activities found by this scan.
+   */
+  async function sync(): Promise<Activity[]> {
+    await netId(_rifi);
+
+    if (network && network !== _rifi._network.name) {
+      throw new RifiValidationError(errorPrefix + 'Option `checkpoint` is for another network.');
+    }
+
+    network = _rifi._network.name;
+
+    const provider = _rifi._provider.provider || _rifi._provider;
+    const blockTag = _rifi._blockTag;
+    const headBlock = await provider.getBlockNumber();
+    const latestBlock = typeof blockTag === 'number' || ethers.utils.isHexString(blockTag) ?
+      Math.min(headBlock, BigNumber.from(blockTag).toNumber()) : headBlock;
+    const blockRange = indexerOptions.blockRange || DEFAULT_BLOCK_RANGE;
+    const counterparties = getCounterparties();
+    const found: Activity[] = [];
+
+    for (let from = nextBlock; from <= latestBlock; from += blockRange) {
+      const to = Math.min(from + blockRange - 1, latestBlock);
+      const chunk = await scan(provider, counterparties, from, to);
+
+      found.push(...chunk);
+      activities.push(...chunk);
+      nextBlock = to + 1;
+
+      if (indexerOptions.onCheckpoint) {
+        await indexerOptions.onCheckpoint(getCheckpoint());
+      }
+    }
+
+    return found;
+  }
+
+  return {
+    account,
+    activities,
+    getCheckpoint,
+    sync,
+  };
+}
@@ -0,0 +1,443 @@
+/**
+ * @file Alerts
+ * @desc These methods monitor a watchlist of accounts and send alerts when
+ *     an account's health factor drops below a threshold, when the borrow
+ *     rate of a market it borrows from spikes, or when a market it uses as
+ *     collateral gets paused. Alerts go to a callback and to webhooks, and
+ *     the state of the alerts can be stored so a restarted service does not
+ *     send them again.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import * as eth from './eth';
+import { getAccountLiquidity } from './cointroller';
+import { rTokenBalancesAll, getAccountLimits } from './lens';
+import { getAllMarketApys } from './apy';
+import { netId, callOptions } from './helpers';
+import { request } from './util';
+import { RifiValidationError, RifiNetworkError } from './errors';
+import { address, abi, rTokens } from './constants';
+import {
+  CallOptions,
+  Alert,
+  AlertType,
+  AlertState,
+  AlertServiceOptions,
+  AlertService,
+} from './types';
+
+const DEFAULT_THRESHOLDS = [ 1.5, 1.25, 1.1 ];
+const DEFAULT_RATE_SPIKE = 5;
+const DEFAULT_INTERVAL = 60000;
+const WEBHOOK_TIMEOUT = 10000;
+
+// The watched accounts using a market, found by each check
+interface MarketUsers {
+  borrowers: string[];
+  suppliers: string[];
+}
+
+function isNumberArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => typeof item === 'number' && item > 0);
+}
+
+function isWebhookUrl(value: unknown): boolean {
+  return typeof value === 'string' && /^https?:\/\/[^/?#]+/.test(value);
+}
+
+/**
+ * Posts an alert as JSON to a webhook.
+ *
+ * @hidden
+ */
+async function postWebhook(url: string, alert: Alert, errorPrefix: string): Promise<void> {
+  const { protocol, host, pathname, search } = new URL(url);
+
+  let response;
+  try {
+    response = await request({
+      hostname: `${protocol}//${host}`,
+      path: pathname + search,
+      method: 'POST',
+      headers: { 'Content-type': 'application/json' },
+      timeout: WEBHOOK_TIMEOUT,
+      body: alert,
+    });
+  } catch (error) {
+    throw new RifiNetworkError(errorPrefix + `Webhook ${url} could not be reached.`, {
+      error: error instanceof Error ? error : undefined,
+    });
+  }
+
+  if (response.status >= 300) {
+    throw new RifiNetworkError(errorPrefix + `Webhook ${url} answered ${response.status}.`);
+  }
+}
+
+/**
+ * Creates a service that monitors the health of a watchlist of accounts. Each
+ *     check reads the accounts' health factors, the borrow APY of every market
+ *     and whether the markets the accounts use as collateral are paused, then
+ *     sends an alert for each change:
+ *
+ *     - `healthFactor` when an account's health factor drops below one of the
+ *       `healthFactors` thresholds, and `healthFactorRecovered` when it goes
+ *       back above;
+ *     - `rateSpike` when the borrow APY of a market an account borrows from
+ *       rose by `rateSpike` percentage points or more since the last check,
+ *       and `borrowApy` when it goes above `maxBorrowApy`;
+ *     - `mintPaused` and `borrowPaused` when the Cointroller pauses minting
+ *       or borrowing in a market an account uses as collateral.
+ *
+ *     An alert is sent once, until its condition clears. The state after each
+ *     check can be stored as JSON and passed as the `state` option, so a
+ *     restarted service keeps what it sent.
+ *
+ * @param {AlertServiceOptions} alertOptions `accounts` are the addresses to
+ *     watch, `healthFactors` the thresholds (defaults to 1.5, 1.25 and 1.1),
+ *     `rateSpike` the borrow APY increase in percentage points (defaults to
+ *     5), `maxBorrowApy` an optional borrow APY limit, `interval` the
+ *     milliseconds between checks of `start` (defaults to one minute),
+ *     `onAlert` a function called with each alert, `webhooks` URLs that
+ *     receive each alert as a JSON POST request, `state` a state to resume
+ *     from, `onState` a function called with the state after each check and
+ *     `onError` a function called with the errors of the checks and of the
+ *     deliveries.
+ *
+ * @returns {AlertService} Returns an alert service object.
+ *
+ * @example
+ *
+ * ```
+ * const fs = require('fs');
+ * const rifi = new Rifi('https://bsc-dataseed.binance.org');
+ *
+ * const alerts = rifi.createAlertService({
+ *   accounts: [ myAddress ],
+ *   healthFactors: [ 1.3, 1.1 ],
+ *   webhooks: [ 'https://hooks.example.com/rifi' ],
+ *   state: fs.existsSync('alerts.json') ? JSON.parse(fs.readFileSync('alerts.json', 'utf8')) : null,
+ *   onState: (state) => fs.writeFileSync('alerts.json', JSON.stringify(state)),
+ *   onAlert: (alert) => console.log(alert.message),
+ *   onError: console.error,
+ * });
+ *
+ * alerts.start();
+ * process.on('SIGTERM', () => alerts.stop());
+ * ```
+ */
+export function createAlertService(alertOptions: AlertServiceOptions = {}): AlertService {
+  // eslint-disable-next-line @typescript-eslint/no-this-alias
+  const _rifi = this;
+  const errorPrefix = 'Rifi [alerts] | ';
+
+  const {
+    accounts: watchlist = [],
+    healthFactors = DEFAULT_THRESHOLDS,
+    rateSpike = DEFAULT_RATE_SPIKE,
+    maxBorrowApy,
+    interval = DEFAULT_INTERVAL,
+    webhooks = [],
+  } = alertOptions;
+
+  if (!Array.isArray(watchlist)) {
+    throw new RifiValidationError(errorPrefix + 'Option `accounts` must be an array of addresses.');
+  }
+
+  if (!isNumberArray(healthFactors)) {
+    throw new RifiValidationError(errorPrefix + 'Option `healthFactors` must be an array of positive numbers.');
+  }
+
+  if (typeof rateSpike !== 'number' || rateSpike <= 0) {
+    throw new RifiValidationError(errorPrefix + 'Option `rateSpike` must be a positive number.');
+  }
+
+  if (maxBorrowApy !== undefined && (typeof maxBorrowApy !== 'number' || maxBorrowApy <= 0)) {
+    throw new RifiValidationError(errorPrefix + 'Option `maxBorrowApy` must be a positive number.');
+  }
+
+  if (typeof interval !== 'number' || interval <= 0) {
+    throw new RifiValidationError(errorPrefix + 'Option `interval` must be a positive number.');
+  }
+
+  if (!Array.isArray(webhooks) || !webhooks.every(isWebhookUrl)) {
+    throw new RifiValidationError(errorPrefix + 'Option `webhooks` must be an array of http or https URLs.');
+  }
+
+  const thresholds = healthFactors.slice().sort((a, b) => b - a);
+  const accounts: string[] = [];
+
+  const state: AlertState = alertOptions.state ?
+    JSON.parse(JSON.stringify(alertOptions.state)) :
+    { network: null, blockNumber: null, accounts: {}, markets: {} };
+
+  let checking: Promise<Alert[]> = null;
+  let running = false;
+  let timer: ReturnType<typeof setTimeout> = null;
+
+  function reportError(error: Error): void {
+    if (alertOptions.onError) {
+      alertOptions.onError(error);
+    }
+  }
+
+  /**
+   * Adds an account to the watchlist.
+   *
+   * @param {string} account The address of the account.
+   */
+  function addAccount(account: string): void {
+    if (!ethers.utils.isAddress(account)) {
+      throw new RifiValidationError(errorPrefix + 'Argument `account` must be a valid Ethereum address.');
+    }
+
+    account = ethers.utils.getAddress(account);
+    if (!accounts.includes(account)) {
+      accounts.push(account);
+    }
+  }
+
+  /**
+   * Removes an account from the watchlist, and forgets its alerts.
+   *
+   * @param {string} account The address of the account.
+   */
+  function removeAccount(account: string): void {
+    const index = ethers.utils.isAddress(account) ? accounts.indexOf(ethers.utils.getAddress(account)) : -1;
+
+    if (index !== -1) {
+      delete state.accounts[accounts[index]];
+      accounts.splice(index, 1);
+    }
+  }
+
+  watchlist.forEach(addAccount);
+
+  /**
+   * Gets the state of the alerts: the last health factor and the thresholds
+   *     crossed by each account, and the last borrow APY and pauses of each
+   *     market. It can be stored as JSON and passed as the `state` option.
+   *
+   * @returns {AlertState} Returns the state.
+   */
+  function getState(): AlertState {
+    return JSON.parse(JSON.stringify(state));
+  }
+
+  async function deliver(alert: Alert): Promise<void> {
+    const deliveries: Promise<void>[] = webhooks.map((url) => postWebhook(url, alert, errorPrefix));
+
+    if (alertOptions.onAlert) {
+      deliveries.push(Promise.resolve().then(() => alertOptions.onAlert(alert)));
+    }
+
+    // A failed delivery is reported, and not retried by the next check
+    await Promise.all(deliveries.map((delivery) => delivery.catch(reportError)));
+  }
+
+  async function runCheck(): Promise<Alert[]> {
+    await netId(_rifi);
+    const netName = _rifi._network.name;
+
+    if (state.network && state.network !== netName) {
+      throw new RifiValidationError(errorPrefix + 'Option `state` is for another network.');
+    }
+
+    const provider = _rifi._provider.provider || _rifi._provider;
+    const blockTag = _rifi._blockTag;
+    const headBlock = await provider.getBlockNumber();
+    const blockNumber = typeof blockTag === 'number' || ethers.utils.isHexString(blockTag) ?
+      Math.min(headBlock, BigNumber.from(blockTag).toNumber()) : headBlock;
+
+    // Every read of a check is made at the same block
+    const options: CallOptions = { blockTag: blockNumber };
+    const watched = accounts.slice();
+    const addresses = address[netName];
+    const nameOf = (rTokenAddress: string): string => rTokens[netName].find(
+      (rTokenName: string) => (addresses[rTokenName] || '').toLowerCase() === rTokenAddress.toLowerCase()
+    ) || rTokenAddress;
+
+    const [ apys, positions ] = await Promise.all([
+      getAllMarketApys.apply(_rifi, [ options ]),
+      Promise.all(watched.map((account) => Promise.all([
+        getAccountLiquidity.apply(_rifi, [ account, options ]),
+        rTokenBalancesAll.apply(_rifi, [ account, options ]),
+        getAccountLimits.apply(_rifi, [ account, options ]),
+      ]))),
+    ]);
+
+    const users: { [rTokenName: string]: MarketUsers } = {};
+    const usersOf = (rTokenName: string): MarketUsers =>
+      users[rTokenName] = users[rTokenName] || { borrowers: [], suppliers: [] };
+
+    positions.forEach(([ , balances, limits ], i) => {
+      balances
+        .filter(({ borrowBalanceCurrent }) => !borrowBalanceCurrent.isZero())
+        .forEach(({ rToken }) => usersOf(nameOf(rToken)).borrowers.push(watched[i]));
+      limits.markets.forEach((rToken: string) => usersOf(nameOf(rToken)).suppliers.push(watched[i]));
+    });
+
+    const collateralMarkets = Object.keys(users).filter((rTokenName) => users[rTokenName].suppliers.length);
+    const readOptions: CallOptions = { ...callOptions(_rifi, options), abi: abi.Cointroller };
+    const pauses: [ boolean, boolean ][] = await Promise.all(collateralMarkets.map((rTokenName) => Promise.all([
+      eth.read(addresses.Cointroller, 'mintGuardianPaused', [ addresses[rTokenName] || rTokenName ], readOptions),
+      eth.read(addresses.Cointroller, 'borrowGuardianPaused', [ addresses[rTokenName] || rTokenName ], readOptions),
+    ])));
+
+    const alerts: Alert[] = [];
+    const createAlert = (
+      type: AlertType,
+      alertAccounts: string[],
+      rToken: string | null,
+      message: string,
+      details: Partial<Alert> = {}
+    ) => alerts.push({ type, network: netName, blockNumber, accounts: alertAccounts, rToken, message, ...details });
+
+    positions.forEach(([ liquidity ], i) => {
+      const account = watched[i];
+      const healthFactor = liquidity.borrowValue.isZero() ? null : liquidity.human.healthFactor;
+      const crossed = healthFactor === null ? [] : thresholds.filter((threshold) => healthFactor < threshold);
+      const previous = state.accounts[account] ? state.accounts[account].crossed : [];
+
+      const dropped = crossed.filter((threshold) => !previous.includes(threshold));
+      const recovered = previous.filter((threshold) => !crossed.includes(threshold));
+
+      if (dropped.length) {
+        const threshold = Math.min(...dropped);
+        createAlert('healthFactor', [ account ], null,
+          `Health factor of ${account} is ${healthFactor.toFixed(2)}, below ${threshold}.`,
+          { healthFactor, threshold });
+      } else if (recovered.length) {
+        const threshold = Math.max(...recovered);
+        createAlert('healthFactorRecovered', [ account ], null,
+          `Health factor of ${account} is ${healthFactor === null ? 'unlimited' : healthFactor.toFixed(2)}, ` +
+          `back above ${threshold}.`,
+          { healthFactor, threshold });
+      }
+
+      state.accounts[account] = { healthFactor, crossed };
+    });
+
+    apys.forEach(({ rToken, borrowApy }) => {
+      const previous = state.markets[rToken];
+      const borrowers = (users[rToken] || { borrowers: [] }).borrowers;
+      const isAboveMax = maxBorrowApy !== undefined && borrowApy > maxBorrowApy;
+
+      const hasPrevious = previous && previous.borrowApy !== null;
+      if (hasPrevious && borrowers.length && borrowApy - previous.borrowApy >= rateSpike) {
+        createAlert('rateSpike', borrowers, rToken,
+          `Borrow APY of ${rToken} rose from ${previous.borrowApy.toFixed(2)}% to ${borrowApy.toFixed(2)}%.`,
+          { borrowApy, previousBorrowApy: previous.borrowApy });
+      }
+
+      // Alerts on the markets no one borrows from wait until someone does
+      const wasAboveMax = previous ? previous.borrowApyAbove : false;
+      if (isAboveMax && !wasAboveMax && borrowers.length) {
+        createAlert('borrowApy', borrowers, rToken,
+          `Borrow APY of ${rToken} is ${borrowApy.toFixed(2)}%, above ${maxBorrowApy}%.`,
+          { borrowApy, threshold: maxBorrowApy });
+      }
+
+      state.markets[rToken] = {
+        borrowApy,
+        borrowApyAbove: isAboveMax && (wasAboveMax || borrowers.length > 0),
+        mintPaused: previous ? previous.mintPaused : false,
+        borrowPaused: previous ? previous.borrowPaused : false,
+      };
+    });
+
+    collateralMarkets.forEach((rToken, i) => {
+      const [ mintPaused, borrowPaused ] = pauses[i];
+      const market = state.markets[rToken] = state.markets[rToken] ||
+        { borrowApy: null, borrowApyAbove: false, mintPaused: false, borrowPaused: false };
+      const suppliers = users[rToken].suppliers;
+
+      if (mintPaused && !market.mintPaused) {
+        createAlert('mintPaused', suppliers, rToken, `Minting ${rToken} is paused.`);
+      }
+
+      if (borrowPaused && !market.borrowPaused) {
+        createAlert('borrowPaused', suppliers, rToken, `Borrowing ${rToken} is paused.`);
+      }
+
+      market.mintPaused = mintPaused;
+      market.borrowPaused = borrowPaused;
+    });
+
+    state.network = netName;
+    state.blockNumber = blockNumber;
+
+    for (const alert of alerts) {
+      await deliver(alert);
+    }
+
+    if (alertOptions.onState) {
+      await alertOptions.onState(getState());
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Checks the watched accounts once and sends the alerts. A check started
+   *     while another one runs waits for it.
+   *
+   * @returns {Alert[]} Returns the alerts sent by this check.
+   */
+  async function check(): Promise<Alert[]> {
+    while (checking) {
+      await checking.catch(() => null);
+    }
+
+    checking = runCheck();
+    try {
+      return await checking;
+    } finally {
+      checking = null;
+    }
+  }
+
+  /**
+   * Starts checking the watched accounts every `interval` milliseconds, until
+   *     `stop` is called. The timer keeps a Node.js process running.
+   */
+  function start(): void {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    const loop = async () => {
+      try {
+        await check();
+      } catch (error) {
+        reportError(error);
+      }
+
+      if (running) {
+        timer = setTimeout(loop, interval);
+      }
+    };
+
+    loop();
+  }
+
+  /**
+   * Stops the checks started by `start`. A check that is running finishes.
+   */
+  function stop(): void {
+    running = false;
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  return {
+    accounts,
+    addAccount,
+    removeAccount,
+    getState,
+    check,
+    start,
+    stop,
+  };
+}
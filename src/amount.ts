@@ -0,0 +1,385 @@
+/**
+ * @file Amount
+ * @desc This class holds token amounts as fixed-point integers, so amounts
+ *     with 18 decimals and large balances keep every digit.
+ */
+
+import { BigNumber } from 'ethers';
+import { RifiValidationError } from './errors';
+import { AmountLike, RoundingMode } from './types';
+
+const DECIMAL_PATTERN = /^([-+])?(\d*)(?:\.(\d*))?(?:e([-+]?\d+))?$/i;
+
+// Exchange rates and prices are scaled by 1e18
+const EXP_SCALE = BigNumber.from(10).pow(18);
+
+function pow10(exponent: number): BigNumber {
+  return BigNumber.from(10).pow(exponent);
+}
+
+function validateDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new RifiValidationError('Rifi [Amount] | Decimals must be a non-negative integer.');
+  }
+}
+
+// Whether the dropped digits round the magnitude up
+function roundsUp(
+  rounding: RoundingMode,
+  kept: BigNumber,
+  remainder: BigNumber,
+  divisor: BigNumber
+): boolean {
+  if (remainder.isZero()) {
+    return false;
+  }
+
+  const twice = remainder.mul(2);
+
+  switch (rounding) {
+  case 'up':
+    return true;
+  case 'halfUp':
+    return twice.gte(divisor);
+  case 'halfEven':
+    return twice.gt(divisor) || (twice.eq(divisor) && kept.mod(2).eq(1));
+  default:
+    return false;
+  }
+}
+
+/**
+ * Divides two integers, rounding the quotient with a rounding mode. `down`
+ *     and `up` round towards and away from zero.
+ *
+ * @hidden
+ */
+export function divRound(
+  numerator: BigNumber,
+  divisor: BigNumber,
+  rounding: RoundingMode = 'down'
+): BigNumber {
+  const negative = numerator.isNegative() !== divisor.isNegative();
+  const n = numerator.abs();
+  const d = divisor.abs();
+
+  let quotient = n.div(d);
+  if (roundsUp(rounding, quotient, n.mod(d), d)) {
+    quotient = quotient.add(1);
+  }
+
+  return negative ? quotient.mul(-1) : quotient;
+}
+
+// Parses a decimal string, like `12.5` or `1e-7`, into an integer of `decimals`
+function parseDecimal(value: string, decimals: number, rounding: RoundingMode): BigNumber {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+
+  if (!match || (match[2] === '' && (match[3] || '') === '')) {
+    throw new RifiValidationError('Rifi [Amount] | `' + value + '` is not a decimal number.');
+  }
+
+  const [ , sign, integer, fraction = '', exponent = '0' ] = match;
+  const digits = (integer + fraction).replace(/^0+(?=\d)/, '') || '0';
+  const point = digits.length - fraction.length + decimals + parseInt(exponent, 10);
+
+  let magnitude: BigNumber;
+  if (point >= digits.length) {
+    magnitude = BigNumber.from(digits + '0'.repeat(point - digits.length));
+  } else {
+    const kept = point > 0 ? BigNumber.from(digits.slice(0, point)) : BigNumber.from(0);
+    const dropped = point > 0 ? digits.slice(point) : '0'.repeat(-point) + digits;
+    const divisor = pow10(dropped.length);
+
+    magnitude = roundsUp(rounding, kept, BigNumber.from(dropped), divisor) ? kept.add(1) : kept;
+  }
+
+  return sign === '-' ? magnitude.mul(-1) : magnitude;
+}
+
+/**
+ * A token amount held as an integer `mantissa` scaled by `10 ** decimals`.
+ *     Amounts are created from natural units, like `'1.25'`, with `from`, or
+ *     from integers already scaled, like contract return values, with
+ *     `fromMantissa`. Strings, BigNumbers and bigints are exact, numbers are
+ *     read through their shortest decimal representation.
+ */
+export class Amount {
+  readonly mantissa: BigNumber;
+  readonly decimals: number;
+
+  constructor(mantissa: BigNumber, decimals: number) {
+    validateDecimals(decimals);
+    this.mantissa = mantissa;
+    this.decimals = decimals;
+  }
+
+  /**
+   * Creates an amount from natural units.
+   *
+   * @param {AmountLike} value The amount in natural units, e.g. `'1.25'` for
+   *     1.25 tokens. An `Amount` is rescaled to `decimals`.
+   * @param {number} decimals The decimals of the token.
+   * @param {RoundingMode} [rounding] How to round digits beyond `decimals`,
+   *     defaults to `down`.
+   *
+   * @returns {Amount} Returns the amount.
+   *
+   * @example
+   * ```
+   * const amount = Rifi.Amount.from('1.000000000000000001', 18);
+   * console.log(amount.mantissa.toString()); // 1000000000000000001
+   * ```
+   */
+  static from(value: AmountLike, decimals: number, rounding: RoundingMode = 'down'): Amount {
+    validateDecimals(decimals);
+
+    if (value instanceof Amount) {
+      return value.rescale(decimals, rounding);
+    }
+
+    if (BigNumber.isBigNumber(value)) {
+      return new Amount(BigNumber.from(value).mul(pow10(decimals)), decimals);
+    }
+
+    if (typeof value === 'number' && !isFinite(value)) {
+      throw new RifiValidationError('Rifi [Amount] | `' + value + '` is not a finite number.');
+    }
+
+    if (typeof value !== 'number' && typeof value !== 'string' && typeof value !== 'bigint') {
+      throw new RifiValidationError('Rifi [Amount] | Amounts must be a string, number, bigint or BigNumber.');
+    }
+
+    return new Amount(parseDecimal(value.toString(), decimals, rounding), decimals);
+  }
+
+  /**
+   * Creates an amount from an integer already scaled by `10 ** decimals`.
+   *
+   * @param {BigNumber | string | bigint} mantissa The scaled integer.
+   * @param {number} decimals The decimals of the token.
+   *
+   * @returns {Amount} Returns the amount.
+   */
+  static fromMantissa(mantissa: BigNumber | string | bigint, decimals: number): Amount {
+    try {
+      return new Amount(BigNumber.from(mantissa.toString()), decimals);
+    } catch (e) {
+      if (e instanceof RifiValidationError) {
+        throw e;
+      }
+      throw new RifiValidationError('Rifi [Amount] | `' + mantissa + '` is not an integer.');
+    }
+  }
+
+  static isAmountLike(value: unknown): value is AmountLike {
+    return typeof value === 'number' ||
+      typeof value === 'string' ||
+      typeof value === 'bigint' ||
+      BigNumber.isBigNumber(value) ||
+      value instanceof Amount;
+  }
+
+  /**
+   * Converts the amount to other decimals.
+   *
+   * @param {number} decimals The new decimals.
+   * @param {RoundingMode} [rounding] How to round dropped digits, defaults to
+   *     `down`.
+   *
+   * @returns {Amount} Returns the converted amount.
+   */
+  rescale(decimals: number, rounding: RoundingMode = 'down'): Amount {
+    validateDecimals(decimals);
+
+    if (decimals >= this.decimals) {
+      return new Amount(this.mantissa.mul(pow10(decimals - this.decimals)), decimals);
+    }
+
+    return new Amount(
+      divRound(this.mantissa, pow10(this.decimals - decimals), rounding),
+      decimals
+    );
+  }
+
+  add(other: AmountLike): Amount {
+    return new Amount(this.mantissa.add(Amount.from(other, this.decimals).mantissa), this.decimals);
+  }
+
+  sub(other: AmountLike): Amount {
+    return new Amount(this.mantissa.sub(Amount.from(other, this.decimals).mantissa), this.decimals);
+  }
+
+  /**
+   * Multiplies by another amount, like a price or a rate, keeping the
+   *     decimals of this amount.
+   */
+  mul(other: AmountLike, rounding: RoundingMode = 'down'): Amount {
+    const factor = other instanceof Amount ? other : Amount.from(other, 18);
+    return new Amount(
+      divRound(this.mantissa.mul(factor.mantissa), pow10(factor.decimals), rounding),
+      this.decimals
+    );
+  }
+
+  /**
+   * Divides by another amount, like a price or a rate, keeping the decimals
+   *     of this amount.
+   */
+  div(other: AmountLike, rounding: RoundingMode = 'down'): Amount {
+    const divisor = other instanceof Amount ? other : Amount.from(other, 18);
+    if (divisor.isZero()) {
+      throw new RifiValidationError('Rifi [Amount] | Division by zero.');
+    }
+
+    return new Amount(
+      divRound(this.mantissa.mul(pow10(divisor.decimals)), divisor.mantissa, rounding),
+      this.decimals
+    );
+  }
+
+  /**
+   * Converts an amount of rTokens to underlying with the market's exchange
+   *     rate, `exchangeRateCurrent` or `exchangeRateStored`.
+   *
+   * @param {BigNumber} exchangeRate The exchange rate mantissa, scaled by
+   *     `1e18` and the difference of the decimals.
+   * @param {number} underlyingDecimals The decimals of the underlying.
+   * @param {RoundingMode} [rounding] Defaults to `down`, like the market.
+   *
+   * @returns {Amount} Returns the amount of underlying.
+   *
+   * @example
+   * ```
+   * const rTokens = Rifi.Amount.fromMantissa(balanceOf, 8);
+   * const usdc = rTokens.toUnderlying(exchangeRate, 6);
+   * console.log(usdc.format(2)); // e.g. 1204.17
+   * ```
+   */
+  toUnderlying(
+    exchangeRate: BigNumber,
+    underlyingDecimals: number,
+    rounding: RoundingMode = 'down'
+  ): Amount {
+    return new Amount(
+      divRound(this.mantissa.mul(exchangeRate), EXP_SCALE, rounding),
+      underlyingDecimals
+    );
+  }
+
+  /**
+   * Converts an amount of underlying to rTokens with the market's exchange
+   *     rate.
+   *
+   * @param {BigNumber} exchangeRate The exchange rate mantissa.
+   * @param {number} [rTokenDecimals] The decimals of the rToken, defaults to
+   *     8.
+   * @param {RoundingMode} [rounding] Defaults to `down`, like the market.
+   *
+   * @returns {Amount} Returns the amount of rTokens.
+   */
+  toRToken(
+    exchangeRate: BigNumber,
+    rTokenDecimals = 8,
+    rounding: RoundingMode = 'down'
+  ): Amount {
+    return new Amount(
+      divRound(this.mantissa.mul(EXP_SCALE), exchangeRate, rounding),
+      rTokenDecimals
+    );
+  }
+
+  isZero(): boolean {
+    return this.mantissa.isZero();
+  }
+
+  isNegative(): boolean {
+    return this.mantissa.isNegative();
+  }
+
+  eq(other: AmountLike): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lt(other: AmountLike): boolean {
+    return this.compare(other) < 0;
+  }
+
+  gt(other: AmountLike): boolean {
+    return this.compare(other) > 0;
+  }
+
+  private compare(other: AmountLike): number {
+    const b = Amount.from(other, Math.max(this.decimals, other instanceof Amount ? other.decimals : 0));
+    const a = this.rescale(b.decimals);
+    return a.mantissa.lt(b.mantissa) ? -1 : a.mantissa.gt(b.mantissa) ? 1 : 0;
+  }
+
+  /**
+   * Formats the amount with a fixed number of fraction digits.
+   *
+   * @param {number} [places] The fraction digits, defaults to the decimals.
+   * @param {RoundingMode} [rounding] How to round dropped digits, defaults to
+   *     `halfUp`.
+   *
+   * @returns {string} Returns the formatted amount, like `1204.17`.
+   */
+  format(places: number = this.decimals, rounding: RoundingMode = 'halfUp'): string {
+    const rounded = this.rescale(places, rounding);
+    let digits = rounded.mantissa.abs().toString();
+    if (digits.length <= places) {
+      digits = '0'.repeat(places + 1 - digits.length) + digits;
+    }
+    const sign = rounded.mantissa.isNegative() ? '-' : '';
+
+    if (places === 0) {
+      return sign + digits;
+    }
+
+    return sign + digits.slice(0, -places) + '.' + digits.slice(-places);
+  }
+
+  /**
+   * Gets the exact amount as a decimal string, without trailing zeros.
+   */
+  toString(): string {
+    const formatted = this.format(this.decimals);
+    return formatted.indexOf('.') === -1 ?
+      formatted : formatted.replace(/\.?0+$/, '');
+  }
+
+  /**
+   * Gets the amount as a JavaScript number, which can lose precision.
+   */
+  toNumber(): number {
+    return parseFloat(this.toString());
+  }
+}
+
+/**
+ * Converts the `amount` argument of a Rifi.js method to the integer sent to
+ *     the contracts. Amounts are in natural units, unless the `mantissa` call
+ *     option says they are already scaled.
+ *
+ * @param {AmountLike} amount The amount argument.
+ * @param {number} decimals The decimals of the token.
+ * @param {boolean} [mantissa] Whether the amount is already scaled.
+ *
+ * @hidden
+ *
+ * @returns {BigNumber} Returns the scaled amount.
+ */
+export function toMantissa(amount: AmountLike, decimals: number, mantissa = false): BigNumber {
+  if (amount instanceof Amount) {
+    return amount.rescale(decimals).mantissa;
+  }
+
+  if (mantissa) {
+    // Numbers like 1e+21 print in exponent notation
+    return typeof amount === 'number' ?
+      parseDecimal(amount.toString(), 0, 'down') :
+      Amount.fromMantissa(BigNumber.isBigNumber(amount) ? amount.toString() : amount, decimals).mantissa;
+  }
+
+  return Amount.from(amount, decimals).mantissa;
+}
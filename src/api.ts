@@ -11,6 +11,7 @@ import {
   RTokenServiceRequest,
   MarketHistoryServiceRequest,
   GovernanceServiceRequest,
+  SupportedTokens,
 } from './types';
 
 import {
@@ -209,11 +210,6 @@ function queryApi(options: APIRequest, name: string, path: string): Promise<APIR
   });
 }
 
-interface SupportedTokens {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  rToken: any[];
-}
-
 export async function getSupportTokens(network: string): Promise<SupportedTokens> {
   const tokens = {
     rToken: [],
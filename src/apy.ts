@@ -0,0 +1,275 @@
+/**
+ * @file APY
+ * @desc These methods turn the per block rates of the Rifi Protocol markets
+ *     into yearly percentages, using the block rate of each network.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import * as eth from './eth';
+import { rTokenMetadata, rTokenMetadataAll, rTokenUnderlyingPriceAll } from './lens';
+import { resolveRToken } from './markets';
+import { netId, callOptions, usdDecimals } from './helpers';
+import { RifiValidationError } from './errors';
+import { Amount } from './amount';
+import { address, abi, rTokens, blocksPerYear } from './constants';
+import {
+  ApyOptions,
+  CallOptions,
+  MarketApy,
+  TokenMetadataAll,
+  TokenUnderlyingPrice,
+} from './types';
+
+const EXP_SCALE = ethers.constants.WeiPerEther;
+
+// Interest is compounded daily, like the Rifi app shows it
+const DAYS_PER_YEAR = 365;
+
+interface MarketState {
+  rToken: string;
+  exchangeRateCurrent: BigNumber;
+  supplyRatePerBlock: BigNumber;
+  borrowRatePerBlock: BigNumber;
+  totalSupply: BigNumber;
+  totalBorrows: BigNumber;
+}
+
+/**
+ * Gets the blocks mined per year on a network.
+ *
+ * @hidden
+ */
+export function getBlocksPerYear(network: string, errorPrefix: string): number {
+  const blocks = blocksPerYear[network];
+
+  if (!blocks) {
+    throw new RifiValidationError(
+      errorPrefix + 'No `blocksPerYear` is configured for ' + network + '.'
+    );
+  }
+
+  return blocks;
+}
+
+/**
+ * Compounds a per block rate daily over a year, in percent.
+ *
+ * @hidden
+ */
+export function compound(ratePerBlock: BigNumber, blocks: number): number {
+  const ratePerDay = Amount.fromMantissa(ratePerBlock, 18).toNumber() * blocks / DAYS_PER_YEAR;
+  return (Math.pow(ratePerDay + 1, DAYS_PER_YEAR) - 1) * 100;
+}
+
+// RIFI is not compounded, it has to be claimed and supplied again
+function distribution(
+  rifiPerYear: Amount,
+  rifiPrice: Amount | null,
+  value: Amount
+): number | null {
+  if (rifiPrice === null || value.isZero()) {
+    return null;
+  }
+
+  return rifiPerYear.mul(rifiPrice).div(value).toNumber() * 100;
+}
+
+/**
+ * Gets the USD price of RIFI, from the `rifiPrice` option or the RIFI market
+ *     of the network. RIFI has 18 decimals, so its price mantissa is the USD
+ *     value of one RIFI.
+ *
+ * @hidden
+ */
+export async function getRifiPrice(
+  options: ApyOptions,
+  errorPrefix: string
+): Promise<Amount | null> {
+  const usdDec = usdDecimals(this);
+
+  if (options.rifiPrice !== undefined) {
+    if (!Amount.isAmountLike(options.rifiPrice)) {
+      throw new RifiValidationError(errorPrefix + 'Option `rifiPrice` must be a number or a string.');
+    }
+
+    return Amount.from(options.rifiPrice, usdDec);
+  }
+
+  const addresses = address[this._network.name];
+  if (!rTokens[this._network.name].includes('rRIFI') || !addresses.PriceFeed) {
+    return null;
+  }
+
+  const trxOptions: CallOptions = { ...callOptions(this, options), abi: abi.PriceFeed };
+  const price = await eth.read(addresses.PriceFeed, 'getUnderlyingPrice', [ addresses.rRIFI ], trxOptions);
+
+  return Amount.fromMantissa(price, usdDec);
+}
+
+function toMarketApy(
+  rTokenName: string,
+  market: MarketState,
+  price: BigNumber,
+  rifiSpeed: BigNumber,
+  rifiPrice: Amount | null,
+  blocks: number
+): MarketApy {
+  const usdDec = usdDecimals(this);
+
+  // Prices are scaled so that `underlying * price / 1e18` has the USD decimals
+  const supplied = market.totalSupply.mul(market.exchangeRateCurrent).div(EXP_SCALE);
+  const suppliedValue = Amount.fromMantissa(supplied.mul(price).div(EXP_SCALE), usdDec);
+  const borrowedValue = Amount.fromMantissa(market.totalBorrows.mul(price).div(EXP_SCALE), usdDec);
+
+  // The Cointroller distributes `rifiSpeeds` to suppliers and to borrowers
+  const rifiPerYear = Amount.fromMantissa(rifiSpeed.mul(blocks), 18);
+
+  return {
+    rToken: rTokenName,
+    underlying: rTokenName.slice(1),
+    supplyApy: compound(market.supplyRatePerBlock, blocks),
+    borrowApy: compound(market.borrowRatePerBlock, blocks),
+    rifiSupplyApy: distribution(rifiPerYear, rifiPrice, suppliedValue),
+    rifiBorrowApy: distribution(rifiPerYear, rifiPrice, borrowedValue),
+    blocksPerYear: blocks,
+  };
+}
+
+/**
+ * Gets the APYs of a market. Supply and borrow rates are compounded daily
+ *     over the network's `blocksPerYear`. RIFI distribution APYs are the
+ *     yearly `rifiSpeeds` of the market valued at the RIFI price, relative to
+ *     the value supplied and borrowed. They are `null` when no RIFI price is
+ *     known, i.e. the `rifiPrice` option is not set and the network has no
+ *     `rRIFI` market, or when nothing is supplied or borrowed.
+ *
+ * @param {string} asset The market, e.g. `USDC` or `rUSDC`, or its address.
+ * @param {ApyOptions} [options] Call options, and `rifiPrice`, the USD price
+ *     of RIFI.
+ *
+ * @returns {MarketApy} Returns the APYs as percentages.
+ *
+ * @example
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const apys = await rifi.getMarketApys(Rifi.USDC, { rifiPrice: '0.05' });
+ *   console.log('USDC supply APY', apys.supplyApy, '+ RIFI', apys.rifiSupplyApy);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getMarketApys(
+  asset: string,
+  options: ApyOptions = {}
+): Promise<MarketApy> {
+  await netId(this);
+  const errorPrefix = 'Rifi [getMarketApys] | ';
+
+  const rTokenName = await resolveRToken(this, asset, errorPrefix);
+
+  const netName = this._network.name;
+  const blocks = getBlocksPerYear(netName, errorPrefix);
+
+  const addresses = address[netName];
+  const readOptions: CallOptions = callOptions(this, options);
+
+  const [ market, price, rifiSpeed, rifiPrice ] = await Promise.all([
+    rTokenMetadata.apply(this, [ rTokenName, options ]),
+    eth.read(
+      addresses.PriceFeed,
+      'getUnderlyingPrice',
+      [ addresses[rTokenName] ],
+      { ...readOptions, abi: abi.PriceFeed }
+    ),
+    eth.read(
+      addresses.Cointroller,
+      'rifiSpeeds',
+      [ addresses[rTokenName] ],
+      { ...readOptions, abi: abi.Cointroller }
+    ),
+    getRifiPrice.call(this, options, errorPrefix),
+  ]);
+
+  return toMarketApy.call(this, rTokenName, market, price, rifiSpeed, rifiPrice, blocks);
+}
+
+/**
+ * Gets the APYs of every market of the network, like `getMarketApys`.
+ *
+ * @param {ApyOptions} [options] Call options, and `rifiPrice`, the USD price
+ *     of RIFI.
+ *
+ * @returns {MarketApy[]} Returns the APYs as percentages, one entry per
+ *     market.
+ *
+ * @example
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const apys = await rifi.getAllMarketApys();
+ *   apys.forEach(({ rToken, supplyApy, borrowApy }) => {
+ *     console.log(rToken, supplyApy.toFixed(2), borrowApy.toFixed(2));
+ *   });
+ * })().catch(console.error);
+ * ```
+ */
+export async function getAllMarketApys(options: ApyOptions = {}): Promise<MarketApy[]> {
+  await netId(this);
+  const errorPrefix = 'Rifi [getAllMarketApys] | ';
+
+  getBlocksPerYear(this._network.name, errorPrefix);
+
+  const [ metadata, prices, rifiPrice ] = await Promise.all([
+    rTokenMetadataAll.apply(this, [ options ]),
+    rTokenUnderlyingPriceAll.apply(this, [ options ]),
+    getRifiPrice.call(this, options, errorPrefix),
+  ]);
+
+  return getMarketApysOf.apply(
+    this, [ metadata, prices, rifiPrice, options, errorPrefix ]
+  );
+}
+
+/**
+ * Gets the APYs of every market from the metadata, prices and RIFI price
+ *     already read by the caller. Only the RIFI speeds are read.
+ *
+ * @hidden
+ */
+export async function getMarketApysOf(
+  metadata: TokenMetadataAll,
+  prices: TokenUnderlyingPrice[],
+  rifiPrice: Amount | null,
+  options: ApyOptions,
+  errorPrefix: string
+): Promise<MarketApy[]> {
+  const netName = this._network.name;
+  const blocks = getBlocksPerYear(netName, errorPrefix);
+  const readOptions: CallOptions = callOptions(this, options);
+
+  const addresses = address[netName];
+  const nameOf = (rTokenAddress: string): string => rTokens[netName].find(
+    (rTokenName) => (addresses[rTokenName] || '').toLowerCase() === rTokenAddress.toLowerCase()
+  ) || rTokenAddress;
+
+  const rifiSpeeds: BigNumber[] = await Promise.all(
+    metadata.rTokens.map((market: MarketState) => eth.read(
+      addresses.Cointroller,
+      'rifiSpeeds',
+      [ market.rToken ],
+      { ...readOptions, abi: abi.Cointroller }
+    ))
+  );
+
+  return metadata.rTokens.map((market: MarketState, i: number) => toMarketApy.call(
+    this,
+    nameOf(market.rToken),
+    market,
+    prices.find((price) => price.rToken === market.rToken).underlyingPrice,
+    rifiSpeeds[i],
+    rifiPrice,
+    blocks
+  ));
+}
@@ -0,0 +1,166 @@
+/**
+ * @file Client
+ * @desc This file builds Rifi.js instances, for the `Rifi` function and the
+ *     `RifiClient` class.
+ */
+
+import * as eth from './eth';
+import * as cointroller from './cointroller';
+import * as rToken from './rToken';
+import * as priceFeed from './priceFeed';
+import * as rifi from './rifi';
+import * as lens from './lens';
+import * as gov from './gov';
+import * as vault from './vault';
+import * as account from './account';
+import * as liquidator from './liquidator';
+import * as signer from './signer';
+import * as markets from './markets';
+import * as apy from './apy';
+import * as interestRateModel from './interestRateModel';
+import * as portfolio from './portfolio';
+import * as activity from './activity';
+import * as accounting from './accounting';
+import * as watch from './watch';
+import * as alerts from './alerts';
+import * as keeper from './keeper';
+import { ethers } from 'ethers';
+import { BlockTag } from '@ethersproject/abstract-provider';
+import { RifiValidationError } from './errors';
+import { Provider, RifiOptions, RifiInstance } from './types';
+
+const BLOCK_TAG_NAMES = [ 'latest', 'earliest', 'pending' ];
+
+/**
+ * Makes an instance that reads the chain as it was at a past block, e.g. to
+ *     rebuild a position or the prices at the time of an event. Every read
+ *     method of the instance defaults to the block, the `blockTag` option still
+ *     overrides it, and transactions are sent as usual. Blocks older than the
+ *     node's pruning window need an archive node.
+ *
+ * @param {BlockTag} blockTag A block number, a block number as a hex string,
+ *     or `latest`, `earliest` or `pending`.
+ *
+ * @returns {RifiInstance} Returns an instance with the provider and network of
+ *     this one.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi('https://bsc-archive.example.com');
+ *
+ * (async function () {
+ *   const past = rifi.at(9000000);
+ *   const { human } = await past.getAccountLiquidity(myAddress);
+ *   console.log('Health factor at block 9000000', human.healthFactor);
+ * })().catch(console.error);
+ * ```
+ */
+export function at(blockTag: BlockTag): RifiInstance {
+  const isBlockNumber = typeof blockTag === 'number' && Number.isInteger(blockTag) && blockTag >= 0;
+  const isTag = typeof blockTag === 'string' &&
+    (ethers.utils.isHexString(blockTag) || BLOCK_TAG_NAMES.includes(blockTag));
+
+  if (!isBlockNumber && !isTag) {
+    throw new RifiValidationError('Rifi [at] | Argument `blockTag` must be a block number or a block tag.');
+  }
+
+  // Shares the methods, the provider and the network with this instance
+  const scoped = Object.create(this);
+  scoped._blockTag = blockTag;
+
+  return scoped;
+}
+
+/**
+ * Adds the methods and the provider of a Rifi.js instance to an object.
+ *
+ * @hidden
+ *
+ * @param {object} target The object to make an instance.
+ * @param {Provider | string} provider The Ethereum network provider.
+ * @param {RifiOptions} options The provider options.
+ *
+ * @returns {RifiInstance} Returns the target.
+ */
+export function initialize<T>(
+  target: T,
+  provider: Provider | string,
+  options: RifiOptions
+): T & RifiInstance {
+  const originalProvider = provider;
+
+  options.provider = provider || options.provider;
+  provider = eth._createProvider(options);
+
+  const members: RifiInstance = {
+    _originalProvider: originalProvider,
+    _provider: provider,
+    _networkPromise: undefined,
+    _network: undefined,
+    at,
+    ...cointroller,
+    ...rToken,
+    ...priceFeed,
+    ...gov,
+    ...lens,
+    ...vault,
+    ...account,
+    ...liquidator,
+    claimRifi: rifi.claimRifi,
+    delegate: rifi.delegate,
+    delegateBySig: rifi.delegateBySig,
+    createDelegateSignature: rifi.createDelegateSignature,
+    speedUpTransaction: signer.speedUpTransaction,
+    cancelTransaction: signer.cancelTransaction,
+    getPendingTransactions: signer.getPendingTransactions,
+    recoverTransactions: signer.recoverTransactions,
+    discoverMarkets: markets.discoverMarkets,
+    getMarketApys: apy.getMarketApys,
+    getAllMarketApys: apy.getAllMarketApys,
+    ...interestRateModel,
+    ...portfolio,
+    ...activity,
+    getAccountingReport: accounting.getAccountingReport,
+    ...watch,
+    ...alerts,
+    ...keeper,
+  };
+
+  const instance = Object.assign(target, members);
+
+  // Instance needs to know which network the provider connects to, so it can
+  //     use the correct contract addresses.
+  instance._networkPromise = eth
+    .getProviderNetwork(provider)
+    .then((network) => {
+      delete instance._networkPromise;
+      instance._network = network;
+    });
+
+  return instance;
+}
+
+/**
+ * A class-based alternative to the `Rifi` function, for TypeScript code that
+ *     extends it or checks instances with `instanceof`.
+ *
+ * @example
+ * ```
+ * const rifi = new Rifi.RifiClient(window.ethereum);
+ *
+ * (async function () {
+ *   const trx = await rifi.supply(Rifi.BNB, 1);
+ *   console.log('Ethers.js transaction object', trx);
+ * })().catch(console.error);
+ * ```
+ */
+export class RifiClient {
+  constructor(provider: Provider | string = 'mainnet', options: RifiOptions = {}) {
+    initialize(this, provider, options);
+  }
+}
+
+// The methods are added by `initialize`
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface RifiClient extends RifiInstance {}
@@ -4,11 +4,27 @@
  *     contract.
  */
 
+import { ethers, BigNumber } from 'ethers';
 import * as eth from './eth';
-import { netId } from './helpers';
-import { address, abi, rTokens } from './constants';
-import { CallOptions, TrxResponse } from './types';
-import { BigNumber } from 'ethers';
+import { getBorrowValue, formatLiquidity } from './liquidity';
+import { netId, callOptions, usdDecimals, decimalsOf } from './helpers';
+import { RifiValidationError, RifiProtocolFailure, decodeFailure } from './errors';
+import {
+  address, abi, rTokens, decimals, decimalNetwork
+} from './constants';
+import { isNativeCoin } from './util';
+import { Amount, toMantissa } from './amount';
+import {
+  CallOptions,
+  SimulateOptions,
+  SimulationResult,
+  TrxHandle,
+  CointrollerMarket,
+  AccountLiquidity,
+  HypotheticalAction,
+} from './types';
+
+const EXP_SCALE = ethers.constants.WeiPerEther;
 
 /**
  * Enters the user's address into Rifi Protocol markets.
@@ -33,10 +49,18 @@ import { BigNumber } from 'ethers';
  * })().catch(console.error);
  * ```
  */
+export function enterMarkets(
+  markets: string | string[],
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function enterMarkets(
+  markets?: string | string[],
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function enterMarkets(
   markets: string | string[] = [],
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const errorPrefix = 'Rifi [enterMarkets] | ';
 
@@ -45,7 +69,7 @@ export async function enterMarkets(
   }
 
   if (!Array.isArray(markets)) {
-    throw Error(errorPrefix + 'Argument `markets` must be an array or string.');
+    throw new RifiValidationError(errorPrefix + 'Argument `markets` must be an array or string.');
   }
 
   const addresses = [];
@@ -55,7 +79,7 @@ export async function enterMarkets(
     }
 
     if (!rTokens[this._network.name].includes(markets[i])) {
-      throw Error(errorPrefix + 'Provided market `' + markets[i] + '` is not a recognized rToken.');
+      throw new RifiValidationError(errorPrefix + 'Provided market `' + markets[i] + '` is not a recognized rToken.');
     }
 
     addresses.push(address[this._network.name][markets[i]]);
@@ -95,15 +119,23 @@ export async function enterMarkets(
  * })().catch(console.error);
  * ```
  */
+export function exitMarket(
+  market: string,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function exitMarket(
+  market: string,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function exitMarket(
   market: string,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const errorPrefix = 'Rifi [exitMarket] | ';
 
   if (typeof market !== 'string' || market === '') {
-    throw Error(errorPrefix + 'Argument `market` must be a string of a rToken market name.');
+    throw new RifiValidationError(errorPrefix + 'Argument `market` must be a string of a rToken market name.');
   }
 
   if (market[0] !== 'r') {
@@ -111,7 +143,7 @@ export async function exitMarket(
   }
 
   if (!rTokens[this._network.name].includes(market)) {
-    throw Error(errorPrefix + 'Provided market `' + market + '` is not a recognized rToken.');
+    throw new RifiValidationError(errorPrefix + 'Provided market `' + market + '` is not a recognized rToken.');
   }
 
   const rTokenAddress = address[this._network.name][market];
@@ -154,12 +186,12 @@ export async function exitMarket(
 export async function getCollateralFactor(
   market: string,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<CointrollerMarket> {
   await netId(this);
   const errorPrefix = 'Rifi [getCollateralFactor] | ';
 
   if (typeof market !== 'string' || market === '') {
-    throw Error(errorPrefix + 'Argument `market` must be a string of a rToken market name.');
+    throw new RifiValidationError(errorPrefix + 'Argument `market` must be a string of a rToken market name.');
   }
 
   if (market[0] !== 'r') {
@@ -167,7 +199,7 @@ export async function getCollateralFactor(
   }
 
   if (!rTokens[this._network.name].includes(market)) {
-    throw Error(errorPrefix + 'Provided market `' + market + '` is not a recognized rToken.');
+    throw new RifiValidationError(errorPrefix + 'Provided market `' + market + '` is not a recognized rToken.');
   }
 
   const rTokenAddress = address[this._network.name][market];
@@ -176,9 +208,8 @@ export async function getCollateralFactor(
   const parameters = [rTokenAddress];
 
   const trxOptions: CallOptions = {
-    _rifiProvider: this._provider,
+    ...callOptions(this, options),
     abi: abi.Cointroller,
-    ...options
   };
 
   return eth.trx(cointrollerAddress, 'markets', parameters, trxOptions);
@@ -188,12 +219,12 @@ export async function checkMembership(
   accountAddr: string,
   rTokenName: string,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<boolean> {
   await netId(this);
   const errorPrefix = 'Rifi [checkMembership] | ';
 
   if (!rTokens[this._network.name].includes(rTokenName)) {
-    throw Error(`${errorPrefix}"${rTokenName}" is not a recognized rToken.`);
+    throw new RifiValidationError(`${errorPrefix}"${rTokenName}" is not a recognized rToken.`);
   }
 
   const rTokenAddress = address[this._network.name][rTokenName];
@@ -202,9 +233,8 @@ export async function checkMembership(
   const parameters = [accountAddr, rTokenAddress];
 
   const trxOptions: CallOptions = {
-    _rifiProvider: this._provider,
+    ...callOptions(this, options),
     abi: abi.Cointroller,
-    ...options
   };
 
   return eth.trx(cointrollerAddress, 'checkMembership', parameters, trxOptions);
@@ -213,15 +243,14 @@ export async function checkMembership(
 export async function getAssetsInAccount(
   accountAddr: string,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<string[]> {
   await netId(this);
   const cointrollerAddress = address[this._network.name].Cointroller;
   const parameters = [accountAddr];
 
   const trxOptions: CallOptions = {
-    _rifiProvider: this._provider,
+    ...callOptions(this, options),
     abi: abi.Cointroller,
-    ...options
   };
 
   return eth.trx(cointrollerAddress, 'getAssetsIn', parameters, trxOptions);
@@ -234,8 +263,7 @@ export async function getCloseFactor(options: CallOptions = {}): Promise<BigNumb
   const parameters = [];
 
   const trxOptions: CallOptions = {
-    ...options,
-    _rifiProvider: this._provider,
+    ...callOptions(this, options),
     abi: abi.Cointroller,
   };
 
@@ -257,8 +285,7 @@ export async function getLiquidationIncentive(
   const parameters = [];
 
   const trxOptions: CallOptions = {
-    ...options,
-    _rifiProvider: this._provider,
+    ...callOptions(this, options),
     abi: abi.Cointroller,
   };
 
@@ -270,3 +297,197 @@ export async function getLiquidationIncentive(
   );
   return liquidationIncentive;
 }
+
+/**
+ * Gets an account's liquidity and shortfall from the Cointroller, along with
+ *     its health factor: the collateral value (weighted by collateral factors)
+ *     divided by the borrow value. An account with a health factor below 1 can
+ *     be liquidated.
+ *
+ * @param {string} account The address of the account.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     call.
+ *
+ * @returns {AccountLiquidity} Returns the liquidity, shortfall, collateral
+ *     value, borrow value and health factor as mantissas, and in `human` as
+ *     plain numbers. Values are in USD, the health factor is `MaxUint256`
+ *     (`Infinity` in `human`) for an account without borrows.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const { human } = await rifi.getAccountLiquidity(myAddress);
+ *   console.log('Health factor', human.healthFactor);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getAccountLiquidity(
+  account: string,
+  options: CallOptions = {}
+): Promise<AccountLiquidity> {
+  await netId(this);
+  const errorPrefix = 'Rifi [getAccountLiquidity] | ';
+
+  if (!ethers.utils.isAddress(account)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `account` must be a valid Ethereum address.');
+  }
+
+  const cointrollerAddress = address[this._network.name].Cointroller;
+  const trxOptions: CallOptions = {
+    ...callOptions(this, options),
+    abi: abi.Cointroller,
+  };
+
+  const [ [ error, liquidity, shortfall ], [ borrowValue ] ] = await Promise.all([
+    eth.read(cointrollerAddress, 'getAccountLiquidity', [account], trxOptions),
+    getBorrowValue.apply(this, [account, null, options]),
+  ]);
+
+  if (!error.isZero()) {
+    const failure = decodeFailure(cointrollerAddress, this._network.name, error.toNumber());
+    throw new RifiProtocolFailure(
+      errorPrefix + 'Cointroller error ' + (failure.error || failure.code) + '.',
+      { method: 'getAccountLiquidity', failure }
+    );
+  }
+
+  return formatLiquidity(liquidity, shortfall, borrowValue, usdDecimals(this));
+}
+
+/**
+ * Gets what an account's liquidity and health factor would be after redeeming,
+ *     borrowing and/or repaying in one market, without sending a transaction.
+ *     Use this to warn a user before an action puts them in a liquidatable
+ *     position.
+ *
+ * @param {string} account The address of the account.
+ * @param {HypotheticalAction} action The market in `rToken` and the amounts to
+ *     `redeem`, `borrow` and `repay`. If `rToken` is an rToken name (e.g.
+ *     `rUSDC`) the redeem amount is in rTokens, otherwise (e.g. `USDC`) it is
+ *     in the underlying asset. The borrow and repay amounts are always in the
+ *     underlying asset. A repay amount above the borrow balance repays the
+ *     whole borrow.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     call. Use the `mantissa` boolean to indicate the amounts are scaled up.
+ *
+ * @returns {AccountLiquidity} Returns the hypothetical liquidity, shortfall,
+ *     collateral value, borrow value and health factor.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const after = await rifi.simulateAccountLiquidity(myAddress, {
+ *     rToken: Rifi.USDC,
+ *     borrow: 100,
+ *   });
+ *
+ *   if (after.human.healthFactor < 1.1) {
+ *     console.log('Borrowing 100 USDC would put this account at risk');
+ *   }
+ * })().catch(console.error);
+ * ```
+ */
+export async function simulateAccountLiquidity(
+  account: string,
+  action: HypotheticalAction,
+  options: CallOptions = {}
+): Promise<AccountLiquidity> {
+  await netId(this);
+  const errorPrefix = 'Rifi [simulateAccountLiquidity] | ';
+
+  if (!ethers.utils.isAddress(account)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `account` must be a valid Ethereum address.');
+  }
+
+  if (!action || typeof action.rToken !== 'string' || action.rToken === '') {
+    throw new RifiValidationError(errorPrefix + 'Argument `action.rToken` must be a non-empty string.');
+  }
+
+  const assetIsRToken = action.rToken[0] === 'r';
+  const rTokenName = assetIsRToken ? action.rToken : 'r' + action.rToken;
+  const underlyingName = rTokenName.slice(1);
+
+  if (!rTokens[this._network.name].includes(rTokenName)) {
+    throw new RifiValidationError(errorPrefix + 'Provided market `' + rTokenName + '` is not a recognized rToken.');
+  }
+
+  const networkDecimals = decimalNetwork[this._network.name] || decimals;
+  const rTokenDecimals = networkDecimals[rTokenName] || 8;
+  const underlyingDecimals = decimalsOf(this._network.name, underlyingName);
+
+  const actionMantissa = (amount, _decimals: number): BigNumber => {
+    if (amount === undefined || amount === null) {
+      return BigNumber.from(0);
+    }
+
+    if (!Amount.isAmountLike(amount)) {
+      throw new RifiValidationError(errorPrefix + 'Amounts must be a string, number, or BigNumber.');
+    }
+
+    return toMantissa(amount, _decimals, options.mantissa);
+  };
+
+  const rTokenAddress = address[this._network.name][rTokenName];
+  const borrowAmount = actionMantissa(action.borrow, underlyingDecimals);
+  let repayAmount = actionMantissa(action.repay, underlyingDecimals);
+  let redeemTokens = actionMantissa(action.redeem, assetIsRToken ? rTokenDecimals : underlyingDecimals);
+
+  const rTokenOptions: CallOptions = {
+    ...callOptions(this, options),
+    abi: isNativeCoin(rTokenName, this) ? abi.rBinance : abi.rBep20,
+  };
+
+  // The protocol repays at most the borrow balance
+  if (!repayAmount.isZero()) {
+    const borrowBalance: BigNumber = await eth.read(
+      rTokenAddress,
+      'borrowBalanceStored',
+      [ account ],
+      rTokenOptions
+    );
+    repayAmount = repayAmount.gt(borrowBalance) ? borrowBalance : repayAmount;
+  }
+
+  if (!assetIsRToken && !redeemTokens.isZero()) {
+    const exchangeRate: BigNumber = await eth.read(
+      rTokenAddress,
+      'exchangeRateCurrent',
+      [],
+      rTokenOptions
+    );
+    redeemTokens = new Amount(redeemTokens, underlyingDecimals)
+      .toRToken(exchangeRate, rTokenDecimals).mantissa;
+  }
+
+  const cointrollerAddress = address[this._network.name].Cointroller;
+  const trxOptions: CallOptions = {
+    ...callOptions(this, options),
+    abi: abi.Cointroller,
+  };
+  const parameters = [ account, rTokenAddress, redeemTokens, borrowAmount ];
+
+  const [ [ error, liquidity, shortfall ], [ borrowValue, price ] ] = await Promise.all([
+    eth.read(cointrollerAddress, 'getHypotheticalAccountLiquidity', parameters, trxOptions),
+    getBorrowValue.apply(this, [account, { rTokenAddress, amount: borrowAmount.sub(repayAmount) }, options]),
+  ]);
+
+  if (!error.isZero()) {
+    const failure = decodeFailure(cointrollerAddress, this._network.name, error.toNumber());
+    throw new RifiProtocolFailure(
+      errorPrefix + 'Cointroller error ' + (failure.error || failure.code) + '.',
+      { method: 'getHypotheticalAccountLiquidity', failure }
+    );
+  }
+
+  // The Cointroller takes no repayment, which raises the liquidity by its value
+  const net = liquidity.sub(shortfall).add(repayAmount.mul(price).div(EXP_SCALE));
+  const zero = BigNumber.from(0);
+
+  return formatLiquidity(net.gt(0) ? net : zero, net.lt(0) ? net.mul(-1) : zero, borrowValue, usdDecimals(this));
+}
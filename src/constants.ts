@@ -6,6 +6,7 @@ export const constants = {
   'GovernorAlpha': 'GovernorAlpha',
   'Cointroller': 'Cointroller',
   'Reservoir': 'Reservoir',
+  'Multicall': 'Multicall',
   'BNB': 'BNB',
   'rBNB': 'rBNB',
   'BUSD': 'BUSD',
@@ -53,6 +54,7 @@ export const names = {
 
 export const address = {
   "mainnet": {
+    "Multicall": "0xcA11bde05977b3631167028862bE2a173976CA11",
     "Cointroller": "0x98635bDB3A85a1BaDb6776A048c799C4B3110024",
     "CointrollerImpl": "0x2b3504C22Ad9BD5BacE93f3e104d7C314A8Ea48D",
     "PriceFeed": "0x447fbD579335F3b8F983ef7fE137c376EdB144FA",
@@ -70,6 +72,7 @@ export const address = {
   },
 
   "bsc_mainnet": {
+    "Multicall": "0xcA11bde05977b3631167028862bE2a173976CA11",
     "Maximillion": "0x7Bf7f45F2a5BcC352cefD78715A3a9Bf617a3c35",
     "RIFI": "0xe17fbdf671f3cce0f354cacbd27e03f4245a3ffe",
     "RIFIChainBridge": "0xd2B9d016fcE1179A4d85Da1a48dD85e796611d34",
@@ -105,6 +108,7 @@ export const address = {
     "VaultBusdVenus": "0xB7eDD8067E548B9b8E0DD75b0f5D678635F75A93",
   },
   "astar_mainnet": {
+    "Multicall": "0xcA11bde05977b3631167028862bE2a173976CA11",
     "RIFI": "0xF578801D64A236785707C948d50e4d095aadc695",
     "DIA": "0xd79357ebb0cd724e391f2b49a8De0E31688fEc75",
     "Cointroller": "0xd6BeDd3C2BF260AE8dF9629B9Ef6A718856267d0",
@@ -123,6 +127,7 @@ export const address = {
   },
 
   "bsc_testnet": {
+    "Multicall": "0xcA11bde05977b3631167028862bE2a173976CA11",
     "RIFI": "0x3816b86AbED8B7F69d8AB4b7a9B5eB866c0b0F18",
     "RIFIChainBridge": "0x25069109104f2B4D4C47D71a7852aED7B15E8326",
     "Cointroller": "0x97684D0DbF7B9B27B03324822ff7A5CFE7AEB732",
@@ -155,6 +160,7 @@ export const address = {
   },
 
   "rinkeby": {
+    "Multicall": "0xcA11bde05977b3631167028862bE2a173976CA11",
     "Maximillion": "0x4d272fAdc0BbfF47D23B24684A7EF950930bC170",
     "RIFI": "0xa96786DC3Fd5261FcaDB6ac6FfD21252CAA9053F",
     "RIFIChainBridge": "0x7ee42014D106552Ce1e2b6Ea9b24795De937929B",
@@ -169,6 +175,7 @@ export const address = {
   },
 
   "ropsten": {
+    "Multicall": "0xcA11bde05977b3631167028862bE2a173976CA11",
     "RIFI": "0x274C7fE18FEdbcA811B4d2dd2A237f46115EEA8a",
 
     "COMP": "0xf76D4a441E4ba86A923ce32B89AFF89dBccAA075",
@@ -180,6 +187,7 @@ export const address = {
   },
 
   "kovan": {
+    "Multicall": "0xcA11bde05977b3631167028862bE2a173976CA11",
     "RIFI": "0x0CE49958c7202e1274a89db25AD7011d107b94bf",
 
     "AAVE": "0xB597cd8D3217ea6477232F9217fa70837ff667Af",
@@ -188,6 +196,7 @@ export const address = {
     "VaultDaiAave": "0x9653811B43D30b894310bD9656D24363473a7825",
   },
   "shibuya": {
+    "Multicall": "0xcA11bde05977b3631167028862bE2a173976CA11",
     "RIFI": "0xd7613D6E55abDf67B4eE670A56c76bF9bE9750bE",
     "DIA": "0x1232AcD632Dd75f874E357c77295Da3f5Cd7733E",
     "Cointroller": "0xFA1d02B50A52a8317198C957F7A047707a19992c",
@@ -204,6 +213,7 @@ export const address = {
     "timelock": "0xa2B829e2616EB6C376c6B5399398f568d36DAC3A"
   },
   "goerli" : {
+    "Multicall": "0xcA11bde05977b3631167028862bE2a173976CA11",
     "RIFI": "0x7B6b30EF81CD55418C39D061986ffdEE723Bf976",
     "Cointroller": "0x2349F1941cEFCebEbb2f42a5E1Dc47B9395CB1Da",
     "CointrollerImpl": "0xa2c60E6D45c9C8184FF73cbB99B767CD93a9B1f6",
@@ -220,6 +230,7 @@ export const address = {
     "rBTC": "0x57B2de4a347B97689ADf78A6aD4Fe237e832d3FD"
   },
   "mumbai": {
+    "Multicall": "0xcA11bde05977b3631167028862bE2a173976CA11",
     "RIFI": "0x57652320b35BE7a8eBce05bb6EDE94d8d1863AeF",
     "Cointroller": "0xBd5816Db1c7E191f1d990a7ab39412017C2e20d2",
     "CointrollerImpl": "0x9540B8Fa611B41418e3D87315Bae0f111c66B9fb",
@@ -238,6 +249,7 @@ export const address = {
     "rETH": "0xFe1Db89D26E08Bd185d1Ed8036baFFC9a2473dBa"
   },
   "polygon": {
+    "Multicall": "0xcA11bde05977b3631167028862bE2a173976CA11",
     "RIFI": "", // Chưa có nên để 0x000...
     "Cointroller": "0x98635bDB3A85a1BaDb6776A048c799C4B3110024",
     "CointrollerImpl": "0x2b3504C22Ad9BD5BacE93f3e104d7C314A8Ea48D",
@@ -287,6 +299,9 @@ export const abi = {
     "function getEarning(address account) returns (tuple(address token, uint amount)[] earning)",
     "function claimReward()",
   ],
+  Multicall: [
+    "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)",
+  ],
   RewardLocker: [
     "function getVestingSchedules(address account, address token) view returns (tuple(uint64 startBlock, uint64 endBlock, uint128 quantity, uint128 vestedQuantity)[] memory schedules)",
     "function numVestingSchedules(address account, address token) view returns (uint256)",
@@ -308,6 +323,21 @@ export const rTokens = {
   "polygon": ['rUSDC', 'rETH', 'rMATIC'],
 };
 
+// Blocks mined per year, for turning per block rates into APYs
+export const blocksPerYear = {
+  "bsc_mainnet": 10512000, // 3 seconds
+  "bsc_testnet": 10512000,
+  "mainnet": 2628000, // 12 seconds
+  "rinkeby": 2628000,
+  "ropsten": 2628000,
+  "kovan": 2628000,
+  "goerli": 2628000,
+  "astar_mainnet": 2628000, // 12 seconds
+  "shibuya": 2628000,
+  "polygon": 15768000, // 2 seconds
+  "mumbai": 15768000,
+};
+
 export const underlyings = ['BUSD', 'USDC', 'USDT', 'DAI', 'BNB', 'BTC', 'ASTR', 'ETH', 'MATIC'];
 
 // additional assets supported by the open price feed
@@ -480,6 +510,110 @@ export const errorCodes = {
       '17': { 'error': 'SUPPORT_MARKET_EXISTS', 'description': '', 'hint': '', },
       '18': { 'error': 'SUPPORT_MARKET_OWNER_CHECK', 'description': '', 'hint': '', },
     }
+  },
+  'rToken': {
+    'codes': {
+      '0': { 'error': 'NO_ERROR', 'description': 'Not a failure.', 'hint': '', },
+      '1': { 'error': 'UNAUTHORIZED', 'description': 'The sender is not authorized to perform this action.', 'hint': '', },
+      '2': { 'error': 'BAD_INPUT', 'description': 'An invalid argument was supplied by the caller.', 'hint': '', },
+      '3': { 'error': 'COINTROLLER_REJECTION', 'description': 'The action would violate the cointroller policy.', 'hint': 'The failure detail is the Cointroller error code.', },
+      '4': { 'error': 'COINTROLLER_CALCULATION_ERROR', 'description': 'An internal calculation has failed in the cointroller.', 'hint': '', },
+      '5': { 'error': 'INTEREST_RATE_MODEL_ERROR', 'description': 'The interest rate model returned an invalid value.', 'hint': '', },
+      '6': { 'error': 'INVALID_ACCOUNT_PAIR', 'description': 'The specified combination of accounts is invalid.', 'hint': '', },
+      '7': { 'error': 'INVALID_CLOSE_AMOUNT_REQUESTED', 'description': 'The amount to liquidate is invalid.', 'hint': '', },
+      '8': { 'error': 'INVALID_COLLATERAL_FACTOR', 'description': 'The collateral factor is invalid.', 'hint': '', },
+      '9': { 'error': 'MATH_ERROR', 'description': 'A math calculation error occurred.', 'hint': '', },
+      '10': { 'error': 'MARKET_NOT_FRESH', 'description': 'Interest has not been properly accrued.', 'hint': '', },
+      '11': { 'error': 'MARKET_NOT_LISTED', 'description': 'The market is not currently listed by its cointroller.', 'hint': '', },
+      '12': { 'error': 'TOKEN_INSUFFICIENT_ALLOWANCE', 'description': 'The underlying token allowance of the market is less than the requested supply, repay or liquidation amount.', 'hint': 'Approve the rToken to spend the underlying asset.', },
+      '13': { 'error': 'TOKEN_INSUFFICIENT_BALANCE', 'description': 'The caller does not have sufficient balance of the underlying token to complete the action.', 'hint': '', },
+      '14': { 'error': 'TOKEN_INSUFFICIENT_CASH', 'description': 'The market does not have a sufficient cash balance to complete the transaction.', 'hint': 'Try again later, or with a smaller amount.', },
+      '15': { 'error': 'TOKEN_TRANSFER_IN_FAILED', 'description': 'The underlying token transfer into the market failed.', 'hint': '', },
+      '16': { 'error': 'TOKEN_TRANSFER_OUT_FAILED', 'description': 'The underlying token transfer out of the market failed.', 'hint': '', },
+    },
+    'info': {
+      '0': { 'error': 'ACCEPT_ADMIN_PENDING_ADMIN_CHECK', 'description': '', 'hint': '', },
+      '1': { 'error': 'ACCRUE_INTEREST_ACCUMULATED_INTEREST_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '2': { 'error': 'ACCRUE_INTEREST_BORROW_RATE_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '3': { 'error': 'ACCRUE_INTEREST_NEW_BORROW_INDEX_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '4': { 'error': 'ACCRUE_INTEREST_NEW_TOTAL_BORROWS_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '5': { 'error': 'ACCRUE_INTEREST_NEW_TOTAL_RESERVES_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '6': { 'error': 'ACCRUE_INTEREST_SIMPLE_INTEREST_FACTOR_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '7': { 'error': 'BORROW_ACCUMULATED_BALANCE_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '8': { 'error': 'BORROW_ACCRUE_INTEREST_FAILED', 'description': '', 'hint': '', },
+      '9': { 'error': 'BORROW_CASH_NOT_AVAILABLE', 'description': '', 'hint': '', },
+      '10': { 'error': 'BORROW_FRESHNESS_CHECK', 'description': '', 'hint': '', },
+      '11': { 'error': 'BORROW_NEW_TOTAL_BALANCE_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '12': { 'error': 'BORROW_NEW_ACCOUNT_BORROW_BALANCE_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '13': { 'error': 'BORROW_MARKET_NOT_LISTED', 'description': '', 'hint': '', },
+      '14': { 'error': 'BORROW_COINTROLLER_REJECTION', 'description': '', 'hint': '', },
+      '15': { 'error': 'LIQUIDATE_ACCRUE_BORROW_INTEREST_FAILED', 'description': '', 'hint': '', },
+      '16': { 'error': 'LIQUIDATE_ACCRUE_COLLATERAL_INTEREST_FAILED', 'description': '', 'hint': '', },
+      '17': { 'error': 'LIQUIDATE_COLLATERAL_FRESHNESS_CHECK', 'description': '', 'hint': '', },
+      '18': { 'error': 'LIQUIDATE_COINTROLLER_REJECTION', 'description': '', 'hint': '', },
+      '19': { 'error': 'LIQUIDATE_COINTROLLER_CALCULATE_AMOUNT_SEIZE_FAILED', 'description': '', 'hint': '', },
+      '20': { 'error': 'LIQUIDATE_CLOSE_AMOUNT_IS_UINT_MAX', 'description': '', 'hint': '', },
+      '21': { 'error': 'LIQUIDATE_CLOSE_AMOUNT_IS_ZERO', 'description': '', 'hint': '', },
+      '22': { 'error': 'LIQUIDATE_FRESHNESS_CHECK', 'description': '', 'hint': '', },
+      '23': { 'error': 'LIQUIDATE_LIQUIDATOR_IS_BORROWER', 'description': '', 'hint': '', },
+      '24': { 'error': 'LIQUIDATE_REPAY_BORROW_FRESH_FAILED', 'description': '', 'hint': '', },
+      '25': { 'error': 'LIQUIDATE_SEIZE_BALANCE_INCREMENT_FAILED', 'description': '', 'hint': '', },
+      '26': { 'error': 'LIQUIDATE_SEIZE_BALANCE_DECREMENT_FAILED', 'description': '', 'hint': '', },
+      '27': { 'error': 'LIQUIDATE_SEIZE_COINTROLLER_REJECTION', 'description': '', 'hint': '', },
+      '28': { 'error': 'LIQUIDATE_SEIZE_LIQUIDATOR_IS_BORROWER', 'description': '', 'hint': '', },
+      '29': { 'error': 'LIQUIDATE_SEIZE_TOO_MUCH', 'description': '', 'hint': '', },
+      '30': { 'error': 'MINT_ACCRUE_INTEREST_FAILED', 'description': '', 'hint': '', },
+      '31': { 'error': 'MINT_COINTROLLER_REJECTION', 'description': '', 'hint': '', },
+      '32': { 'error': 'MINT_EXCHANGE_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '33': { 'error': 'MINT_EXCHANGE_RATE_READ_FAILED', 'description': '', 'hint': '', },
+      '34': { 'error': 'MINT_FRESHNESS_CHECK', 'description': '', 'hint': '', },
+      '35': { 'error': 'MINT_NEW_ACCOUNT_BALANCE_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '36': { 'error': 'MINT_NEW_TOTAL_SUPPLY_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '37': { 'error': 'MINT_TRANSFER_IN_FAILED', 'description': '', 'hint': '', },
+      '38': { 'error': 'MINT_TRANSFER_IN_NOT_POSSIBLE', 'description': '', 'hint': '', },
+      '39': { 'error': 'REDEEM_ACCRUE_INTEREST_FAILED', 'description': '', 'hint': '', },
+      '40': { 'error': 'REDEEM_COINTROLLER_REJECTION', 'description': '', 'hint': '', },
+      '41': { 'error': 'REDEEM_EXCHANGE_TOKENS_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '42': { 'error': 'REDEEM_EXCHANGE_AMOUNT_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '43': { 'error': 'REDEEM_EXCHANGE_RATE_READ_FAILED', 'description': '', 'hint': '', },
+      '44': { 'error': 'REDEEM_FRESHNESS_CHECK', 'description': '', 'hint': '', },
+      '45': { 'error': 'REDEEM_NEW_ACCOUNT_BALANCE_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '46': { 'error': 'REDEEM_NEW_TOTAL_SUPPLY_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '47': { 'error': 'REDEEM_TRANSFER_OUT_NOT_POSSIBLE', 'description': '', 'hint': '', },
+      '48': { 'error': 'REDUCE_RESERVES_ACCRUE_INTEREST_FAILED', 'description': '', 'hint': '', },
+      '49': { 'error': 'REDUCE_RESERVES_ADMIN_CHECK', 'description': '', 'hint': '', },
+      '50': { 'error': 'REDUCE_RESERVES_CASH_NOT_AVAILABLE', 'description': '', 'hint': '', },
+      '51': { 'error': 'REDUCE_RESERVES_FRESH_CHECK', 'description': '', 'hint': '', },
+      '52': { 'error': 'REDUCE_RESERVES_VALIDATION', 'description': '', 'hint': '', },
+      '53': { 'error': 'REPAY_BEHALF_ACCRUE_INTEREST_FAILED', 'description': '', 'hint': '', },
+      '54': { 'error': 'REPAY_BORROW_ACCRUE_INTEREST_FAILED', 'description': '', 'hint': '', },
+      '55': { 'error': 'REPAY_BORROW_ACCUMULATED_BALANCE_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '56': { 'error': 'REPAY_BORROW_COINTROLLER_REJECTION', 'description': '', 'hint': '', },
+      '57': { 'error': 'REPAY_BORROW_FRESHNESS_CHECK', 'description': '', 'hint': '', },
+      '58': { 'error': 'REPAY_BORROW_NEW_ACCOUNT_BORROW_BALANCE_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '59': { 'error': 'REPAY_BORROW_NEW_TOTAL_BALANCE_CALCULATION_FAILED', 'description': '', 'hint': '', },
+      '60': { 'error': 'REPAY_BORROW_TRANSFER_IN_NOT_POSSIBLE', 'description': '', 'hint': '', },
+      '61': { 'error': 'SET_COLLATERAL_FACTOR_OWNER_CHECK', 'description': '', 'hint': '', },
+      '62': { 'error': 'SET_COLLATERAL_FACTOR_VALIDATION', 'description': '', 'hint': '', },
+      '63': { 'error': 'SET_COINTROLLER_OWNER_CHECK', 'description': '', 'hint': '', },
+      '64': { 'error': 'SET_INTEREST_RATE_MODEL_ACCRUE_INTEREST_FAILED', 'description': '', 'hint': '', },
+      '65': { 'error': 'SET_INTEREST_RATE_MODEL_FRESH_CHECK', 'description': '', 'hint': '', },
+      '66': { 'error': 'SET_INTEREST_RATE_MODEL_OWNER_CHECK', 'description': '', 'hint': '', },
+      '67': { 'error': 'SET_MAX_ASSETS_OWNER_CHECK', 'description': '', 'hint': '', },
+      '68': { 'error': 'SET_ORIGINATION_FEE_OWNER_CHECK', 'description': '', 'hint': '', },
+      '69': { 'error': 'SET_PENDING_ADMIN_OWNER_CHECK', 'description': '', 'hint': '', },
+      '70': { 'error': 'SET_RESERVE_FACTOR_ACCRUE_INTEREST_FAILED', 'description': '', 'hint': '', },
+      '71': { 'error': 'SET_RESERVE_FACTOR_ADMIN_CHECK', 'description': '', 'hint': '', },
+      '72': { 'error': 'SET_RESERVE_FACTOR_FRESH_CHECK', 'description': '', 'hint': '', },
+      '73': { 'error': 'SET_RESERVE_FACTOR_BOUNDS_CHECK', 'description': '', 'hint': '', },
+      '74': { 'error': 'TRANSFER_COINTROLLER_REJECTION', 'description': '', 'hint': '', },
+      '75': { 'error': 'TRANSFER_NOT_ALLOWED', 'description': '', 'hint': '', },
+      '76': { 'error': 'TRANSFER_NOT_ENOUGH', 'description': '', 'hint': '', },
+      '77': { 'error': 'TRANSFER_TOO_MUCH', 'description': '', 'hint': '', },
+      '78': { 'error': 'ADD_RESERVES_ACCRUE_INTEREST_FAILED', 'description': '', 'hint': '', },
+      '79': { 'error': 'ADD_RESERVES_FRESH_CHECK', 'description': '', 'hint': '', },
+      '80': { 'error': 'ADD_RESERVES_TRANSFER_IN_NOT_POSSIBLE', 'description': '', 'hint': '', },
+    }
   }
 };
 
@@ -0,0 +1,223 @@
+/**
+ * @file Deployment
+ * @desc These methods check that the addresses and decimals configured for a
+ *     network match the contracts deployed on it.
+ */
+
+import * as eth from './eth';
+import { RifiValidationError } from './errors';
+import {
+  address,
+  abi,
+  rTokens,
+  decimals,
+  decimalNetwork,
+} from './constants';
+import { isNativeCoin } from './util';
+import {
+  Provider,
+  CallOptions,
+  DeploymentCheck,
+  DeploymentReport,
+} from './types';
+
+// Underlying tokens are only read for their decimals
+const underlyingAbi = [ 'function decimals() view returns (uint8)' ];
+
+function sameAddress(a: string, b: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+function configuredDecimals(network: string, token: string): number | undefined {
+  const networkDecimals = decimalNetwork[network] || {};
+  return networkDecimals[token] !== undefined ? networkDecimals[token] : decimals[token];
+}
+
+/**
+ * Checks the configuration of a network against its deployed contracts and
+ *     reports every mismatch. It checks that every configured address has
+ *     bytecode, that the `underlying()`, `decimals()` and `cointroller()` of
+ *     each market, and the decimals of its underlying, match the
+ *     configuration, that each market is listed in the Cointroller and that
+ *     the Cointroller's oracle returns a non-zero price for it. The oracle is
+ *     also checked against the configured PriceFeed.
+ *
+ * @param {string} network The network name, like `bsc_mainnet`.
+ * @param {Provider | string} [_provider] An Ethers.js provider or valid
+ *     network name string, connected to the network.
+ *
+ * @returns {DeploymentReport} Returns the report, `ok` is true when every
+ *     check passed.
+ *
+ * @example
+ * ```
+ * (async function () {
+ *   const report = await Rifi.verifyDeployment('mainnet', process.env.RPC_URL);
+ *
+ *   report.checks
+ *     .filter(check => !check.ok)
+ *     .forEach(check => console.error(check.target, check.check, check.message));
+ *
+ *   process.exit(report.ok ? 0 : 1);
+ * })().catch(console.error);
+ * ```
+ */
+export async function verifyDeployment(
+  network: string,
+  _provider: Provider | string = 'mainnet'
+): Promise<DeploymentReport> {
+  const errorPrefix = 'Rifi [verifyDeployment] | ';
+
+  if (typeof network !== 'string' || !address[network]) {
+    throw new RifiValidationError(errorPrefix + 'Argument `network` must be a configured network name.');
+  }
+
+  const provider = await eth._createProvider({ provider: _provider });
+  const net = await eth.getProviderNetwork(provider);
+
+  if (net.name !== network) {
+    throw new RifiValidationError(
+      errorPrefix + 'The provider is connected to ' + net.name + ', not ' + network + '.'
+    );
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const baseProvider: any = provider._isSigner ? provider.provider : provider;
+  const addresses = address[network];
+  const checks: DeploymentCheck[] = [];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const read = (target: string, method: string, parameters: any[], contractAbi): Promise<any> => {
+    const trxOptions: CallOptions = { _rifiProvider: provider, abi: contractAbi };
+    return eth.read(target, method, parameters, trxOptions);
+  };
+
+  const check = async (
+    target: string,
+    name: DeploymentCheck['check'],
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expected: any,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    getActual: () => Promise<any>,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    matches: (actual: any) => boolean
+  ): Promise<void> => {
+    try {
+      const actual = await getActual();
+      const ok = matches(actual);
+      checks.push({
+        target,
+        check: name,
+        ok,
+        expected,
+        actual: actual !== undefined && actual !== null ? actual.toString() : actual,
+        message: ok ? undefined : `Expected ${expected}, got ${actual}.`,
+      });
+    } catch (e) {
+      checks.push({
+        target,
+        check: name,
+        ok: false,
+        expected,
+        actual: undefined,
+        message: 'Call failed: ' + ((e.error && e.error.message) || e.message || e),
+      });
+    }
+  };
+
+  const contracts = Object.keys(addresses).filter(
+    (contract) => typeof addresses[contract] === 'string'
+  );
+
+  for (const contract of contracts) {
+    const contractAddress = addresses[contract];
+
+    if (!contractAddress) {
+      checks.push({
+        target: contract,
+        check: 'bytecode',
+        ok: false,
+        expected: 'contract',
+        actual: '',
+        message: 'No address is configured.',
+      });
+      continue;
+    }
+
+    await check(
+      contract, 'bytecode', 'contract',
+      () => baseProvider.getCode(contractAddress),
+      (code) => !!code && code !== '0x'
+    );
+  }
+
+  // Markets are priced by the Cointroller's oracle, not the configured PriceFeed
+  const oracle: Promise<string> = read(addresses.Cointroller, 'oracle', [], abi.Cointroller);
+
+  await check(
+    'Cointroller', 'oracle', addresses.PriceFeed,
+    () => oracle,
+    (actual) => sameAddress(actual, addresses.PriceFeed)
+  );
+
+  for (const rTokenName of rTokens[network] || []) {
+    const rTokenAddress = addresses[rTokenName];
+    const underlyingName = rTokenName.slice(1);
+    const isNative = isNativeCoin(rTokenName, { _network: { name: network } });
+    const rTokenAbi = isNative ? abi.rBinance : abi.rBep20;
+
+    if (!rTokenAddress) {
+      continue;
+    }
+
+    if (!isNative) {
+      const underlyingAddress = addresses[underlyingName];
+
+      await check(
+        rTokenName, 'underlying', underlyingAddress,
+        () => read(rTokenAddress, 'underlying', [], rTokenAbi),
+        (actual) => sameAddress(actual, underlyingAddress)
+      );
+
+      if (underlyingAddress) {
+        const expectedDecimals = configuredDecimals(network, underlyingName);
+        await check(
+          underlyingName, 'decimals', expectedDecimals,
+          () => read(underlyingAddress, 'decimals', [], underlyingAbi),
+          (actual) => +actual === expectedDecimals
+        );
+      }
+    }
+
+    const expectedDecimals = configuredDecimals(network, rTokenName);
+    await check(
+      rTokenName, 'decimals', expectedDecimals,
+      () => read(rTokenAddress, 'decimals', [], rTokenAbi),
+      (actual) => +actual === expectedDecimals
+    );
+
+    await check(
+      rTokenName, 'cointroller', addresses.Cointroller,
+      () => read(rTokenAddress, 'cointroller', [], rTokenAbi),
+      (actual) => sameAddress(actual, addresses.Cointroller)
+    );
+
+    await check(
+      rTokenName, 'isListed', true,
+      async () => (await read(addresses.Cointroller, 'markets', [ rTokenAddress ], abi.Cointroller))[0],
+      (actual) => actual === true
+    );
+
+    await check(
+      rTokenName, 'price', '> 0',
+      async () => read(await oracle, 'getUnderlyingPrice', [ rTokenAddress ], abi.PriceFeed),
+      (actual) => !!actual && !actual.isZero()
+    );
+  }
+
+  return {
+    network,
+    ok: checks.every((c) => c.ok),
+    checks,
+  };
+}
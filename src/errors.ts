@@ -0,0 +1,305 @@
+/**
+ * @file Errors
+ * @desc These classes and methods turn failed calls and transactions into
+ *     typed errors, decoding revert strings, Compound-style error codes and
+ *     `Failure` events with the tables in `constants.errorCodes`.
+ */
+
+import { ethers } from 'ethers';
+import { address, rTokens, errorCodes } from './constants';
+import { ProtocolFailure } from './types';
+
+const failureEvent = new ethers.utils.Interface([
+  'event Failure(uint error, uint info, uint detail)',
+]);
+
+const NETWORK_ERROR_CODES: string[] = [
+  ethers.utils.Logger.errors.NETWORK_ERROR,
+  ethers.utils.Logger.errors.SERVER_ERROR,
+  ethers.utils.Logger.errors.TIMEOUT,
+];
+
+const REVERT_ERROR_CODES: string[] = [
+  ethers.utils.Logger.errors.CALL_EXCEPTION,
+  ethers.utils.Logger.errors.UNPREDICTABLE_GAS_LIMIT,
+];
+
+// The members of an Ethers.js error that are read when wrapping it
+interface EthersError extends Error {
+  code?: string;
+  reason?: string;
+  data?: string;
+  error?: EthersError;
+}
+
+interface RifiErrorFields {
+  error?: Error;
+  method?: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parameters?: any[];
+}
+
+/**
+ * The base class of every error raised by Rifi.js. It keeps the `error`,
+ *     `method` and `parameters` members of the former `TrxError` objects.
+ */
+export class RifiError extends Error {
+  error?: Error;
+  method?: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parameters?: any[];
+
+  constructor(message: string, fields: RifiErrorFields = {}) {
+    super(message);
+    // Keeps `instanceof` working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'RifiError';
+    this.error = fields.error;
+    this.method = fields.method;
+    this.parameters = fields.parameters;
+  }
+}
+
+/**
+ * An argument passed to a Rifi.js method is invalid. Nothing was sent to the
+ *     network.
+ */
+export class RifiValidationError extends RifiError {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'RifiValidationError';
+  }
+}
+
+/**
+ * The JSON RPC provider could not be reached or answered with a server
+ *     error. The same call may succeed if retried.
+ */
+export class RifiNetworkError extends RifiError {
+  constructor(message: string, fields: RifiErrorFields = {}) {
+    super(message, fields);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'RifiNetworkError';
+  }
+}
+
+/**
+ * A call or transaction reverted. `reason` is the decoded revert string, if
+ *     the contract gave one.
+ */
+export class RifiRevertError extends RifiError {
+  reason?: string;
+  data?: string;
+
+  constructor(
+    message: string,
+    fields: RifiErrorFields & { reason?: string, data?: string } = {}
+  ) {
+    super(message, fields);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'RifiRevertError';
+    this.reason = fields.reason;
+    this.data = fields.data;
+  }
+}
+
+/**
+ * The Cointroller or a market did not revert but returned a non-zero error
+ *     code. `failure` decodes the returned code and `failures` the `Failure`
+ *     events that were emitted, when they are known.
+ */
+export class RifiProtocolFailure extends RifiError {
+  failure: ProtocolFailure;
+  failures: ProtocolFailure[];
+
+  constructor(
+    message: string,
+    fields: RifiErrorFields & { failure: ProtocolFailure, failures?: ProtocolFailure[] }
+  ) {
+    super(message, fields);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'RifiProtocolFailure';
+    this.failure = fields.failure;
+    this.failures = fields.failures || [];
+  }
+}
+
+/**
+ * Names the `constants.errorCodes` table of a protocol contract, `cointroller`
+ *     for the Cointroller and `rToken` for markets.
+ *
+ * @hidden
+ */
+export function getErrorTableName(contractAddress: string, netName: string): string {
+  const addresses = address[netName] || {};
+  const target = contractAddress.toLowerCase();
+
+  if ((addresses.Cointroller || '').toLowerCase() === target) {
+    return 'cointroller';
+  }
+
+  const isRToken = (rTokens[netName] || []).some(
+    (rTokenName: string) => (addresses[rTokenName] || '').toLowerCase() === target
+  );
+
+  return isRToken ? 'rToken' : undefined;
+}
+
+/**
+ * Decodes a Compound-style error code, and optionally its failure info and
+ *     detail, with the error table of the contract that returned it. When a
+ *     market reports a Cointroller rejection, the detail is the Cointroller
+ *     error code and is decoded as well.
+ *
+ * @param {string} contractAddress The Cointroller or rToken that failed.
+ * @param {string} netName The network name, like `bsc_mainnet`.
+ * @param {number} code The error code.
+ * @param {number} [info] The failure info of a `Failure` event.
+ * @param {number} [detail] The failure detail of a `Failure` event.
+ *
+ * @returns {ProtocolFailure} Returns the decoded failure.
+ */
+export function decodeFailure(
+  contractAddress: string,
+  netName: string,
+  code: number,
+  info?: number,
+  detail?: number
+): ProtocolFailure {
+  const table = errorCodes[getErrorTableName(contractAddress, netName)];
+  const codeEntry = table && table.codes[code.toString()];
+  const infoEntry = table && info !== undefined && table.info[info.toString()];
+
+  const failure: ProtocolFailure = {
+    code,
+    error: codeEntry ? codeEntry.error : undefined,
+    description: codeEntry ? codeEntry.description : undefined,
+    hint: codeEntry && codeEntry.hint ? codeEntry.hint : undefined,
+  };
+
+  if (info !== undefined) {
+    failure.info = info;
+    failure.infoName = infoEntry ? infoEntry.error : undefined;
+  }
+
+  if (detail !== undefined) {
+    failure.detail = detail;
+
+    if (failure.error === 'COINTROLLER_REJECTION') {
+      const detailEntry = errorCodes.cointroller.codes[detail.toString()];
+      failure.detailName = detailEntry ? detailEntry.error : undefined;
+      failure.detailDescription = detailEntry ? detailEntry.description : undefined;
+    }
+  }
+
+  return failure;
+}
+
+/**
+ * Decodes the `Failure(error, info, detail)` events in a list of logs, like
+ *     the logs of a transaction receipt.
+ *
+ * @param {object[]} logs Logs with `address`, `topics` and `data`.
+ * @param {string} netName The network name, like `bsc_mainnet`.
+ *
+ * @returns {ProtocolFailure[]} Returns the decoded failures in log order.
+ */
+export function decodeFailureLogs(
+  logs: { address: string, topics: string[], data: string }[],
+  netName: string
+): ProtocolFailure[] {
+  const topic = failureEvent.getEventTopic('Failure');
+
+  return logs
+    .filter((log) => log.topics && log.topics[0] === topic)
+    .map((log) => {
+      const { args: [ error, info, detail ] } = failureEvent.parseLog(log);
+      return decodeFailure(
+        log.address, netName, error.toNumber(), info.toNumber(), detail.toNumber()
+      );
+    });
+}
+
+/**
+ * Describes a failure by its most specific name, the Cointroller reason of
+ *     a rejection if there is one.
+ *
+ * @hidden
+ */
+export function describeFailure(failure: ProtocolFailure): string {
+  const name = failure.detailName || failure.error || 'error code ' + failure.code;
+  const description = failure.detailDescription || failure.description;
+
+  return description ? `${name}: ${description}` : name;
+}
+
+/**
+ * Finds the revert string of an Ethers.js error, which can be nested in the
+ *     errors of the provider.
+ *
+ * @hidden
+ */
+export function getRevertReason(error: EthersError): { reason?: string, data?: string } {
+  let current = error;
+
+  while (current) {
+    if (current.reason && current.reason !== 'execution reverted') {
+      return { reason: current.reason, data: current.data };
+    }
+
+    // Error(string) selector
+    if (typeof current.data === 'string' && current.data.indexOf('0x08c379a0') === 0) {
+      try {
+        const [ reason ] = ethers.utils.defaultAbiCoder.decode(
+          [ 'string' ],
+          '0x' + current.data.slice(10)
+        );
+        return { reason, data: current.data };
+      } catch (e) { }
+    }
+
+    current = current.error;
+  }
+
+  return {};
+}
+
+/**
+ * Wraps an error thrown by Ethers.js in the matching Rifi.js error class.
+ *
+ * @param {string} message The message of the new error.
+ * @param {object} error The Ethers.js error.
+ * @param {string} [method] The contract method that was called.
+ * @param {any[]} [parameters] The parameters of the call.
+ *
+ * @hidden
+ *
+ * @returns {RifiError} Returns the typed error.
+ */
+export function toRifiError(
+  message: string,
+  error: EthersError,
+  method?: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parameters?: any[]
+): RifiError {
+  if (error instanceof RifiError) {
+    return error;
+  }
+
+  const fields = { error, method, parameters };
+  const code = error && error.code;
+
+  if (NETWORK_ERROR_CODES.includes(code)) {
+    return new RifiNetworkError(message, fields);
+  }
+
+  const { reason, data } = getRevertReason(error);
+  const errorMessage = error && error.message ? error.message : '';
+  if (reason || REVERT_ERROR_CODES.includes(code) || errorMessage.includes('revert')) {
+    return new RifiRevertError(message, { ...fields, reason, data });
+  }
+
+  return new RifiError(message, fields);
+}
@@ -6,10 +6,17 @@
 import { ethers } from 'ethers';
 import { AbiItem, CallOptions, Provider, ProviderNetwork } from './types';
 import { getNetNameWithChainId } from './util';
+import * as multicall from './multicall';
+import { simulateTransaction } from './simulate';
+import { toRifiError } from './errors';
+import { createTrxHandle } from './transaction';
+import * as gas from './gas';
+import { NonceManagedSigner } from './signer';
 
 enum JsonRpc {
   EthSendTransaction,
   EthCall,
+  EthSimulate,
   // NetVersion,
 }
 
@@ -47,11 +54,15 @@ function _ethJsonRpc(
 
     const overrides = {
       gasPrice: options.gasPrice,
+      maxFeePerGas: options.maxFeePerGas,
+      maxPriorityFeePerGas: options.maxPriorityFeePerGas,
+      type: options.type,
       nonce: options.nonce,
       value: options.value,
       chainId: options.chainId,
       from: options.from,
       gasLimit: options.gasLimit,
+      blockTag: options.blockTag,
     };
 
     parameters.push(overrides);
@@ -71,30 +82,56 @@ function _ethJsonRpc(
     }
 
     if (jsonRpcMethod === JsonRpc.EthSendTransaction) {
-      contract[method].apply(null, parameters).then((result) => {
+      // Constant members called through `trx` are reads, they pay no fees
+      const fees = contract.interface.getFunction(method).constant ?
+        Promise.resolve() : gas.applyFees(provider, options, overrides);
+
+      fees.then(() => {
+        return contract[method].apply(null, parameters);
+      }).then((result) => {
+        // Constant members called through `trx` resolve their return value
+        const isTransaction = result && result.hash && typeof result.wait === 'function';
+        resolve(isTransaction ? createTrxHandle(result, provider) : result);
+      }).catch((error) => {
+        try { delete parameters[parameters.length - 1].privateKey } catch (e) { }
+        try { delete parameters[parameters.length - 1].mnemonic } catch (e) { }
+        reject(toRifiError(
+          'Error occurred during [eth_sendTransaction]. See {error}.',
+          error,
+          method,
+          parameters
+        ));
+      });
+    } else if (jsonRpcMethod === JsonRpc.EthSimulate) {
+      simulateTransaction(provider, contract, method, parameters).then((result) => {
         resolve(result);
       }).catch((error) => {
         try { delete parameters[parameters.length - 1].privateKey } catch (e) { }
         try { delete parameters[parameters.length - 1].mnemonic } catch (e) { }
-        reject({
-          message: 'Error occurred during [eth_sendTransaction]. See {error}.',
+        reject(toRifiError(
+          'Error occurred during [eth_call]. See {error}.',
           error,
           method,
-          parameters,
-        });
+          parameters
+        ));
       });
     } else if (jsonRpcMethod === JsonRpc.EthCall) {
-      contract.callStatic[method].apply(null, parameters).then((result) => {
+      const fragment = contract.interface.getFunction(method);
+      const call = multicall.isBatchable(options, fragment, provider) ?
+        multicall.enqueue(provider, contract, method, parameters.slice(0, -1)) :
+        contract.callStatic[method].apply(null, parameters);
+
+      call.then((result) => {
         resolve(result);
       }).catch((error) => {
         try { delete parameters[parameters.length - 1].privateKey } catch (e) { }
         try { delete parameters[parameters.length - 1].mnemonic } catch (e) { }
-        reject({
-          message: 'Error occurred during [eth_call]. See {error}.',
+        reject(toRifiError(
+          'Error occurred during [eth_call]. See {error}.',
           error,
           method,
-          parameters,
-        });
+          parameters
+        ));
       });
     }
   });
@@ -105,7 +142,9 @@ function _ethJsonRpc(
  *     Use this method to execute a smart contract's constant or non-constant
  *     member without using gas. This is a read-only method intended to read a
  *     value or test a transaction for valid parameters. It does not create a
- *     transaction on the block chain.
+ *     transaction on the block chain. Reads issued concurrently on the same
+ *     provider are batched into one Multicall request where the network
+ *     supports it.
  *
  * @param {string} address The Ethereum address the transaction is directed to.
  * @param {string} method The smart contract member in which to invoke.
@@ -150,18 +189,22 @@ export function read(
 /**
  * This is a generic method for invoking JSON RPC's `eth_sendTransaction` with
  *     Ethers.js. Use this method to create a transaction that invokes a smart
- *     contract method. Returns an Ethers.js `TransactionResponse` object.
+ *     contract method. Returns a `TrxHandle`, an Ethers.js
+ *     `TransactionResponse` that also reports status events and decodes the
+ *     protocol events of its receipt. With the `simulate` option the
+ *     transaction is dry-run with `eth_call` instead, and a
+ *     `SimulationResult` describing the outcome is returned.
  *
  * @param {string} address The Ethereum address the transaction is directed to.
  * @param {string} method The smart contract member in which to invoke.
  * @param {any[]} [parameters] Parameters of the method to invoke.
  * @param {CallOptions} [options] Options to set for `eth_sendTransaction`,
- *     (as JSON object), and Ethers.js method overrides. The ABI can be a string
- *     optional ABI of the single intended method, an array of many methods, or
- *     a JSON object of the ABI generated by a Solidity compiler.
+ *     optional ABI (as JSON object), and Ethers.js method overrides. The ABI
+ *     can be a string of the single intended method, an array of many
+ *     methods, or a JSON object of the ABI generated by a Solidity compiler.
  *
- * @returns {Promise<any>} Returns an Ethers.js `TransactionResponse` object or an error
- *     object if the transaction failed.
+ * @returns {Promise<any>} Returns a `TrxHandle` or a rejected `RifiError` if the
+ *     transaction failed.
  *
  * @example
  * ```
@@ -197,6 +240,10 @@ export function trx(
   options: CallOptions = {}
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
 ): Promise<any> {
+  if (options.simulate) {
+    return _ethJsonRpc(JsonRpc.EthSimulate, address, method, parameters, options);
+  }
+
   return _ethJsonRpc(JsonRpc.EthSendTransaction, address, method, parameters, options);
 }
 
@@ -317,5 +364,10 @@ export function _createProvider(options: CallOptions = {}): Provider {
     provider = new ethers.Wallet(ethers.Wallet.fromMnemonic(options.mnemonic), provider);
   }
 
+  // Allocate nonces locally for concurrent server-side transactions
+  if (options.nonceManager && (options.privateKey || options.mnemonic)) {
+    provider = new NonceManagedSigner(provider);
+  }
+
   return provider;
 }
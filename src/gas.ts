@@ -0,0 +1,255 @@
+/**
+ * @file Gas
+ * @desc These methods price transactions, with EIP-1559 fees on networks that
+ *     support them and a legacy `gasPrice` elsewhere.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import {
+  CallOptions,
+  Provider,
+  GasFees,
+  GasStrategy,
+  GasStrategyContext,
+  GasOptions,
+  FeeHistoryOptions,
+} from './types';
+
+// BNB Chain blocks carry a zero base fee, transactions there stay legacy
+const LEGACY_CHAIN_IDS = [ 56, 97 ];
+
+const settings: GasOptions = {
+  strategy: null,
+};
+
+// Whether the network of a provider supports EIP-1559 transactions
+const eip1559Support = new WeakMap<Provider, Promise<boolean>>();
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getBaseProvider(provider: Provider): any {
+  return provider._isSigner ? provider.provider : provider;
+}
+
+function scale(value: BigNumber, factor: number): BigNumber {
+  return value.mul(Math.round(factor * 10000)).div(10000);
+}
+
+/**
+ * Detects whether the network a provider connects to supports EIP-1559
+ *     transactions. BNB Chain networks are always legacy, other networks are
+ *     detected from the base fee of the latest block.
+ *
+ * @param {Provider} provider An Ethers.js provider or signer.
+ *
+ * @returns {Promise<boolean>} Returns true if the network supports EIP-1559.
+ *
+ * @example
+ * ```
+ * const provider = new Rifi._ethers.providers.JsonRpcProvider(url);
+ * console.log('EIP-1559', await Rifi.gas.supportsEip1559(provider));
+ * ```
+ */
+export function supportsEip1559(provider: Provider): Promise<boolean> {
+  if (!eip1559Support.has(provider)) {
+    const _provider = getBaseProvider(provider);
+
+    const detection = _provider.getNetwork().then(async (network) => {
+      if (LEGACY_CHAIN_IDS.includes(network.chainId)) {
+        return false;
+      }
+
+      const block = await _provider.getBlock('latest');
+      return !!block && block.baseFeePerGas !== undefined && block.baseFeePerGas !== null;
+    }).catch(() => {
+      // Detect again on the next transaction, the failure may be transient
+      eip1559Support.delete(provider);
+      return false;
+    });
+
+    eip1559Support.set(provider, detection);
+  }
+
+  return eip1559Support.get(provider);
+}
+
+/**
+ * A gas strategy that always uses the same fees. A `gasPrice` alone is used as
+ *     both EIP-1559 fees, and a `maxFeePerGas` alone as the legacy gas price.
+ *
+ * @param {GasFees} fees The fees, in wei.
+ *
+ * @returns {GasStrategy} Returns the gas strategy.
+ *
+ * @example
+ * ```
+ * Rifi.gas.configure({
+ *   strategy: Rifi.gas.fixed({ maxFeePerGas: 100e9, maxPriorityFeePerGas: 2e9 }),
+ * });
+ * ```
+ */
+export function fixed(fees: GasFees): GasStrategy {
+  return async () => fees;
+}
+
+/**
+ * A gas strategy that multiplies the fee estimate of the node, e.g. by 1.2 to
+ *     be included faster.
+ *
+ * @param {number} [factor] The multiplier, defaults to 1.
+ *
+ * @returns {GasStrategy} Returns the gas strategy.
+ *
+ * @example
+ * ```
+ * await rifi.supply(Rifi.ETH, 1, { gasStrategy: Rifi.gas.multiplier(1.2) });
+ * ```
+ */
+export function multiplier(factor = 1): GasStrategy {
+  return async ({ provider, eip1559 }: GasStrategyContext) => {
+    const _provider = getBaseProvider(provider);
+
+    if (!eip1559) {
+      return { gasPrice: scale(await _provider.getGasPrice(), factor) };
+    }
+
+    const feeData = await _provider.getFeeData();
+    return {
+      maxFeePerGas: scale(feeData.maxFeePerGas, factor),
+      maxPriorityFeePerGas: scale(feeData.maxPriorityFeePerGas, factor),
+    };
+  };
+}
+
+/**
+ * A gas strategy that prices from the priority fees paid in recent blocks,
+ *     read with `eth_feeHistory`. Nodes without `eth_feeHistory` fall back to
+ *     the node's fee estimate.
+ *
+ * @param {FeeHistoryOptions} [options] `blocks` is the number of recent
+ *     blocks to read (defaults to 10), `percentile` the percentile of priority
+ *     fees paid in each block (defaults to 50) and `baseFeeMultiplier` the
+ *     headroom given to the base fee in `maxFeePerGas` (defaults to 2).
+ *
+ * @returns {GasStrategy} Returns the gas strategy.
+ *
+ * @example
+ * ```
+ * Rifi.gas.configure({ strategy: Rifi.gas.feeHistory({ percentile: 75 }) });
+ * ```
+ */
+export function feeHistory(options: FeeHistoryOptions = {}): GasStrategy {
+  const blocks = options.blocks || 10;
+  const percentile = options.percentile === undefined ? 50 : options.percentile;
+  const baseFeeMultiplier = options.baseFeeMultiplier || 2;
+
+  return async (context: GasStrategyContext) => {
+    const _provider = getBaseProvider(context.provider);
+
+    let history;
+    try {
+      history = await _provider.send('eth_feeHistory', [
+        ethers.utils.hexValue(blocks),
+        'latest',
+        [ percentile ],
+      ]);
+    } catch (e) {
+      return multiplier(1)(context);
+    }
+
+    const rewards: BigNumber[] = (history.reward || [])
+      .map(([ reward ]) => BigNumber.from(reward))
+      .sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+
+    // The last base fee is the one of the next block
+    const baseFees = history.baseFeePerGas || [];
+    const nextBaseFee = BigNumber.from(baseFees[baseFees.length - 1] || 0);
+    const priorityFee = rewards.length ?
+      rewards[Math.floor(rewards.length / 2)] : BigNumber.from(0);
+
+    if (!context.eip1559) {
+      return { gasPrice: nextBaseFee.add(priorityFee) };
+    }
+
+    return {
+      maxFeePerGas: scale(nextBaseFee, baseFeeMultiplier).add(priorityFee),
+      maxPriorityFeePerGas: priorityFee,
+    };
+  };
+}
+
+/**
+ * Sets the fee fields of a transaction's overrides. Fees passed in the call
+ *     options are kept, otherwise the call's `gasStrategy` or the configured
+ *     strategy prices the transaction. Without a strategy, the fees are left
+ *     to Ethers.js. The fees are converted to the transaction type the
+ *     network supports.
+ *
+ * @param {Provider} provider The Ethers.js provider or signer of the
+ *     transaction.
+ * @param {CallOptions} options The call options of the transaction.
+ * @param {object} overrides The Ethers.js overrides to complete.
+ *
+ * @hidden
+ *
+ * @returns {Promise<void>}
+ */
+export async function applyFees(
+  provider: Provider,
+  options: CallOptions,
+  overrides: GasFees & { type?: number }
+): Promise<void> {
+  const hasFees = options.gasPrice !== undefined ||
+    options.maxFeePerGas !== undefined ||
+    options.maxPriorityFeePerGas !== undefined;
+
+  if (hasFees) {
+    if (options.type === undefined) {
+      overrides.type = options.gasPrice !== undefined ? 0 : 2;
+    }
+    return;
+  }
+
+  const strategy = options.gasStrategy || settings.strategy;
+  const eip1559 = options.type !== undefined ?
+    options.type === 2 : await supportsEip1559(provider);
+
+  if (!strategy) {
+    // Keep Ethers.js from sending EIP-1559 transactions to legacy networks
+    if (!eip1559) {
+      overrides.type = 0;
+    }
+    return;
+  }
+
+  const fees = await strategy({ provider, eip1559 });
+
+  if (eip1559) {
+    const maxFeePerGas = fees.maxFeePerGas || fees.gasPrice;
+    overrides.type = 2;
+    overrides.maxFeePerGas = maxFeePerGas;
+    overrides.maxPriorityFeePerGas = fees.maxPriorityFeePerGas || maxFeePerGas;
+  } else {
+    overrides.type = 0;
+    overrides.gasPrice = fees.gasPrice || fees.maxFeePerGas;
+  }
+}
+
+/**
+ * Sets the gas strategy used by every transaction that does not pass fees or
+ *     a `gasStrategy` in its call options. Use `fixed`, `multiplier` or
+ *     `feeHistory`, or any function that resolves `GasFees`.
+ *
+ * @param {GasOptions} options `strategy` is the default gas strategy, null
+ *     leaves the fees to Ethers.js.
+ *
+ * @returns {GasOptions} Returns the settings now in effect.
+ *
+ * @example
+ * ```
+ * Rifi.gas.configure({ strategy: Rifi.gas.feeHistory({ percentile: 60 }) });
+ * ```
+ */
+export function configure(options: GasOptions = {}): GasOptions {
+  Object.assign(settings, options);
+  return { ...settings };
+}
@@ -5,11 +5,14 @@
 
 import * as eth from './eth';
 import { netId } from './helpers';
+import { RifiValidationError } from './errors';
 import { address, abi } from './constants';
 import { sign } from './EIP712';
 import {
   CallOptions,
-  TrxResponse,
+  SimulateOptions,
+  SimulationResult,
+  TrxHandle,
   Signature,
   VoteSignatureMessage,
   VoteTypes,
@@ -40,21 +43,31 @@ import {
  * })().catch(console.error);
  * ```
  */
+export function castVote(
+  proposalId: number,
+  support: boolean,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function castVote(
+  proposalId: number,
+  support: boolean,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function castVote(
   proposalId: number,
   support: boolean,
   options: CallOptions = {}
-) : Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
 
   const errorPrefix = 'Rifi [castVote] | ';
 
   if (typeof proposalId !== 'number') {
-    throw Error(errorPrefix + 'Argument `proposalId` must be an integer.');
+    throw new RifiValidationError(errorPrefix + 'Argument `proposalId` must be an integer.');
   }
 
   if (typeof support !== 'boolean') {
-    throw Error(errorPrefix + 'Argument `support` must be a boolean.');
+    throw new RifiValidationError(errorPrefix + 'Argument `support` must be a boolean.');
   }
 
   const governorAddress = address[this._network.name].GovernorAlpha;
@@ -100,22 +113,34 @@ export async function castVote(
  * })().catch(console.error);
  * ```
  */
+export function castVoteBySig(
+  proposalId: number,
+  support: boolean,
+  signature: Signature,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function castVoteBySig(
+  proposalId: number,
+  support: boolean,
+  signature: Signature,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function castVoteBySig(
   proposalId: number,
   support: boolean,
   signature: Signature,
   options: CallOptions = {}
-) : Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
 
   const errorPrefix = 'Rifi [castVoteBySig] | ';
 
   if (typeof proposalId !== 'number') {
-    throw Error(errorPrefix + 'Argument `proposalId` must be an integer.');
+    throw new RifiValidationError(errorPrefix + 'Argument `proposalId` must be an integer.');
   }
 
   if (typeof support !== 'boolean') {
-    throw Error(errorPrefix + 'Argument `support` must be a boolean.');
+    throw new RifiValidationError(errorPrefix + 'Argument `support` must be a boolean.');
   }
 
   if (
@@ -124,7 +149,7 @@ export async function castVoteBySig(
     !signature.r ||
     !signature.s
   ) {
-    throw Error(errorPrefix + 'Argument `signature` must be an object that ' +
+    throw new RifiValidationError(errorPrefix + 'Argument `signature` must be an object that ' +
       'contains the v, r, and s pieces of an EIP-712 signature.');
   }
 
@@ -1,5 +1,6 @@
-import { RifiInstance } from './types';
+import { RifiInstance, ProviderNetwork, CallOptions } from './types';
 import { getNetNameWithChainId } from './util';
+import { decimals, decimalNetwork } from './constants';
 
 const mapChainIdWithName = _rifi => {
   _rifi._network.name = getNetNameWithChainId(_rifi._network.chainId || _rifi._network.id);
@@ -23,3 +24,63 @@ export async function netId(_rifi: RifiInstance): Promise<void> {
     mapChainIdWithName(_rifi);
   }
 }
+
+// Networks whose price feed reports prices scaled by `1e(26 - decimals)`
+// instead of `1e(36 - decimals)`, i.e. USD values with 8 decimals.
+export const NETID_PRICE_FORMULA2 = [
+  81,
+  592,
+  5,
+  80001,
+  1,
+  137
+];
+
+/**
+ * Gets the number of decimals of the USD values the Cointroller computes
+ *     (account liquidity, shortfall) on the network of an SDK instance.
+ *
+ * @hidden
+ *
+ * @param {Rifi} _rifi The instance of the Rifi.js SDK.
+ *
+ * @returns {number} Returns 8 or 18.
+ */
+export function usdDecimals(_rifi: { _network: ProviderNetwork }): number {
+  return NETID_PRICE_FORMULA2.indexOf(_rifi._network.id) > -1 ? 8 : 18;
+}
+
+/**
+ * Gets the number of decimals of a token or rToken on a network. The
+ *     network's table comes first, as the global table may hold the decimals
+ *     of the same token on another network. Unknown tokens have 18.
+ *
+ * @hidden
+ *
+ * @param {string} netName The name of the network.
+ * @param {string} token The symbol of the token.
+ *
+ * @returns {number} Returns the number of decimals.
+ */
+export function decimalsOf(netName: string, token: string): number {
+  return (decimalNetwork[netName] || {})[token] || decimals[token] || 18;
+}
+
+/**
+ * Builds the options of a read made by an SDK instance. Instances made by
+ *     `rifi.at` read at their block unless the options name another.
+ *
+ * @hidden
+ *
+ * @param {Rifi} _rifi The instance of the Rifi.js SDK.
+ * @param {CallOptions} [options] The options passed to the SDK method.
+ *
+ * @returns {CallOptions} Returns the options with the instance's provider.
+ */
+export function callOptions(_rifi: RifiInstance, options: CallOptions = {}): CallOptions {
+  return {
+    ...options,
+    blockTag: options.blockTag !== undefined ? options.blockTag : _rifi._blockTag,
+    _rifiProvider: _rifi._provider,
+  };
+}
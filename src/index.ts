@@ -7,16 +7,26 @@
 import { ethers } from "ethers";
 import * as eth from "./eth";
 import * as util from "./util";
-import * as cointroller from "./cointroller";
-import * as rToken from "./rToken";
-import * as priceFeed from "./priceFeed";
 import * as rifi from "./rifi";
-import * as lens from "./lens";
-import * as gov from "./gov";
 import * as api from "./api";
-import * as vault from "./vault";
-import { constants, decimals, vaultConfig } from "./constants";
-import { Provider, RifiOptions, RifiInstance } from "./types";
+import * as multicall from "./multicall";
+import * as errors from "./errors";
+import * as transaction from "./transaction";
+import * as gas from "./gas";
+import * as networks from "./networks";
+import * as deployment from "./deployment";
+import * as amount from "./amount";
+import * as accounting from "./accounting";
+import { initialize, RifiClient } from "./client";
+import { constants, decimals, vaultConfig, blocksPerYear } from "./constants";
+import * as types from "./types";
+import {
+  Provider,
+  RifiOptions,
+  RifiInstance,
+  NetworkConfig,
+  NetworkDeployment,
+} from "./types";
 
 // Turn off Ethers.js warnings
 ethers.utils.Logger.setLogLevel(ethers.utils.Logger.levels.ERROR);
@@ -55,37 +65,7 @@ const Rifi = function (
   provider: Provider | string = "mainnet",
   options: RifiOptions = {}
 ): RifiInstance {
-  const originalProvider = provider;
-
-  options.provider = provider || options.provider;
-  provider = eth._createProvider(options);
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const instance: any = {
-    _originalProvider: originalProvider,
-    _provider: provider,
-    ...cointroller,
-    ...rToken,
-    ...priceFeed,
-    ...gov,
-    ...lens,
-    ...vault,
-    claimRifi: rifi.claimRifi,
-    delegate: rifi.delegate,
-    delegateBySig: rifi.delegateBySig,
-    createDelegateSignature: rifi.createDelegateSignature,
-  };
-
-  // Instance needs to know which network the provider connects to, so it can
-  //     use the correct contract addresses.
-  instance._networkPromise = eth
-    .getProviderNetwork(provider)
-    .then((network) => {
-      delete instance._networkPromise;
-      instance._network = network;
-    });
-
-  return instance;
+  return initialize({}, provider, options);
 };
 
 Rifi.eth = eth;
@@ -93,11 +73,113 @@ Rifi.api = api;
 Rifi.util = util;
 Rifi._ethers = ethers;
 Rifi.decimals = decimals;
+Rifi.Amount = amount.Amount;
+Rifi.RifiClient = RifiClient;
 Rifi.rifi = {
   getRifiBalance: rifi.getRifiBalance,
   getRifiAccrued: rifi.getRifiAccrued,
 };
 Rifi.vaultConfig = vaultConfig;
-Object.assign(Rifi, constants);
+Rifi.blocksPerYear = blocksPerYear;
+Rifi.multicall = {
+  configure: multicall.configure,
+};
+Rifi.gas = {
+  configure: gas.configure,
+  supportsEip1559: gas.supportsEip1559,
+  fixed: gas.fixed,
+  multiplier: gas.multiplier,
+  feeHistory: gas.feeHistory,
+};
+Rifi.transaction = {
+  decodeProtocolEvents: transaction.decodeProtocolEvents,
+};
+Rifi.accounting = {
+  toCsv: accounting.toCsv,
+  toJson: accounting.toJson,
+};
+Rifi.errors = {
+  RifiError: errors.RifiError,
+  RifiValidationError: errors.RifiValidationError,
+  RifiNetworkError: errors.RifiNetworkError,
+  RifiRevertError: errors.RifiRevertError,
+  RifiProtocolFailure: errors.RifiProtocolFailure,
+  decodeFailure: errors.decodeFailure,
+  decodeFailureLogs: errors.decodeFailureLogs,
+};
+Rifi.registerNetwork = (name: string, config: NetworkConfig): NetworkConfig => {
+  const network = networks.registerNetwork(name, config);
+  // Names of the new markets, like `Rifi.rETH`
+  Object.assign(Rifi, constants);
+  return network;
+};
+Rifi.loadDeployment = (deployment: NetworkDeployment | string): NetworkConfig => {
+  const network = networks.loadDeployment(deployment);
+  Object.assign(Rifi, constants);
+  return network;
+};
+Rifi.getRegisteredNetwork = networks.getRegisteredNetwork;
+Rifi.verifyDeployment = deployment.verifyDeployment;
+
+// Names of the contracts and markets, like `Rifi.USDC`
+const RifiSdk: typeof Rifi & typeof constants = Object.assign(Rifi, constants);
+
+// Types of the instances and of what their methods return, for TypeScript
+//     code like `const rifi: Rifi.Instance = new Rifi.RifiClient()`
+// eslint-disable-next-line @typescript-eslint/no-namespace
+declare namespace RifiSdk {
+  export type Instance = types.RifiInstance;
+  export type Options = types.RifiOptions;
+  export type Client = RifiClient;
+  export type CallOptions = types.CallOptions;
+  export type TrxResponse = types.TrxResponse;
+  export type TrxHandle = types.TrxHandle;
+  export type DecodedReceipt = types.DecodedReceipt;
+  export type TrxWaitOptions = types.TrxWaitOptions;
+  export type SimulateOptions = types.SimulateOptions;
+  export type SimulationResult = types.SimulationResult;
+  export type CointrollerMarket = types.CointrollerMarket;
+  export type AmountLike = types.AmountLike;
+  export type AccountLiquidity = types.AccountLiquidity;
+  export type TokenMetadata = types.TokenMetadata;
+  export type TokenMetadataAll = types.TokenMetadataAll;
+  export type TokenBalances = types.TokenBalances;
+  export type TokenUnderlyingPrice = types.TokenUnderlyingPrice;
+  export type AccountLimits = types.AccountLimits;
+  export type LensOptions = types.LensOptions;
+  export type RifiBalanceMetadata = types.RifiBalanceMetadata;
+  export type RifiVotes = types.RifiVotes;
+  export type GovReceipt = types.GovReceipt;
+  export type GovProposal = types.GovProposal;
+  export type RewardBalances = types.RewardBalances;
+  export type RifiBalanceMetadataExt = types.RifiBalanceMetadataExt;
+  export type MarketLimit = types.MarketLimit;
+  export type LiquidationPrice = types.LiquidationPrice;
+  export type Market = types.Market;
+  export type MarketApy = types.MarketApy;
+  export type InterestRateModel = types.InterestRateModel;
+  export type RatePrediction = types.RatePrediction;
+  export type Portfolio = types.Portfolio;
+  export type PortfolioOptions = types.PortfolioOptions;
+  export type Activity = types.Activity;
+  export type ActivityCheckpoint = types.ActivityCheckpoint;
+  export type ActivityIndexer = types.ActivityIndexer;
+  export type AccountingReport = types.AccountingReport;
+  export type AccountingRecord = types.AccountingRecord;
+  export type WatchOptions = types.WatchOptions;
+  export type WatchSubscription = types.WatchSubscription;
+  export type MarketUpdate = types.MarketUpdate;
+  export type PriceUpdate = types.PriceUpdate;
+  export type AccountUpdate = types.AccountUpdate;
+  export type Alert = types.Alert;
+  export type AlertState = types.AlertState;
+  export type AlertServiceOptions = types.AlertServiceOptions;
+  export type AlertService = types.AlertService;
+  export type KeeperAuditEntry = types.KeeperAuditEntry;
+  export type KeeperRun = types.KeeperRun;
+  export type RepayKeeperOptions = types.RepayKeeperOptions;
+  export type RepayKeeper = types.RepayKeeper;
+  export type NetworkConfig = types.NetworkConfig;
+}
 
-export = Rifi;
+export = RifiSdk;
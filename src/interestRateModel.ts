@@ -0,0 +1,267 @@
+/**
+ * @file Interest Rate Model
+ * @desc These methods read the interest rate model of a market and calculate
+ *     its rates at any utilization, like before and after an action.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import * as eth from './eth';
+import { rTokenMetadata } from './lens';
+import { resolveRToken } from './markets';
+import { getBlocksPerYear, compound } from './apy';
+import { netId, callOptions, decimalsOf } from './helpers';
+import { RifiValidationError } from './errors';
+import { Amount, toMantissa } from './amount';
+import { address, abi } from './constants';
+import {
+  AmountLike,
+  CallOptions,
+  InterestRate,
+  InterestRateModel,
+  RateAction,
+  RatePrediction,
+  MarketRates,
+} from './types';
+
+const EXP_SCALE = ethers.constants.WeiPerEther;
+
+// JumpRateModel; the WhitePaperInterestRateModel has no jump and no kink
+const modelAbi = [
+  'function baseRatePerBlock() view returns (uint256)',
+  'function multiplierPerBlock() view returns (uint256)',
+  'function jumpMultiplierPerBlock() view returns (uint256)',
+  'function kink() view returns (uint256)',
+];
+
+const RATE_ACTIONS: RateAction[] = [ 'supply', 'redeem', 'borrow', 'repay' ];
+
+function toUtilization(utilization: AmountLike, errorPrefix: string): BigNumber {
+  if (!Amount.isAmountLike(utilization)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `utilization` must be a number or a string.');
+  }
+
+  const mantissa = Amount.from(utilization, 18).mantissa;
+
+  if (mantissa.isNegative()) {
+    throw new RifiValidationError(errorPrefix + 'Argument `utilization` must not be negative.');
+  }
+
+  return mantissa;
+}
+
+// Same as `utilizationRate` of the model contracts
+function utilizationOf(cash: BigNumber, borrows: BigNumber, reserves: BigNumber): BigNumber {
+  if (borrows.isZero()) {
+    return BigNumber.from(0);
+  }
+
+  return borrows.mul(EXP_SCALE).div(cash.add(borrows).sub(reserves));
+}
+
+function createModel(
+  rTokenName: string,
+  modelAddress: string,
+  baseRatePerBlock: BigNumber,
+  multiplierPerBlock: BigNumber,
+  jumpMultiplierPerBlock: BigNumber,
+  kink: BigNumber,
+  reserveFactorMantissa: BigNumber,
+  blocksPerYear: number
+): InterestRateModel {
+  const toRate = (ratePerBlock: BigNumber): InterestRate => ({
+    ratePerBlock,
+    apy: compound(ratePerBlock, blocksPerYear),
+  });
+
+  // Same as `getBorrowRate` of the model contracts
+  const borrowRateAt = (util: BigNumber): BigNumber => {
+    if (util.lte(kink)) {
+      return util.mul(multiplierPerBlock).div(EXP_SCALE).add(baseRatePerBlock);
+    }
+
+    const normalRate = kink.mul(multiplierPerBlock).div(EXP_SCALE).add(baseRatePerBlock);
+    return util.sub(kink).mul(jumpMultiplierPerBlock).div(EXP_SCALE).add(normalRate);
+  };
+
+  // Same as `getSupplyRate` of the model contracts
+  const supplyRateAt = (util: BigNumber): BigNumber => {
+    const rateToPool = borrowRateAt(util)
+      .mul(EXP_SCALE.sub(reserveFactorMantissa))
+      .div(EXP_SCALE);
+    return util.mul(rateToPool).div(EXP_SCALE);
+  };
+
+  return {
+    rToken: rTokenName,
+    address: modelAddress,
+    baseRatePerBlock,
+    multiplierPerBlock,
+    jumpMultiplierPerBlock,
+    kink,
+    reserveFactorMantissa,
+    blocksPerYear,
+    getBorrowRateAt: (utilization: AmountLike): InterestRate => toRate(
+      borrowRateAt(toUtilization(utilization, 'Rifi [getBorrowRateAt] | '))
+    ),
+    getSupplyRateAt: (utilization: AmountLike): InterestRate => toRate(
+      supplyRateAt(toUtilization(utilization, 'Rifi [getSupplyRateAt] | '))
+    ),
+  };
+}
+
+/**
+ * Reads the interest rate model of a market. The returned model calculates
+ *     the borrow and supply rates at any utilization, where 1 means all the
+ *     cash is borrowed, the way the model contract does. Models without a
+ *     kink, like the `WhitePaperInterestRateModel`, have a `kink` of 1.
+ *
+ * @param {string} asset The market, e.g. `USDC` or `rUSDC`, or its address.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     calls.
+ *
+ * @returns {InterestRateModel} Returns the model's parameters, as per block
+ *     mantissas, and its `getBorrowRateAt` and `getSupplyRateAt` functions.
+ *
+ * @example
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const model = await rifi.getInterestRateModel(Rifi.USDC);
+ *   console.log('Borrow APY at 90% utilization', model.getBorrowRateAt(0.9).apy);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getInterestRateModel(
+  asset: string,
+  options: CallOptions = {}
+): Promise<InterestRateModel> {
+  await netId(this);
+  const errorPrefix = 'Rifi [getInterestRateModel] | ';
+
+  const rTokenName = await resolveRToken(this, asset, errorPrefix);
+  const blocks = getBlocksPerYear(this._network.name, errorPrefix);
+  const readOptions: CallOptions = callOptions(this, options);
+
+  const [ modelAddress, metadata ] = await Promise.all([
+    eth.read(
+      address[this._network.name][rTokenName],
+      'interestRateModel',
+      [],
+      { ...readOptions, abi: abi.rBep20 }
+    ),
+    rTokenMetadata.apply(this, [ rTokenName, options ]),
+  ]);
+
+  const modelOptions: CallOptions = { ...readOptions, abi: modelAbi };
+  const [ base, multiplier, jumpMultiplier, kink ] = await Promise.all([
+    eth.read(modelAddress, 'baseRatePerBlock', [], modelOptions),
+    eth.read(modelAddress, 'multiplierPerBlock', [], modelOptions),
+    eth.read(modelAddress, 'jumpMultiplierPerBlock', [], modelOptions).catch(() => null),
+    eth.read(modelAddress, 'kink', [], modelOptions).catch(() => null),
+  ]);
+
+  return createModel(
+    rTokenName,
+    modelAddress,
+    base,
+    multiplier,
+    jumpMultiplier || multiplier,
+    kink || EXP_SCALE,
+    metadata.reserveFactorMantissa,
+    blocks
+  );
+}
+
+/**
+ * Predicts the rates of a market after supplying, redeeming, borrowing or
+ *     repaying an amount, from the market's current cash, borrows and
+ *     reserves. Interest accrued since the last transaction of the market is
+ *     not included.
+ *
+ * @param {string} asset The market, e.g. `USDC` or `rUSDC`, or its address.
+ * @param {string} action `supply`, `redeem`, `borrow` or `repay`.
+ * @param {AmountLike} amount The amount of the underlying asset.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     calls. `mantissa` tells that `amount` is already scaled.
+ *
+ * @returns {RatePrediction} Returns the utilization and rates of the market
+ *     now and after the action.
+ *
+ * @example
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const { current, predicted } = await rifi.predictRates(Rifi.USDC, 'borrow', 250000);
+ *   console.log('Borrow APY', current.borrowRate.apy, '->', predicted.borrowRate.apy);
+ * })().catch(console.error);
+ * ```
+ */
+export async function predictRates(
+  asset: string,
+  action: RateAction,
+  amount: AmountLike,
+  options: CallOptions = {}
+): Promise<RatePrediction> {
+  await netId(this);
+  const errorPrefix = 'Rifi [predictRates] | ';
+
+  const rTokenName = await resolveRToken(this, asset, errorPrefix);
+
+  if (!RATE_ACTIONS.includes(action)) {
+    throw new RifiValidationError(
+      errorPrefix + 'Argument `action` must be one of ' + RATE_ACTIONS.join(', ') + '.'
+    );
+  }
+
+  if (!Amount.isAmountLike(amount)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `amount` must be a string, number or BigNumber.');
+  }
+
+  const underlyingName = rTokenName.slice(1);
+  const underlyingDecimals = decimalsOf(this._network.name, underlyingName);
+  const change = toMantissa(amount, underlyingDecimals, options.mantissa);
+
+  const [ model, metadata ] = await Promise.all([
+    getInterestRateModel.apply(this, [ rTokenName, options ]),
+    rTokenMetadata.apply(this, [ rTokenName, options ]),
+  ]);
+
+  let cash: BigNumber = metadata.totalCash;
+  let borrows: BigNumber = metadata.totalBorrows;
+  const reserves: BigNumber = metadata.totalReserves;
+
+  if (action === 'supply' || action === 'repay') {
+    cash = cash.add(change);
+  } else {
+    cash = cash.sub(change);
+  }
+
+  if (action === 'borrow') {
+    borrows = borrows.add(change);
+  } else if (action === 'repay') {
+    borrows = borrows.gt(change) ? borrows.sub(change) : BigNumber.from(0);
+  }
+
+  if (cash.isNegative()) {
+    throw new RifiValidationError(errorPrefix + 'Argument `amount` is more than the cash of the market.');
+  }
+
+  const ratesAt = (util: BigNumber): MarketRates => {
+    const utilization = Amount.fromMantissa(util, 18);
+    return {
+      utilization: utilization.toNumber(),
+      borrowRate: model.getBorrowRateAt(utilization),
+      supplyRate: model.getSupplyRateAt(utilization),
+    };
+  };
+
+  return {
+    rToken: rTokenName,
+    action,
+    amount: change,
+    current: ratesAt(utilizationOf(metadata.totalCash, metadata.totalBorrows, reserves)),
+    predicted: ratesAt(utilizationOf(cash, borrows, reserves)),
+  };
+}
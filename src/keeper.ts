@@ -0,0 +1,522 @@
+/**
+ * @file Keeper
+ * @desc These methods protect an account from liquidation: when its health
+ *     factor drops below a threshold, a keeper repays part of its debt from
+ *     the wallet balance, or redeems supplies of the borrowed asset to repay
+ *     it. Each repayment is simulated before it is sent, spending is capped,
+ *     and every step is recorded in an audit log.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import { getAccountLiquidity, simulateAccountLiquidity } from './cointroller';
+import { rTokenMetadataAll, rTokenBalancesAll, getAccountLimits, rTokenUnderlyingPriceAll } from './lens';
+import { redeem, repayBorrow } from './rToken';
+import { netId, usdDecimals, decimalsOf } from './helpers';
+import { isNativeCoin } from './util';
+import { Amount, toMantissa } from './amount';
+import { RifiValidationError } from './errors';
+import { address, rTokens } from './constants';
+import {
+  AccountLiquidity,
+  KeeperAction,
+  KeeperStatus,
+  KeeperAuditEntry,
+  KeeperRun,
+  RepayKeeperOptions,
+  RepayKeeper,
+} from './types';
+
+const EXP_SCALE = ethers.constants.WeiPerEther;
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_HEALTH_FACTOR = 1.2;
+const DEFAULT_TARGET_OFFSET = 0.3;
+const DEFAULT_GAS_RESERVE = '0.01';
+const DEFAULT_INTERVAL = 60000;
+
+// A borrowed market the keeper can repay, with the amounts it can use
+interface RepayMarket {
+  asset: string;
+  rTokenName: string;
+  decimals: number;
+  price: BigNumber;
+  borrowed: BigNumber;
+  wallet: BigNumber;
+  supplied: BigNumber;
+  collateralFactor: BigNumber;
+}
+
+// The redeem and repay amounts planned in a market, in the underlying asset
+interface RepayPlan {
+  market: RepayMarket;
+  fromWallet: BigNumber;
+  fromRedeem: BigNumber;
+}
+
+function min(...values: BigNumber[]): BigNumber {
+  return values.reduce((a, b) => a.lt(b) ? a : b);
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && value > 0;
+}
+
+/**
+ * Plans how much of a market's debt to repay from the wallet and from its
+ *     supplies to bring the health factor to the target, within a budget. The
+ *     collateral and borrow values are updated with the plan.
+ *
+ * @hidden
+ */
+function planMarket(
+  market: RepayMarket,
+  values: { collateral: BigNumber, borrows: BigNumber, budget: BigNumber | null },
+  target: BigNumber,
+  useRedeem: boolean
+): RepayPlan {
+  const zero = BigNumber.from(0);
+  const toAmount = (value: BigNumber) => value.mul(EXP_SCALE).div(market.price);
+  const toValue = (amount: BigNumber) => amount.mul(market.price).div(EXP_SCALE);
+  const withinBudget = (amount: BigNumber) => values.budget ? min(amount, toAmount(values.budget)) : amount;
+
+  if (market.price.isZero()) {
+    return { market, fromWallet: zero, fromRedeem: zero };
+  }
+
+  // Repaying R from the wallet: collateral / (borrows - R) = target
+  const walletNeed = values.borrows.sub(values.collateral.mul(EXP_SCALE).div(target));
+  const fromWallet = walletNeed.gt(0) ?
+    withinBudget(min(market.wallet, market.borrowed, toAmount(walletNeed).add(1))) : zero;
+
+  values.borrows = values.borrows.sub(toValue(fromWallet));
+  if (values.budget) {
+    values.budget = values.budget.sub(toValue(fromWallet));
+  }
+
+  // Redeeming R to repay it lowers the collateral by R times its collateral
+  //     factor: (collateral - R * factor) / (borrows - R) = target
+  const redeemNeed = target.mul(values.borrows).div(EXP_SCALE).sub(values.collateral);
+  const canRedeem = useRedeem && redeemNeed.gt(0) && target.gt(market.collateralFactor);
+
+  // The Cointroller only allows redeems that leave no shortfall before the
+  //     repayment
+  const liquidity = values.collateral.sub(values.borrows);
+  const redeemable = market.collateralFactor.isZero() ? market.supplied : liquidity.gt(0) ?
+    min(market.supplied, toAmount(liquidity.mul(EXP_SCALE).div(market.collateralFactor))) : zero;
+
+  const fromRedeem = canRedeem ? withinBudget(min(
+    redeemable,
+    market.borrowed.sub(fromWallet),
+    toAmount(redeemNeed.mul(EXP_SCALE).div(target.sub(market.collateralFactor))).add(1)
+  )) : zero;
+
+  values.collateral = values.collateral.sub(toValue(fromRedeem).mul(market.collateralFactor).div(EXP_SCALE));
+  values.borrows = values.borrows.sub(toValue(fromRedeem));
+  if (values.budget) {
+    values.budget = values.budget.sub(toValue(fromRedeem));
+  }
+
+  return { market, fromWallet, fromRedeem };
+}
+
+/**
+ * Creates a keeper that protects an account from liquidation. Each run reads
+ *     the account's health factor, and when it is below `healthFactor` plans
+ *     repayments that bring it back to `targetHealthFactor`: first from the
+ *     wallet balance of each borrowed asset, then by redeeming supplies of
+ *     that asset to repay it. No assets are swapped, so a debt is only repaid
+ *     with the same asset: an account with BNB collateral and a debt in
+ *     another asset never has its BNB redeemed, and is only protected by the
+ *     wallet balance of the borrowed asset. The markets with the largest
+ *     borrows are repaid first, unless `assets` gives the order.
+ *
+ *     Before anything is sent, the redeem and repayment of each market are
+ *     simulated with `simulateAccountLiquidity`, and skipped when they would
+ *     not raise the health factor. `maxSpendPerRun` and `maxSpendPerDay` cap
+ *     the USD value repaid; the daily limit counts the confirmed repayments
+ *     of the audit log in the last 24 hours. In dry-run mode, the plan is
+ *     recorded but nothing is sent, and each market is simulated from the
+ *     current position.
+ *
+ * @param {RepayKeeperOptions} [keeperOptions] `account` to protect (defaults
+ *     to the signer's address), `healthFactor` the threshold (defaults to
+ *     1.2), `targetHealthFactor` the health factor to restore (defaults to
+ *     0.3 above the threshold), `assets` the borrowed assets to repay, in
+ *     order, `redeem` whether supplies can be redeemed (defaults to true),
+ *     `gasReserve` the native coin kept for gas (defaults to 0.01),
+ *     `maxSpendPerRun` and `maxSpendPerDay` in USD, `dryRun`, `interval` the
+ *     milliseconds between runs of `start` (defaults to one minute),
+ *     `auditLog` the entries of a previous log, `onAudit` a function called
+ *     with each new entry and `onError` a function called with the errors of
+ *     the runs started by `start`.
+ *
+ * @returns {RepayKeeper} Returns a keeper object.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi('https://bsc-dataseed.binance.org', {
+ *   privateKey: process.env.TREASURY_KEY,
+ * });
+ *
+ * const keeper = rifi.createRepayKeeper({
+ *   healthFactor: 1.25,
+ *   targetHealthFactor: 1.5,
+ *   maxSpendPerDay: 50000,
+ *   dryRun: true,
+ *   onAudit: (entry) => fs.appendFileSync('keeper.log', JSON.stringify(entry) + '\n'),
+ * });
+ *
+ * keeper.start();
+ * ```
+ */
+export function createRepayKeeper(keeperOptions: RepayKeeperOptions = {}): RepayKeeper {
+  // eslint-disable-next-line @typescript-eslint/no-this-alias
+  const _rifi = this;
+  const errorPrefix = 'Rifi [keeper] | ';
+
+  const {
+    healthFactor: threshold = DEFAULT_HEALTH_FACTOR,
+    maxSpendPerRun,
+    maxSpendPerDay,
+    interval = DEFAULT_INTERVAL,
+    gasReserve = DEFAULT_GAS_RESERVE,
+  } = keeperOptions;
+  const targetHealthFactor = keeperOptions.targetHealthFactor || threshold + DEFAULT_TARGET_OFFSET;
+
+  if (keeperOptions.account !== undefined && !ethers.utils.isAddress(keeperOptions.account)) {
+    throw new RifiValidationError(errorPrefix + 'Option `account` must be a valid Ethereum address.');
+  }
+
+  if (!isPositiveNumber(threshold)) {
+    throw new RifiValidationError(errorPrefix + 'Option `healthFactor` must be a positive number.');
+  }
+
+  if (!isPositiveNumber(targetHealthFactor) || targetHealthFactor <= threshold) {
+    throw new RifiValidationError(errorPrefix + 'Option `targetHealthFactor` must be above `healthFactor`.');
+  }
+
+  if (maxSpendPerRun !== undefined && !isPositiveNumber(maxSpendPerRun)) {
+    throw new RifiValidationError(errorPrefix + 'Option `maxSpendPerRun` must be a positive number.');
+  }
+
+  if (maxSpendPerDay !== undefined && !isPositiveNumber(maxSpendPerDay)) {
+    throw new RifiValidationError(errorPrefix + 'Option `maxSpendPerDay` must be a positive number.');
+  }
+
+  if (!isPositiveNumber(interval)) {
+    throw new RifiValidationError(errorPrefix + 'Option `interval` must be a positive number.');
+  }
+
+  if (!Amount.isAmountLike(gasReserve)) {
+    throw new RifiValidationError(errorPrefix + 'Option `gasReserve` must be a number or a string.');
+  }
+
+  if (keeperOptions.assets !== undefined && !Array.isArray(keeperOptions.assets)) {
+    throw new RifiValidationError(errorPrefix + 'Option `assets` must be an array of assets.');
+  }
+
+  const dryRun = keeperOptions.dryRun === true;
+  const useRedeem = keeperOptions.redeem !== false;
+  const auditLog: KeeperAuditEntry[] = (keeperOptions.auditLog || []).slice();
+
+  let account: string = keeperOptions.account ? ethers.utils.getAddress(keeperOptions.account) : null;
+  let running: Promise<KeeperRun> = null;
+  let started = false;
+  let timer: ReturnType<typeof setTimeout> = null;
+
+  function reportError(error: Error): void {
+    if (keeperOptions.onError) {
+      keeperOptions.onError(error);
+    }
+  }
+
+  /**
+   * Gets the USD value repaid by the confirmed repayments of the audit log in
+   *     the last 24 hours.
+   *
+   * @returns {number} Returns the value in USD.
+   */
+  function getSpent(): number {
+    const since = Date.now() - DAY;
+
+    return auditLog
+      .filter(({ action, status, timestamp }) => action === 'repay' && status === 'confirmed' && timestamp > since)
+      .reduce((total, { value }) => total + (value || 0), 0);
+  }
+
+  async function getMarkets(): Promise<RepayMarket[]> {
+    const netName = _rifi._network.name;
+    const addresses = address[netName];
+
+    const [ metadata, balances, prices, limits ] = await Promise.all([
+      rTokenMetadataAll.apply(_rifi, [ {} ]),
+      rTokenBalancesAll.apply(_rifi, [ account, {} ]),
+      rTokenUnderlyingPriceAll.apply(_rifi, [ {} ]),
+      getAccountLimits.apply(_rifi, [ account, {} ]),
+    ]);
+
+    const entered = limits.markets.map((market: string) => market.toLowerCase());
+    const reserve = toMantissa(gasReserve, 18);
+    const markets: RepayMarket[] = [];
+
+    rTokens[netName].forEach((rTokenName: string) => {
+      const rTokenAddress = (addresses[rTokenName] || '').toLowerCase();
+      const find = (list) => list.find(({ rToken }) => rToken.toLowerCase() === rTokenAddress);
+
+      const market = find(metadata.rTokens);
+      const balance = find(balances);
+      const price = find(prices);
+
+      if (!market || !balance || !price || balance.borrowBalanceCurrent.isZero()) {
+        return;
+      }
+
+      const isNative = isNativeCoin(rTokenName, _rifi);
+      const wallet: BigNumber = isNative ? balance.tokenBalance.sub(reserve) : balance.tokenBalance;
+
+      markets.push({
+        asset: rTokenName.slice(1),
+        rTokenName,
+        decimals: decimalsOf(_rifi._network.name, rTokenName.slice(1)),
+        price: price.underlyingPrice,
+        borrowed: balance.borrowBalanceCurrent,
+        wallet: wallet.gt(0) ? wallet : BigNumber.from(0),
+        supplied: balance.balanceOfUnderlying,
+        collateralFactor: entered.includes(rTokenAddress) ? market.collateralFactorMantissa : BigNumber.from(0),
+      });
+    });
+
+    if (!keeperOptions.assets) {
+      const valueOf = ({ borrowed, price }: RepayMarket) => borrowed.mul(price);
+      return markets.sort((a, b) => valueOf(b).gt(valueOf(a)) ? 1 : valueOf(b).lt(valueOf(a)) ? -1 : 0);
+    }
+
+    const assets = keeperOptions.assets.map((asset) => asset[0] === 'r' ? asset.slice(1) : asset);
+    if (assets.some((asset) => !rTokens[netName].includes('r' + asset))) {
+      throw new RifiValidationError(errorPrefix + 'Option `assets` must be an array of supported assets.');
+    }
+
+    return assets
+      .map((asset) => markets.find((market) => market.asset === asset))
+      .filter((market) => market);
+  }
+
+  async function runOnce(): Promise<KeeperRun> {
+    await netId(_rifi);
+
+    if (!account) {
+      if (typeof _rifi._provider.getAddress !== 'function') {
+        throw new RifiValidationError(errorPrefix + 'Option `account` is required without a signer.');
+      }
+
+      account = await _rifi._provider.getAddress();
+    }
+
+    const netName = _rifi._network.name;
+    const provider = _rifi._provider.provider || _rifi._provider;
+    const valueDecimals = usdDecimals(_rifi);
+    const toNumber = (value: BigNumber, valueDec: number) => +ethers.utils.formatUnits(value, valueDec);
+    const healthFactorOf = (liquidity: AccountLiquidity) =>
+      liquidity.borrowValue.isZero() ? null : liquidity.human.healthFactor;
+
+    const blockNumber = await provider.getBlockNumber();
+    const liquidity: AccountLiquidity = await getAccountLiquidity.apply(_rifi, [ account, {} ]);
+    const healthFactor = healthFactorOf(liquidity);
+    const entries: KeeperAuditEntry[] = [];
+
+    const audit = async (
+      action: KeeperAction,
+      status: KeeperStatus,
+      message: string,
+      details: Partial<KeeperAuditEntry> = {}
+    ): Promise<void> => {
+      const entry: KeeperAuditEntry = {
+        timestamp: Date.now(),
+        network: netName,
+        account,
+        blockNumber,
+        action,
+        status,
+        asset: null,
+        amount: null,
+        value: null,
+        healthFactor,
+        simulatedHealthFactor: null,
+        transactionHash: null,
+        message,
+        ...details,
+      };
+
+      entries.push(entry);
+      auditLog.push(entry);
+
+      if (keeperOptions.onAudit) {
+        await keeperOptions.onAudit(entry);
+      }
+    };
+
+    if (healthFactor === null || healthFactor >= threshold) {
+      return { account, blockNumber, healthFactor, triggered: false, entries };
+    }
+
+    await audit('check', 'triggered', `Health factor ${healthFactor.toFixed(4)} is below ${threshold}.`);
+
+    const limits: BigNumber[] = [];
+    if (maxSpendPerRun !== undefined) {
+      limits.push(Amount.from(maxSpendPerRun, valueDecimals).mantissa);
+    }
+
+    if (maxSpendPerDay !== undefined) {
+      const left = Amount.from(Math.max(maxSpendPerDay - getSpent(), 0), valueDecimals).mantissa;
+      limits.push(left);
+    }
+
+    const values = {
+      collateral: liquidity.collateralValue,
+      borrows: liquidity.borrowValue,
+      budget: limits.length ? min(...limits) : null,
+    };
+
+    if (values.budget && values.budget.isZero()) {
+      await audit('check', 'skipped', 'The spend limit is reached.');
+      return { account, blockNumber, healthFactor, triggered: true, entries };
+    }
+
+    const target = toMantissa(targetHealthFactor, 18);
+    const markets = await getMarkets();
+    const plans = markets
+      .map((market) => planMarket(market, values, target, useRedeem))
+      .filter(({ fromWallet, fromRedeem }) => !fromWallet.isZero() || !fromRedeem.isZero());
+
+    if (!plans.length) {
+      await audit('check', 'skipped', 'Nothing can be repaid from the wallet or the supplies.');
+    }
+
+    for (const { market, fromWallet, fromRedeem } of plans) {
+      const { asset } = market;
+      const amount = fromWallet.add(fromRedeem);
+      const format = (value: BigNumber) => ethers.utils.formatUnits(value, market.decimals);
+      const valueOf = (value: BigNumber) => toNumber(value.mul(market.price).div(EXP_SCALE), valueDecimals);
+
+      const simulated: AccountLiquidity = await simulateAccountLiquidity.apply(_rifi, [
+        account,
+        { rToken: asset, redeem: fromRedeem, repay: amount },
+        { mantissa: true },
+      ]);
+      const simulatedHealthFactor = healthFactorOf(simulated);
+      const current = dryRun ? healthFactor : healthFactorOf(await getAccountLiquidity.apply(_rifi, [ account, {} ]));
+
+      if (simulatedHealthFactor !== null && current !== null && simulatedHealthFactor <= current) {
+        await audit('repay', 'skipped', `Repaying ${format(amount)} ${asset} would not raise the health factor.`, {
+          asset, amount: format(amount), value: valueOf(amount), simulatedHealthFactor,
+        });
+        continue;
+      }
+
+      const steps: [ KeeperAction, BigNumber ][] = [
+        [ 'repay', fromWallet ],
+        [ 'redeem', fromRedeem ],
+        [ 'repay', fromRedeem ],
+      ];
+
+      for (const [ action, stepAmount ] of steps) {
+        if (stepAmount.isZero()) {
+          continue;
+        }
+
+        const details: Partial<KeeperAuditEntry> = {
+          asset, amount: format(stepAmount), value: valueOf(stepAmount), simulatedHealthFactor,
+        };
+        const verb = action === 'redeem' ? 'Redeem' : 'Repay';
+
+        if (dryRun) {
+          await audit(action, 'dryRun', `${verb} ${format(stepAmount)} ${asset}.`, details);
+          continue;
+        }
+
+        let trx;
+        try {
+          trx = action === 'redeem' ?
+            await redeem.apply(_rifi, [ asset, stepAmount, { mantissa: true } ]) :
+            await repayBorrow.apply(_rifi, [ asset, stepAmount, null, false, { mantissa: true } ]);
+          await trx.wait(1, { throwOnFailure: true });
+        } catch (error) {
+          // Later steps rely on this one, so the run stops
+          await audit(action, 'failed', `${verb} ${format(stepAmount)} ${asset} failed: ${error.message}`, {
+            ...details, transactionHash: trx ? trx.hash : null,
+          });
+          throw error;
+        }
+
+        await audit(action, 'confirmed', `${verb} ${format(stepAmount)} ${asset}.`, {
+          ...details, transactionHash: trx.hash,
+        });
+      }
+    }
+
+    return { account, blockNumber, healthFactor, triggered: true, entries };
+  }
+
+  /**
+   * Checks the account's health factor once, and repays when it is below the
+   *     threshold. A run started while another one runs waits for it.
+   *
+   * @returns {KeeperRun} Returns the health factor and the audit entries of
+   *     this run.
+   */
+  async function run(): Promise<KeeperRun> {
+    while (running) {
+      await running.catch(() => null);
+    }
+
+    running = runOnce();
+    try {
+      return await running;
+    } finally {
+      running = null;
+    }
+  }
+
+  /**
+   * Starts running every `interval` milliseconds, until `stop` is called. The
+   *     timer keeps a Node.js process running.
+   */
+  function start(): void {
+    if (started) {
+      return;
+    }
+
+    started = true;
+    const loop = async () => {
+      try {
+        await run();
+      } catch (error) {
+        reportError(error);
+      }
+
+      if (started) {
+        timer = setTimeout(loop, interval);
+      }
+    };
+
+    loop();
+  }
+
+  /**
+   * Stops the runs started by `start`. A run in progress finishes.
+   */
+  function stop(): void {
+    started = false;
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  return {
+    auditLog,
+    dryRun,
+    getSpent,
+    run,
+    start,
+    stop,
+  };
+}
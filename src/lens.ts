@@ -3,13 +3,26 @@
  * @desc These methods facilitate interactions with the RifiLens smart contract.
  */
 
+import { ethers, BigNumber } from 'ethers';
 import * as eth from './eth';
-import { netId } from './helpers';
-import { address, abi, rTokens } from './constants';
+import { netId, callOptions, usdDecimals } from './helpers';
+import { RifiValidationError } from './errors';
+import { address, abi, rTokens, decimals, decimalNetwork } from './constants';
+import { discoverMarkets } from './markets';
+import { Amount } from './amount';
 import {
-  CallOptions,
+  LensOptions,
+  TokenMetadata,
+  TokenMetadataAll,
+  TokenBalances,
+  TokenUnderlyingPrice,
+  AccountLimits,
+  RifiBalanceMetadata,
+  RifiBalanceMetadataExt,
+  GovReceipt,
+  GovProposal,
+  RifiVotes,
 } from './types';
-import { BigNumber } from 'ethers';
 
 const LENS_FUNCTIONS = [
   'rTokenMetadata',
@@ -19,95 +32,556 @@ const LENS_FUNCTIONS = [
   'rTokenUnderlyingPrice',
   'rTokenUnderlyingPriceAll',
   'getAccountLimits',
+  'getRifiBalanceMetadata',
+  'getRifiBalanceMetadataExt',
+  'getGovReceipts',
+  'getGovProposals',
+  'getRifiVotes',
 ];
 
+const lensInterface = new ethers.utils.Interface(abi.RifiLens);
+
+// RIFI balances and votes have 18 decimals
+const RIFI_DECIMALS = 18;
+
+// Ethers.js decodes structs to arrays with named keys, these become objects
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toPlain(value: any, param: ethers.utils.ParamType): any {
+  if (param.baseType === 'array') {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return value.map((item: any) => toPlain(item, param.arrayChildren));
+  }
+
+  if (param.baseType === 'tuple') {
+    return param.components.reduce((plain, component, i) => {
+      plain[component.name] = toPlain(value[i], component);
+      return plain;
+    }, {});
+  }
+
+  return value;
+}
+
+// The `human` values go through `Amount`, like the other modules' numbers
+function toNumber(value: BigNumber, valueDecimals: number): number {
+  return Amount.fromMantissa(value, valueDecimals).toNumber();
+}
+
 /**
- * Get the amount of RIFI tokens accrued but not yet claimed by an address.
- *
- * @param {string} _address The address in which to find the RIFI accrued.
- * @param {Provider | string} [_provider] An Ethers.js provider or valid network
- *     name string.
+ * Calls a RifiLens function and returns its result as a plain object.
  *
- * @returns {string} Returns a string of the numeric accruement of RIFI. The
- *     value is scaled up by 18 decimal places.
+ * @hidden
  *
- * @example
+ * @param {string} func The name of the RifiLens function.
+ * @param {any[]} [parameters] Parameters of the function.
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call.
  *
- * ```
- * (async function () {
- *   const acc = await Rifi.comp.getRifiAccrued('0x4Ddc2D193948926D02f9B1fE9e1daa0718270ED5');
- *   console.log('Accrued', acc);
- * })().catch(console.error);
- * ```
+ * @returns {any} Returns the result with named fields.
  */
 async function readLens(
   func: string,
   parameters = [],
-  options: CallOptions = {}
+  options: LensOptions = {}
 ) {
   await netId(this);
 
   const errorPrefix = 'Rifi [readLens] | ';
 
   if (LENS_FUNCTIONS.indexOf(func) === -1) {
-    throw Error(`${errorPrefix}Invalid function name.`);
+    throw new RifiValidationError(`${errorPrefix}Invalid function name.`);
   }
 
   const lensAddress = address[this._network.name].RifiLens;
-  const trxOptions: CallOptions = {
-    _rifiProvider: this._provider,
+  const trxOptions: LensOptions = {
+    ...callOptions(this, options),
     abi: abi.RifiLens,
-    ...options,
   };
 
-  return eth.read(lensAddress, func, parameters, trxOptions);
+  const result = await eth.read(lensAddress, func, parameters, trxOptions);
+  return toPlain(result, lensInterface.getFunction(func).outputs[0]);
 }
 
-interface TokenMetadata {
-  rToken: string,
-  exchangeRateCurrent: BigNumber,
-  supplyRatePerBlock: BigNumber,
-  borrowRatePerBlock: BigNumber,
-  reserveFactorMantissa: BigNumber,
-  totalBorrows: BigNumber,
-  totalReserves: BigNumber,
-  totalSupply: BigNumber,
-  totalCash: BigNumber,
-  isListed: boolean,
-  collateralFactorMantissa: BigNumber,
-  underlyingAssetAddress: string,
-  rTokenDecimals: BigNumber,
-  underlyingDecimals: BigNumber,
+// The addresses of every listed market, including markets found on chain. At
+//     a past block, only the markets the Cointroller had listed by then.
+async function getMarketAddresses(options: LensOptions = {}): Promise<string[]> {
+  const readOptions = callOptions(this, options);
+
+  if (readOptions.blockTag !== undefined) {
+    const cointrollerAddress = address[this._network.name].Cointroller;
+    return eth.read(cointrollerAddress, 'getAllMarkets', [], { ...readOptions, abi: abi.Cointroller });
+  }
+
+  try {
+    await discoverMarkets.call(this);
+  } catch (e) {
+    // Fall back to the configured markets
+  }
+
+  return rTokens[this._network.name].map(token => address[this._network.name][token]);
 }
 
-interface TokenMetadataAll {
-  rTokens: TokenMetadata[],
-  blockNumber: BigNumber,
-  blockTimestamp: BigNumber,
+function getRTokenAddress(rTokenName: string, errorPrefix: string): string {
+  const rTokenAddress = address[this._network.name][rTokenName];
+
+  if (rTokenName[0] !== 'r' || !rTokenAddress) {
+    throw new RifiValidationError(errorPrefix + 'Argument `rTokenName` is not a rToken.');
+  }
+
+  return rTokenAddress;
+}
+
+function validateAccount(account: string, errorPrefix: string): void {
+  if (!ethers.utils.isAddress(account)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `account` must be a valid Ethereum address.');
+  }
+}
+
+function validateIds(ids: number[], name: string, errorPrefix: string): void {
+  if (!Array.isArray(ids) || ids.some((id) => !Number.isInteger(+id) || +id < 0)) {
+    throw new RifiValidationError(
+      errorPrefix + 'Argument `' + name + '` must be an array of non-negative integers.'
+    );
+  }
 }
 
-export async function rTokenMetadataAll(options: CallOptions = {}): Promise<TokenMetadataAll> {
+// The decimals of an rToken, by address, and of its underlying
+function marketDecimals(rTokenAddress: string): [ number, number ] {
+  const netName = this._network.name;
+  const networkDecimals = decimalNetwork[netName] || {};
+  const rTokenName = (rTokens[netName] || []).find(
+    (name) => (address[netName][name] || '').toLowerCase() === rTokenAddress.toLowerCase()
+  );
+
+  if (!rTokenName) {
+    return [ 8, 18 ];
+  }
+
+  const underlyingName = rTokenName.slice(1);
+  return [
+    networkDecimals[rTokenName] || decimals[rTokenName] || 8,
+    networkDecimals[underlyingName] || decimals[underlyingName] || 18,
+  ];
+}
+
+function humanMetadata(metadata: TokenMetadata): TokenMetadata {
+  const rTokenDecimals = +metadata.rTokenDecimals;
+  const underlyingDecimals = +metadata.underlyingDecimals;
+
+  return {
+    ...metadata,
+    human: {
+      exchangeRateCurrent: toNumber(
+        metadata.exchangeRateCurrent, 18 + underlyingDecimals - rTokenDecimals
+      ),
+      supplyRatePerBlock: toNumber(metadata.supplyRatePerBlock, 18),
+      borrowRatePerBlock: toNumber(metadata.borrowRatePerBlock, 18),
+      reserveFactorMantissa: toNumber(metadata.reserveFactorMantissa, 18),
+      totalBorrows: toNumber(metadata.totalBorrows, underlyingDecimals),
+      totalReserves: toNumber(metadata.totalReserves, underlyingDecimals),
+      totalSupply: toNumber(metadata.totalSupply, rTokenDecimals),
+      totalCash: toNumber(metadata.totalCash, underlyingDecimals),
+      collateralFactorMantissa: toNumber(metadata.collateralFactorMantissa, 18),
+    },
+  };
+}
+
+function humanBalances(balances: TokenBalances): TokenBalances {
+  const [ rTokenDecimals, underlyingDecimals ] = marketDecimals.call(this, balances.rToken);
+
+  return {
+    ...balances,
+    human: {
+      balanceOf: toNumber(balances.balanceOf, rTokenDecimals),
+      borrowBalanceCurrent: toNumber(balances.borrowBalanceCurrent, underlyingDecimals),
+      balanceOfUnderlying: toNumber(balances.balanceOfUnderlying, underlyingDecimals),
+      tokenBalance: toNumber(balances.tokenBalance, underlyingDecimals),
+      tokenAllowance: toNumber(balances.tokenAllowance, underlyingDecimals),
+    },
+  };
+}
+
+function humanPrice(price: TokenUnderlyingPrice): TokenUnderlyingPrice {
+  const [ , underlyingDecimals ] = marketDecimals.call(this, price.rToken);
+
+  // `underlying * price / 1e18` has the USD decimals
+  return {
+    ...price,
+    human: {
+      underlyingPrice: toNumber(
+        price.underlyingPrice, usdDecimals(this) + 18 - underlyingDecimals
+      ),
+    },
+  };
+}
+
+/**
+ * Gets the metadata of every market: exchange rate, rates, totals, collateral
+ *     factor and decimals.
+ *
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call. `human` adds the amounts in natural units.
+ *
+ * @returns {TokenMetadataAll} Returns the metadata of each market and the
+ *     block it was read at.
+ *
+ * @example
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const { rTokens } = await rifi.rTokenMetadataAll({ human: true });
+ *   rTokens.forEach(({ rToken, human }) => console.log(rToken, human.totalCash));
+ * })().catch(console.error);
+ * ```
+ */
+export async function rTokenMetadataAll(options: LensOptions = {}): Promise<TokenMetadataAll> {
   await netId(this);
-  const rTokenAddresses = rTokens[this._network.name].map(token => address[this._network.name][token]);
+  const rTokenAddresses = await getMarketAddresses.call(this, options);
+
+  const result: TokenMetadataAll = await readLens.apply(
+    this, ['rTokenMetadataAll', [rTokenAddresses], options]
+  );
 
-  return readLens.apply(this, ['rTokenMetadataAll', [rTokenAddresses], options]);
+  return options.human ?
+    { ...result, rTokens: result.rTokens.map(humanMetadata) } : result;
 }
 
-export async function rTokenMetadata(rTokenName: string, options: CallOptions = {}): Promise<TokenMetadata> {
+/**
+ * Gets the metadata of a market, like `rTokenMetadataAll`.
+ *
+ * @param {string} rTokenName The name of the market, e.g. `rUSDC`.
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call. `human` adds the amounts in natural units.
+ *
+ * @returns {TokenMetadata} Returns the metadata of the market.
+ */
+export async function rTokenMetadata(rTokenName: string, options: LensOptions = {}): Promise<TokenMetadata> {
   await netId(this);
-  const errorPrefix = 'Rifi [supply] | ';
-  const rTokenAddress = address[this._network.name][rTokenName];
+  const rTokenAddress = getRTokenAddress.call(this, rTokenName, 'Rifi [rTokenMetadata] | ');
 
-  if (rTokenName[0] !== 'r' || !rTokenAddress) {
-    throw Error(errorPrefix + 'Argument `rTokenName` is not a rToken.');
+  const result: TokenMetadata = await readLens.apply(
+    this, ['rTokenMetadata', [rTokenAddress], options]
+  );
+
+  return options.human ? humanMetadata(result) : result;
+}
+
+/**
+ * Gets the balances of an account in a market: rTokens, borrow, underlying
+ *     supplied, and the wallet balance and allowance of the underlying.
+ *
+ * @param {string} rTokenName The name of the market, e.g. `rUSDC`.
+ * @param {string} account The address of the account.
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call. `human` adds the amounts in natural units.
+ *
+ * @returns {TokenBalances} Returns the balances.
+ *
+ * @example
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const { human } = await rifi.rTokenBalances(Rifi.rUSDC, myAddress, { human: true });
+ *   console.log('USDC supplied', human.balanceOfUnderlying);
+ * })().catch(console.error);
+ * ```
+ */
+export async function rTokenBalances(rTokenName: string, account: string, options: LensOptions = {}): Promise<TokenBalances> {
+  await netId(this);
+  const errorPrefix = 'Rifi [rTokenBalances] | ';
+  const rTokenAddress = getRTokenAddress.call(this, rTokenName, errorPrefix);
+  validateAccount(account, errorPrefix);
+
+  const result: TokenBalances = await readLens.apply(
+    this, ['rTokenBalances', [rTokenAddress, account], options]
+  );
+
+  return options.human ? humanBalances.call(this, result) : result;
+}
+
+/**
+ * Gets the balances of an account in every market, like `rTokenBalances`.
+ *
+ * @param {string} account The address of the account.
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call. `human` adds the amounts in natural units.
+ *
+ * @returns {TokenBalances[]} Returns the balances, one entry per market.
+ */
+export async function rTokenBalancesAll(account: string, options: LensOptions = {}): Promise<TokenBalances[]> {
+  await netId(this);
+  validateAccount(account, 'Rifi [rTokenBalancesAll] | ');
+  const rTokenAddresses = await getMarketAddresses.call(this, options);
+
+  const result: TokenBalances[] = await readLens.apply(
+    this, ['rTokenBalancesAll', [rTokenAddresses, account], options]
+  );
+
+  return options.human ? result.map((balances) => humanBalances.call(this, balances)) : result;
+}
+
+/**
+ * Gets the price feed's price of the underlying of a market.
+ *
+ * @param {string} rTokenName The name of the market, e.g. `rUSDC`.
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call. `human` adds the price in USD.
+ *
+ * @returns {TokenUnderlyingPrice} Returns the price, scaled by
+ *     `1e(36 - decimals)`, or `1e(26 - decimals)` on networks whose values have
+ *     8 decimals.
+ */
+export async function rTokenUnderlyingPrice(rTokenName: string, options: LensOptions = {}): Promise<TokenUnderlyingPrice> {
+  await netId(this);
+  const rTokenAddress = getRTokenAddress.call(this, rTokenName, 'Rifi [rTokenUnderlyingPrice] | ');
+
+  const result: TokenUnderlyingPrice = await readLens.apply(
+    this, ['rTokenUnderlyingPrice', [rTokenAddress], options]
+  );
+
+  return options.human ? humanPrice.call(this, result) : result;
+}
+
+/**
+ * Gets the prices of the underlying of every market, like
+ *     `rTokenUnderlyingPrice`.
+ *
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call. `human` adds the prices in USD.
+ *
+ * @returns {TokenUnderlyingPrice[]} Returns the prices, one entry per market.
+ */
+export async function rTokenUnderlyingPriceAll(options: LensOptions = {}): Promise<TokenUnderlyingPrice[]> {
+  await netId(this);
+  const rTokenAddresses = await getMarketAddresses.call(this, options);
+
+  const result: TokenUnderlyingPrice[] = await readLens.apply(
+    this, ['rTokenUnderlyingPriceAll', [rTokenAddresses], options]
+  );
+
+  return options.human ? result.map((price) => humanPrice.call(this, price)) : result;
+}
+
+/**
+ * Gets the markets an account entered, and its liquidity and shortfall in
+ *     the Cointroller.
+ *
+ * @param {string} account The address of the account.
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call. `human` adds the liquidity and shortfall in USD.
+ *
+ * @returns {AccountLimits} Returns the entered markets' addresses, the
+ *     liquidity and the shortfall.
+ */
+export async function getAccountLimits(account: string, options: LensOptions = {}): Promise<AccountLimits> {
+  await netId(this);
+  validateAccount(account, 'Rifi [getAccountLimits] | ');
+  const cointrollerAddress = address[this._network.name].Cointroller;
+
+  const result: AccountLimits = await readLens.apply(
+    this, ['getAccountLimits', [cointrollerAddress, account], options]
+  );
+
+  if (!options.human) {
+    return result;
   }
 
-  return readLens.apply(this, ['rTokenMetadata', [rTokenAddress], options]);
+  const valueDecimals = usdDecimals(this);
+  return {
+    ...result,
+    human: {
+      liquidity: toNumber(result.liquidity, valueDecimals),
+      shortfall: toNumber(result.shortfall, valueDecimals),
+    },
+  };
 }
 
-export async function rTokenBalancesAll(account: string, options: CallOptions = {}): Promise<TokenMetadataAll> {
+/**
+ * Gets the RIFI balance, votes and delegate of an account.
+ *
+ * @param {string} account The address of the account.
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call. `human` adds the balance and votes in RIFI.
+ *
+ * @returns {RifiBalanceMetadata} Returns the balance, votes and delegate.
+ */
+export async function getRifiBalanceMetadata(
+  account: string,
+  options: LensOptions = {}
+): Promise<RifiBalanceMetadata> {
   await netId(this);
-  const rTokenAddresses = rTokens[this._network.name].map(token => address[this._network.name][token]);
+  validateAccount(account, 'Rifi [getRifiBalanceMetadata] | ');
+
+  const rifiAddress = address[this._network.name].RIFI;
+  const result: RifiBalanceMetadata = await readLens.apply(
+    this, ['getRifiBalanceMetadata', [rifiAddress, account], options]
+  );
 
-  return readLens.apply(this, ['rTokenBalancesAll', [rTokenAddresses, account], options]);
-}
\ No newline at end of file
+  if (!options.human) {
+    return result;
+  }
+
+  return {
+    ...result,
+    human: {
+      balance: toNumber(result.balance, RIFI_DECIMALS),
+      votes: toNumber(result.votes, RIFI_DECIMALS),
+    },
+  };
+}
+
+/**
+ * Gets the RIFI balance, votes and delegate of an account, and the RIFI it
+ *     accrued in the Cointroller.
+ *
+ * @param {string} account The address of the account.
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call. `human` adds the amounts in RIFI.
+ *
+ * @returns {RifiBalanceMetadataExt} Returns the balance, votes, delegate and
+ *     accrued RIFI (`allocated`).
+ *
+ * @example
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const { human } = await rifi.getRifiBalanceMetadataExt(myAddress, { human: true });
+ *   console.log('RIFI to claim', human.allocated);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getRifiBalanceMetadataExt(
+  account: string,
+  options: LensOptions = {}
+): Promise<RifiBalanceMetadataExt> {
+  await netId(this);
+  validateAccount(account, 'Rifi [getRifiBalanceMetadataExt] | ');
+
+  const addresses = address[this._network.name];
+  const result: RifiBalanceMetadataExt = await readLens.apply(
+    this, ['getRifiBalanceMetadataExt', [addresses.RIFI, addresses.Cointroller, account], options]
+  );
+
+  if (!options.human) {
+    return result;
+  }
+
+  return {
+    ...result,
+    human: {
+      balance: toNumber(result.balance, RIFI_DECIMALS),
+      votes: toNumber(result.votes, RIFI_DECIMALS),
+      allocated: toNumber(result.allocated, RIFI_DECIMALS),
+    },
+  };
+}
+
+/**
+ * Gets the votes of an account at past blocks.
+ *
+ * @param {string} account The address of the account.
+ * @param {number[]} blockNumbers The blocks to read the votes at.
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call. `human` adds the votes in RIFI.
+ *
+ * @returns {RifiVotes[]} Returns the votes, one entry per block.
+ */
+export async function getRifiVotes(
+  account: string,
+  blockNumbers: number[],
+  options: LensOptions = {}
+): Promise<RifiVotes[]> {
+  await netId(this);
+  const errorPrefix = 'Rifi [getRifiVotes] | ';
+
+  validateAccount(account, errorPrefix);
+  validateIds(blockNumbers, 'blockNumbers', errorPrefix);
+
+  const rifiAddress = address[this._network.name].RIFI;
+  const result: RifiVotes[] = await readLens.apply(
+    this, ['getRifiVotes', [rifiAddress, account, blockNumbers], options]
+  );
+
+  return options.human ? result.map((votes) => ({
+    ...votes,
+    human: { votes: toNumber(votes.votes, RIFI_DECIMALS) },
+  })) : result;
+}
+
+/**
+ * Gets whether and how an account voted on governance proposals.
+ *
+ * @param {string} voter The address of the account.
+ * @param {number[]} proposalIds The IDs of the proposals.
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call. `human` adds the votes in RIFI.
+ *
+ * @returns {GovReceipt[]} Returns the receipts, one entry per proposal.
+ */
+export async function getGovReceipts(
+  voter: string,
+  proposalIds: number[],
+  options: LensOptions = {}
+): Promise<GovReceipt[]> {
+  await netId(this);
+  const errorPrefix = 'Rifi [getGovReceipts] | ';
+
+  if (!ethers.utils.isAddress(voter)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `voter` must be a valid Ethereum address.');
+  }
+  validateIds(proposalIds, 'proposalIds', errorPrefix);
+
+  const governorAddress = address[this._network.name].GovernorAlpha;
+  const result: GovReceipt[] = await readLens.apply(
+    this, ['getGovReceipts', [governorAddress, voter, proposalIds], options]
+  );
+
+  return options.human ? result.map((receipt) => ({
+    ...receipt,
+    human: { votes: toNumber(receipt.votes, RIFI_DECIMALS) },
+  })) : result;
+}
+
+/**
+ * Gets governance proposals: their proposer, actions, voting blocks, votes
+ *     and state.
+ *
+ * @param {number[]} proposalIds The IDs of the proposals.
+ * @param {LensOptions} [options] Call options and Ethers.js overrides for the
+ *     call. `human` adds the votes in RIFI.
+ *
+ * @returns {GovProposal[]} Returns the proposals, one entry per ID.
+ *
+ * @example
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const [ proposal ] = await rifi.getGovProposals([ 12 ], { human: true });
+ *   console.log('For', proposal.human.forVotes, 'against', proposal.human.againstVotes);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getGovProposals(
+  proposalIds: number[],
+  options: LensOptions = {}
+): Promise<GovProposal[]> {
+  await netId(this);
+  validateIds(proposalIds, 'proposalIds', 'Rifi [getGovProposals] | ');
+
+  const governorAddress = address[this._network.name].GovernorAlpha;
+  const result: GovProposal[] = await readLens.apply(
+    this, ['getGovProposals', [governorAddress, proposalIds], options]
+  );
+
+  return options.human ? result.map((proposal) => ({
+    ...proposal,
+    human: {
+      forVotes: toNumber(proposal.forVotes, RIFI_DECIMALS),
+      againstVotes: toNumber(proposal.againstVotes, RIFI_DECIMALS),
+    },
+  })) : result;
+}
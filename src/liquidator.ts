@@ -0,0 +1,460 @@
+/**
+ * @file Liquidator
+ * @desc These methods find underwater accounts and liquidate them with the
+ *     rToken `liquidateBorrow` method.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import * as eth from './eth';
+import {
+  getAccountLiquidity,
+  getCloseFactor,
+  getLiquidationIncentive,
+} from './cointroller';
+import {
+  rTokenBalancesAll,
+  rTokenMetadataAll,
+  rTokenUnderlyingPriceAll,
+  getAccountLimits,
+} from './lens';
+import { liquidateBorrow } from './rToken';
+import { netId, usdDecimals, decimalsOf } from './helpers';
+import { RifiValidationError } from './errors';
+import { address, abi, rTokens } from './constants';
+import { isNativeCoin } from './util';
+import { insufficientAllowance } from './simulate';
+import {
+  CallOptions,
+  SimulateOptions,
+  SimulationResult,
+  TrxHandle,
+  Liquidator,
+  LiquidatorOptions,
+  LiquidationOpportunity,
+  LiquidationRun,
+} from './types';
+
+const EXP_SCALE = ethers.constants.WeiPerEther;
+
+// A liquidation accrues interest in two markets and seizes collateral, this
+// is a conservative estimate when no `gasLimit` is configured.
+const DEFAULT_LIQUIDATION_GAS = 800000;
+
+const DEFAULT_BLOCK_RANGE = 5000;
+
+/**
+ * Creates a liquidator that tracks borrowers from the `Borrow` events of every
+ *     rToken market, finds the accounts in shortfall and sizes the most
+ *     profitable liquidation for each of them. Opportunities are ranked by
+ *     profit net of the estimated gas cost, and can optionally be executed
+ *     with the instance's signer.
+ *
+ * @param {LiquidatorOptions} [liquidatorOptions] `fromBlock` is the first
+ *     block to scan for borrowers (defaults to the latest block),
+ *     `blockRange` the number of blocks per log request, `gasLimit` and
+ *     `gasPrice` the gas assumed for a liquidation, `nativePrice` the USD price
+ *     of the native coin if it has no market, and `minProfit` the least USD
+ *     profit worth executing.
+ *
+ * @returns {Liquidator} Returns a liquidator object.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi('http://127.0.0.1:8545', { privateKey });
+ *
+ * (async function () {
+ *   const liquidator = rifi.createLiquidator({ fromBlock: 12000000, minProfit: 5 });
+ *
+ *   setInterval(async () => {
+ *     const { opportunities, transactions } = await liquidator.run({ execute: true });
+ *     console.log('Opportunities', opportunities.length, 'sent', transactions.length);
+ *   }, 30000);
+ * })().catch(console.error);
+ * ```
+ */
+export function createLiquidator(
+  liquidatorOptions: LiquidatorOptions = {}
+): Liquidator {
+  // eslint-disable-next-line @typescript-eslint/no-this-alias
+  const _rifi = this;
+  const errorPrefix = 'Rifi [liquidator] | ';
+
+  const borrowers = new Set<string>();
+  let nextBlock: number = liquidatorOptions.fromBlock;
+
+  function addBorrower(borrower: string): void {
+    if (!ethers.utils.isAddress(borrower)) {
+      throw new RifiValidationError(errorPrefix + 'Argument `borrower` must be a valid Ethereum address.');
+    }
+
+    borrowers.add(ethers.utils.getAddress(borrower));
+  }
+
+  /**
+   * Scans the `Borrow` events emitted since the last scan and adds the
+   *     borrowers to the tracked set.
+   *
+   * @returns {number} Returns the number of tracked borrowers.
+   */
+  async function sync(): Promise<number> {
+    await netId(_rifi);
+
+    const provider = _rifi._provider.provider || _rifi._provider;
+    const latestBlock = await provider.getBlockNumber();
+    const blockRange = liquidatorOptions.blockRange || DEFAULT_BLOCK_RANGE;
+
+    if (nextBlock === undefined) {
+      nextBlock = latestBlock;
+    }
+
+    const markets = rTokens[_rifi._network.name].map((rTokenName) => new ethers.Contract(
+      address[_rifi._network.name][rTokenName],
+      abi.rBep20,
+      provider
+    ));
+
+    for (let from = nextBlock; from <= latestBlock; from += blockRange) {
+      const to = Math.min(from + blockRange - 1, latestBlock);
+
+      const logs = await Promise.all(markets.map(
+        (market) => market.queryFilter(market.filters.Borrow(), from, to)
+      ));
+
+      [].concat(...logs).forEach(({ args }) => addBorrower(args.borrower));
+      nextBlock = to + 1;
+    }
+
+    return borrowers.size;
+  }
+
+  async function getGasCost(priceOf: { [rToken: string]: BigNumber }): Promise<BigNumber> {
+    const provider = _rifi._provider.provider || _rifi._provider;
+    const gasLimit = liquidatorOptions.gasLimit || DEFAULT_LIQUIDATION_GAS;
+    const gasPrice = liquidatorOptions.gasPrice || await provider.getGasPrice();
+    const gasWei = gasPrice.mul(gasLimit);
+
+    if (liquidatorOptions.nativePrice !== undefined) {
+      const nativePrice = ethers.utils.parseUnits(
+        liquidatorOptions.nativePrice.toFixed(8),
+        usdDecimals(_rifi)
+      );
+      return gasWei.mul(nativePrice).div(EXP_SCALE);
+    }
+
+    const nativeRToken = rTokens[_rifi._network.name].find(
+      (rTokenName) => isNativeCoin(rTokenName, _rifi)
+    );
+
+    if (!nativeRToken) {
+      return BigNumber.from(0);
+    }
+
+    const nativeAddress = address[_rifi._network.name][nativeRToken].toLowerCase();
+    return gasWei.mul(priceOf[nativeAddress] || 0).div(EXP_SCALE);
+  }
+
+  /**
+   * Finds the liquidations possible for one borrower. Each borrowed market is
+   *     paired with each collateral market, the repay amount is capped by the
+   *     close factor and by the collateral available to seize.
+   *
+   * @param {string} borrower The address of the borrower.
+   *
+   * @returns {LiquidationOpportunity[]} Returns the opportunities sorted by
+   *     profit, or an empty array if the borrower is not in shortfall.
+   */
+  async function evaluate(borrower: string): Promise<LiquidationOpportunity[]> {
+    await netId(_rifi);
+
+    const { shortfall } = await getAccountLiquidity.apply(_rifi, [borrower]);
+
+    if (shortfall.isZero()) {
+      return [];
+    }
+
+    const [
+      balances, prices, metadata, limits, closeFactor, liquidationIncentive,
+    ] = await Promise.all([
+      rTokenBalancesAll.apply(_rifi, [borrower]),
+      rTokenUnderlyingPriceAll.apply(_rifi, []),
+      rTokenMetadataAll.apply(_rifi, []),
+      getAccountLimits.apply(_rifi, [borrower]),
+      getCloseFactor.apply(_rifi, []),
+      getLiquidationIncentive.apply(_rifi, []),
+    ]);
+
+    const priceOf = {};
+    prices.forEach(({ rToken, underlyingPrice }) => {
+      priceOf[rToken.toLowerCase()] = underlyingPrice;
+    });
+
+    const exchangeRateOf = {};
+    metadata.rTokens.forEach(({ rToken, exchangeRateCurrent }) => {
+      exchangeRateOf[rToken.toLowerCase()] = exchangeRateCurrent;
+    });
+
+    const entered = limits.markets.map((market: string) => market.toLowerCase());
+
+    const markets = rTokens[_rifi._network.name].map((rTokenName: string) => {
+      const rTokenAddress = address[_rifi._network.name][rTokenName].toLowerCase();
+      const balance = balances.find(({ rToken }) => rToken.toLowerCase() === rTokenAddress);
+
+      return {
+        rTokenName,
+        rTokenAddress,
+        borrowed: balance.borrowBalanceCurrent,
+        rTokenBalance: balance.balanceOf,
+        price: priceOf[rTokenAddress],
+        exchangeRate: exchangeRateOf[rTokenAddress],
+      };
+    });
+
+    const debts = markets.filter(({ borrowed }) => !borrowed.isZero());
+    const collaterals = markets.filter(({ rTokenAddress, rTokenBalance }) =>
+      entered.includes(rTokenAddress) && !rTokenBalance.isZero()
+    );
+
+    const cointrollerAddress = address[_rifi._network.name].Cointroller;
+    const readOptions: CallOptions = {
+      _rifiProvider: _rifi._provider,
+      abi: abi.Cointroller,
+    };
+
+    const calculateSeizeTokens = async (debt, collateral, repayAmount: BigNumber) => {
+      const [ error, seizeTokens ] = await eth.read(
+        cointrollerAddress,
+        'liquidateCalculateSeizeTokens',
+        [ debt.rTokenAddress, collateral.rTokenAddress, repayAmount ],
+        readOptions
+      );
+
+      return error.isZero() ? seizeTokens : null;
+    };
+
+    const pairs = [];
+    debts.forEach((debt) => collaterals.forEach((collateral) => pairs.push([ debt, collateral ])));
+
+    const [ gasCost, candidates ] = await Promise.all([
+      getGasCost(priceOf),
+      Promise.all(pairs.map(async ([ debt, collateral ]) => {
+        let repayAmount: BigNumber = debt.borrowed.mul(closeFactor).div(EXP_SCALE);
+        let seizeTokens: BigNumber = await calculateSeizeTokens(debt, collateral, repayAmount);
+
+        if (!seizeTokens) {
+          return null;
+        }
+
+        // Not enough collateral to seize, repay proportionally less
+        if (seizeTokens.gt(collateral.rTokenBalance)) {
+          repayAmount = repayAmount.mul(collateral.rTokenBalance).div(seizeTokens);
+          seizeTokens = await calculateSeizeTokens(debt, collateral, repayAmount);
+        }
+
+        if (!seizeTokens || repayAmount.isZero()) {
+          return null;
+        }
+
+        return { debt, collateral, repayAmount, seizeTokens };
+      })),
+    ]);
+
+    const valueDecimals = usdDecimals(_rifi);
+    const toUsd = (value: BigNumber) => +ethers.utils.formatUnits(value, valueDecimals);
+
+    return candidates
+      .filter((candidate) => candidate)
+      .map(({ debt, collateral, repayAmount, seizeTokens }) => {
+        const seizeAmount = seizeTokens.mul(collateral.exchangeRate).div(EXP_SCALE);
+        const repayValue = repayAmount.mul(debt.price).div(EXP_SCALE);
+        const seizeValue = seizeAmount.mul(collateral.price).div(EXP_SCALE);
+        const profit = seizeValue.sub(repayValue).sub(gasCost);
+
+        // The Cointroller already applies the incentive, this guards
+        // against a price feed that moved between the reads
+        const expectedSeizeValue = repayValue.mul(liquidationIncentive).div(EXP_SCALE);
+        const slippage = expectedSeizeValue.sub(seizeValue).abs();
+        if (!expectedSeizeValue.isZero() && slippage.mul(100).gt(expectedSeizeValue)) {
+          return null;
+        }
+
+        const repayAsset = debt.rTokenName.slice(1);
+        const collateralAsset = collateral.rTokenName.slice(1);
+
+        return {
+          borrower: ethers.utils.getAddress(borrower),
+          repayAsset,
+          collateralAsset,
+          repayAmount,
+          seizeTokens,
+          seizeAmount,
+          repayValue,
+          seizeValue,
+          gasCost,
+          profit,
+          human: {
+            repayAmount: +ethers.utils.formatUnits(repayAmount, decimalsOf(_rifi._network.name, repayAsset)),
+            seizeAmount: +ethers.utils.formatUnits(seizeAmount, decimalsOf(_rifi._network.name, collateralAsset)),
+            repayValue: toUsd(repayValue),
+            seizeValue: toUsd(seizeValue),
+            gasCost: toUsd(gasCost),
+            profit: toUsd(profit),
+          },
+        };
+      })
+      .filter((opportunity) => opportunity)
+      .sort((a, b) => (b.profit.gt(a.profit) ? 1 : b.profit.lt(a.profit) ? -1 : 0));
+  }
+
+  /**
+   * Evaluates every tracked borrower.
+   *
+   * @returns {LiquidationOpportunity[]} Returns the best opportunity of each
+   *     borrower in shortfall, sorted by profit.
+   */
+  async function findOpportunities(): Promise<LiquidationOpportunity[]> {
+    const results = await Promise.all(
+      Array.from(borrowers).map((borrower) => evaluate(borrower))
+    );
+
+    return results
+      .filter((opportunities) => opportunities.length > 0)
+      .map(([ best ]) => best)
+      .sort((a, b) => (b.profit.gt(a.profit) ? 1 : b.profit.lt(a.profit) ? -1 : 0));
+  }
+
+  /**
+   * Sends the `liquidateBorrow` transaction of an opportunity, approving the
+   *     repaid asset first if needed.
+   *
+   * @param {LiquidationOpportunity} opportunity An opportunity found by
+   *     `evaluate` or `findOpportunities`.
+   * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+   *     transactions.
+   *
+   * @returns {object} Returns an Ethers.js transaction object of the
+   *     liquidateBorrow transaction.
+   */
+  function execute(
+    opportunity: LiquidationOpportunity,
+    options: SimulateOptions
+  ): Promise<SimulationResult>;
+  function execute(
+    opportunity: LiquidationOpportunity,
+    options?: CallOptions
+  ): Promise<TrxHandle>;
+  async function execute(
+    opportunity: LiquidationOpportunity,
+    options: CallOptions = {}
+  ): Promise<TrxHandle | SimulationResult> {
+    await netId(_rifi);
+
+    const { borrower, repayAsset, collateralAsset, repayAmount } = opportunity;
+    const rTokenName = 'r' + repayAsset;
+
+    if (!isNativeCoin(rTokenName, _rifi)) {
+      const rTokenAddress = address[_rifi._network.name][rTokenName];
+      const underlyingAddress = address[_rifi._network.name][repayAsset];
+      let userAddress = _rifi._provider.address;
+
+      if (!userAddress && _rifi._provider.getAddress) {
+        userAddress = await _rifi._provider.getAddress();
+      }
+
+      const trxOptions: CallOptions = {
+        ...options,
+        _rifiProvider: _rifi._provider,
+        abi: abi.Bep20,
+      };
+
+      const allowance = await eth.read(
+        underlyingAddress,
+        'allowance',
+        [userAddress, rTokenAddress],
+        trxOptions
+      );
+
+      // A simulated approve would not carry over to the simulated liquidation
+      if (allowance.lt(repayAmount) && options.simulate) {
+        return insufficientAllowance(
+          userAddress,
+          rTokenAddress,
+          'liquidateBorrow',
+          repayAmount,
+          allowance
+        );
+      }
+
+      if (allowance.lt(repayAmount)) {
+        const approveTrx = await eth.trx(
+          underlyingAddress,
+          'approve',
+          [rTokenAddress, repayAmount],
+          trxOptions
+        );
+        await approveTrx.wait(1);
+      }
+    }
+
+    return liquidateBorrow.apply(_rifi, [
+      borrower,
+      repayAmount,
+      repayAsset,
+      collateralAsset,
+      { ...options, mantissa: true },
+    ]);
+  }
+
+  /**
+   * Syncs borrowers, finds opportunities and, if asked to, executes the
+   *     opportunities whose profit reaches `minProfit`. At most one
+   *     liquidation is sent per borrower, as it changes the borrower's
+   *     shortfall. An opportunity that fails does not stop the others.
+   *
+   * @param {object} [options] Set `execute` to true to send transactions.
+   *
+   * @returns {LiquidationRun} Returns the opportunities found, the
+   *     transactions sent and the opportunities that failed with their error.
+   */
+  async function run(options: { execute?: boolean } = {}): Promise<LiquidationRun> {
+    await sync();
+    const opportunities = await findOpportunities();
+    const transactions = [];
+    const failures = [];
+
+    if (options.execute) {
+      const minProfit = liquidatorOptions.minProfit || 0;
+      const executed = new Set<string>();
+
+      for (const opportunity of opportunities) {
+        if (opportunity.human.profit <= minProfit) {
+          break;
+        }
+
+        const borrower = opportunity.borrower.toLowerCase();
+        if (executed.has(borrower)) {
+          continue;
+        }
+        executed.add(borrower);
+
+        try {
+          transactions.push(await execute(opportunity));
+        } catch (error) {
+          failures.push({ opportunity, error });
+        }
+      }
+    }
+
+    return { opportunities, transactions, failures };
+  }
+
+  return {
+    borrowers,
+    addBorrower,
+    sync,
+    evaluate,
+    findOpportunities,
+    execute,
+    run,
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * @file Liquidity
+ * @desc These helpers value an account's borrows and format its liquidity
+ *     the way the Cointroller computes them.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import * as eth from './eth';
+import { rTokenUnderlyingPriceAll } from './lens';
+import { callOptions } from './helpers';
+import { address, abi } from './constants';
+import { CallOptions, AccountLiquidity, TokenUnderlyingPrice } from './types';
+
+const EXP_SCALE = ethers.constants.WeiPerEther;
+
+/**
+ * Sums the value of an account's borrows across all markets, in the units the
+ *     Cointroller uses for liquidity. Like the Cointroller, this uses the
+ *     stored borrow balances, without the interest accrued since the last
+ *     update of each market. An extra hypothetical borrow can be included, or
+ *     a repayment with a negative amount. Prices already read by the caller
+ *     can be passed to avoid reading them again.
+ *
+ * @hidden
+ *
+ * @returns {BigNumber[]} Returns the total and the price of the extra borrow's
+ *     market.
+ */
+export async function getBorrowValue(
+  account: string,
+  extraBorrow: { rTokenAddress: string, amount: BigNumber } = null,
+  options: CallOptions = {},
+  underlyingPrices: TokenUnderlyingPrice[] = null
+): Promise<[ BigNumber, BigNumber ]> {
+  const cointrollerAddress = address[this._network.name].Cointroller;
+  const readOptions: CallOptions = callOptions(this, options);
+
+  const [ markets, prices ] = await Promise.all([
+    eth.read(cointrollerAddress, 'getAssetsIn', [account], { ...readOptions, abi: abi.Cointroller }),
+    underlyingPrices || rTokenUnderlyingPriceAll.apply(this, [options]),
+  ]);
+
+  const borrowBalances: BigNumber[] = await Promise.all(markets.map((rTokenAddress: string) => {
+    return eth.read(rTokenAddress, 'borrowBalanceStored', [account], { ...readOptions, abi: abi.rBep20 });
+  }));
+
+  const priceOf = {};
+  prices.forEach(({ rToken, underlyingPrice }) => {
+    priceOf[rToken.toLowerCase()] = underlyingPrice;
+  });
+
+  let total = borrowBalances.reduce((sum: BigNumber, borrowBalance: BigNumber, i: number) => {
+    const price = priceOf[markets[i].toLowerCase()] || BigNumber.from(0);
+    return sum.add(borrowBalance.mul(price).div(EXP_SCALE));
+  }, BigNumber.from(0));
+
+  const extraPrice = extraBorrow ?
+    priceOf[extraBorrow.rTokenAddress.toLowerCase()] || BigNumber.from(0) : BigNumber.from(0);
+
+  if (extraBorrow && !extraBorrow.amount.isZero()) {
+    total = total.add(extraBorrow.amount.mul(extraPrice).div(EXP_SCALE));
+  }
+
+  return [ total, extraPrice ];
+}
+
+/**
+ * Splits the Cointroller's liquidity into collateral and borrow values and
+ *     adds the health factor.
+ *
+ * @hidden
+ */
+export function formatLiquidity(
+  liquidity: BigNumber,
+  shortfall: BigNumber,
+  borrowValue: BigNumber,
+  valueDecimals: number
+): AccountLiquidity {
+  // The Cointroller reports `collateral - borrows` split in two
+  const collateralValue = liquidity.sub(shortfall).add(borrowValue);
+
+  const healthFactor = borrowValue.isZero() ?
+    ethers.constants.MaxUint256 :
+    collateralValue.mul(EXP_SCALE).div(borrowValue);
+
+  const toNumber = (value: BigNumber) => +ethers.utils.formatUnits(value, valueDecimals);
+
+  return {
+    liquidity,
+    shortfall,
+    collateralValue,
+    borrowValue,
+    healthFactor,
+    human: {
+      liquidity: toNumber(liquidity),
+      shortfall: toNumber(shortfall),
+      collateralValue: toNumber(collateralValue),
+      borrowValue: toNumber(borrowValue),
+      healthFactor: borrowValue.isZero() ?
+        Infinity : +ethers.utils.formatUnits(healthFactor, 18),
+    },
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * @file Markets
+ * @desc These methods discover the markets listed in the Cointroller, so
+ *     markets listed after a Rifi.js release can be used by name or address.
+ */
+
+import { ethers } from 'ethers';
+import * as eth from './eth';
+import { netId } from './helpers';
+import { RifiValidationError } from './errors';
+import { address, abi, rTokens } from './constants';
+import { addMarkets } from './networks';
+import { isNativeCoin } from './util';
+import { CallOptions, Market, RifiInstance } from './types';
+
+// Underlying tokens are only read for their decimals
+const underlyingAbi = [ 'function decimals() view returns (uint8)' ];
+
+// Discovered markets, by network name
+const discovered = new Map<string, Promise<Market[]>>();
+
+function sameAddress(a: string, b: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+async function readMarket(_rifi, rTokenAddress: string): Promise<Market> {
+  const netName = _rifi._network.name;
+  const addresses = address[netName] || {};
+  const configured = (rTokens[netName] || []).find(
+    (rTokenName) => sameAddress(addresses[rTokenName], rTokenAddress)
+  );
+
+  const options: CallOptions = { _rifiProvider: _rifi._provider, abi: abi.rBep20 };
+
+  // Native coin markets have no `underlying()`
+  const [ symbol, rTokenDecimals, underlyingAddress ] = await Promise.all([
+    eth.read(rTokenAddress, 'symbol', [], options),
+    eth.read(rTokenAddress, 'decimals', [], options),
+    eth.read(rTokenAddress, 'underlying', [], options).catch(() => null),
+  ]);
+
+  const rTokenName = configured || symbol;
+  const isNative = configured ?
+    isNativeCoin(configured, _rifi) : underlyingAddress === null;
+
+  const underlyingDecimals = isNative ? 18 : await eth.read(
+    underlyingAddress, 'decimals', [], { ...options, abi: underlyingAbi }
+  );
+
+  return {
+    rToken: rTokenName,
+    address: ethers.utils.getAddress(rTokenAddress),
+    underlying: rTokenName.slice(1),
+    underlyingAddress: isNative ? null : ethers.utils.getAddress(underlyingAddress),
+    decimals: +rTokenDecimals,
+    underlyingDecimals: +underlyingDecimals,
+    isNativeCoin: isNative,
+  };
+}
+
+/**
+ * Lists every market of the Cointroller's `getAllMarkets`, with its symbol,
+ *     underlying, decimals and whether it is the native coin market. The
+ *     markets are cached per network and added to the network's
+ *     configuration, so `supply`, `borrow`, `getPrice` and the other methods
+ *     accept newly listed markets. Markets already configured keep their
+ *     names, new markets are named by their `symbol`, and their underlying by
+ *     the symbol without its leading `r`.
+ *
+ * @param {boolean} [refresh] Reads the markets again instead of using the
+ *     cache.
+ *
+ * @returns {Market[]} Returns the markets, in `getAllMarkets` order.
+ *
+ * @example
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const markets = await rifi.discoverMarkets();
+ *   console.log('Markets', markets.map(m => m.rToken));
+ * })().catch(console.error);
+ * ```
+ */
+export async function discoverMarkets(refresh = false): Promise<Market[]> {
+  await netId(this);
+  const netName = this._network.name;
+
+  if (refresh || !discovered.has(netName)) {
+    const cointrollerAddress = (address[netName] || {}).Cointroller;
+    if (!cointrollerAddress) {
+      throw new RifiValidationError(
+        'Rifi [discoverMarkets] | No Cointroller is configured for ' + netName + '.'
+      );
+    }
+
+    const options: CallOptions = { _rifiProvider: this._provider, abi: abi.Cointroller };
+
+    const discovery = eth.read(cointrollerAddress, 'getAllMarkets', [], options)
+      .then((marketAddresses: string[]) => Promise.all(
+        marketAddresses.map((rTokenAddress) => readMarket(this, rTokenAddress))
+      ))
+      .then((markets: Market[]) => {
+        addMarkets(netName, markets);
+        return markets;
+      })
+      .catch((error) => {
+        // Read again on the next call, the failure may have been transient
+        discovered.delete(netName);
+        throw error;
+      });
+
+    discovered.set(netName, discovery);
+  }
+
+  return discovered.get(netName);
+}
+
+/**
+ * Resolves an asset passed by name or address to its configured name. An
+ *     unknown asset is looked up in the markets of the Cointroller first.
+ *
+ * @param {object} _rifi The Rifi instance.
+ * @param {string} asset An rToken or underlying name or address.
+ * @param {boolean} [underlying] Resolves an rToken address to its underlying
+ *     name.
+ *
+ * @hidden
+ *
+ * @returns {Promise<string>} Returns the name, or the asset as passed if it is
+ *     not a listed market.
+ */
+export async function resolveAsset(
+  _rifi: RifiInstance,
+  asset: string,
+  underlying = false
+): Promise<string> {
+  if (typeof asset !== 'string' || asset.length < 1) {
+    return asset;
+  }
+
+  await netId(_rifi);
+
+  const find = (): string | undefined => {
+    const netName = _rifi._network.name;
+    const addresses = address[netName] || {};
+    const markets = rTokens[netName] || [];
+
+    if (!ethers.utils.isAddress(asset)) {
+      const known = addresses[asset] || markets.includes(asset) ||
+        markets.includes('r' + asset);
+      return known ? asset : undefined;
+    }
+
+    const rTokenName = markets.find((name) => sameAddress(addresses[name], asset));
+    if (rTokenName) {
+      return rTokenName;
+    }
+
+    return markets
+      .map((name) => name.slice(1))
+      .find((name) => sameAddress(addresses[name], asset));
+  };
+
+  let name = find();
+
+  if (name === undefined) {
+    try {
+      await discoverMarkets.call(_rifi);
+      name = find();
+    } catch (e) {
+      // Without discovery, the asset is validated against the configuration
+    }
+  }
+
+  if (name === undefined) {
+    return asset;
+  }
+
+  const isRToken = (rTokens[_rifi._network.name] || []).includes(name);
+  return underlying && isRToken && ethers.utils.isAddress(asset) ? name.slice(1) : name;
+}
+
+/**
+ * Resolves a market passed by rToken or underlying name, or by address, to
+ *     its rToken name.
+ *
+ * @param {object} _rifi The Rifi instance.
+ * @param {string} asset The market, e.g. `USDC` or `rUSDC`, or its address.
+ * @param {string} errorPrefix The prefix of validation errors.
+ *
+ * @hidden
+ *
+ * @returns {Promise<string>} Returns the rToken name.
+ */
+export async function resolveRToken(
+  _rifi: RifiInstance,
+  asset: string,
+  errorPrefix: string
+): Promise<string> {
+  if (typeof asset !== 'string' || asset.length < 1) {
+    throw new RifiValidationError(errorPrefix + 'Argument `asset` must be a non-empty string.');
+  }
+
+  const name = await resolveAsset(_rifi, asset);
+  const markets = rTokens[_rifi._network.name] || [];
+  const rTokenName = markets.includes(name) ? name : 'r' + name;
+
+  if (!markets.includes(rTokenName)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `asset` is not supported.');
+  }
+
+  return rTokenName;
+}
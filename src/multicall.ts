@@ -0,0 +1,261 @@
+/**
+ * @file Multicall
+ * @desc These methods coalesce concurrent `eth_call` reads into a single
+ *     Multicall3 `aggregate3` call.
+ */
+
+import { ethers } from 'ethers';
+import { address, abi } from './constants';
+import { getNetNameWithChainId } from './util';
+import { CallOptions, MulticallOptions, Provider } from './types';
+
+interface PendingCall {
+  contract: ethers.Contract;
+  method: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parameters: any[];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+const settings: MulticallOptions = {
+  enabled: true,
+  wait: 0,
+  maxBatchSize: 100,
+};
+
+// Calls waiting to be flushed, grouped by the provider that will send them
+const pending = new Map<Provider, PendingCall[]>();
+
+// The Multicall address for a provider's network, or null if none is deployed
+const multicallAddresses = new WeakMap<Provider, Promise<string | null>>();
+
+/**
+ * Finds the Multicall contract for the network a provider connects to and
+ *     confirms that it has bytecode, so an unknown network or a local devnet
+ *     without Multicall falls back to individual calls.
+ *
+ * @param {Provider} provider An Ethers.js provider or signer.
+ *
+ * @hidden
+ *
+ * @returns {Promise<string | null>} Returns the Multicall address or null.
+ */
+function getMulticallAddress(provider: Provider): Promise<string | null> {
+  if (!multicallAddresses.has(provider)) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const _provider: any = provider._isSigner ? provider.provider : provider;
+
+    const lookup = _provider.getNetwork().then(async (network) => {
+      const netName = getNetNameWithChainId(network.chainId);
+      const multicallAddress = (address[netName] || {}).Multicall;
+
+      if (!multicallAddress) {
+        return null;
+      }
+
+      const code = await _provider.getCode(multicallAddress);
+      return code && code !== '0x' ? multicallAddress : null;
+    }).catch(() => {
+      // Try again on the next batch, the failure may have been transient
+      multicallAddresses.delete(provider);
+      return null;
+    });
+
+    multicallAddresses.set(provider, lookup);
+  }
+
+  return multicallAddresses.get(provider);
+}
+
+function callDirectly(call: PendingCall): void {
+  call.contract.callStatic[call.method]
+    .apply(null, call.parameters)
+    .then(call.resolve, call.reject);
+}
+
+function revertError(returnData: string): Error {
+  let reason: string;
+
+  // Error(string) selector
+  if (returnData && returnData.indexOf('0x08c379a0') === 0) {
+    try {
+      [ reason ] = ethers.utils.defaultAbiCoder.decode(
+        [ 'string' ],
+        '0x' + returnData.slice(10)
+      );
+    } catch (e) { }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const error: any = new Error(
+    reason ? `execution reverted: ${reason}` : 'execution reverted'
+  );
+  error.code = ethers.utils.Logger.errors.CALL_EXCEPTION;
+  error.reason = reason;
+  error.data = returnData;
+
+  return error;
+}
+
+async function aggregate(
+  provider: Provider,
+  multicallAddress: string,
+  calls: PendingCall[]
+): Promise<void> {
+  const multicall = new ethers.Contract(multicallAddress, abi.Multicall, provider);
+
+  const requests = calls.map((call) => ({
+    target: call.contract.address,
+    allowFailure: true,
+    callData: call.contract.interface.encodeFunctionData(call.method, call.parameters),
+  }));
+
+  let results;
+  try {
+    results = await multicall.callStatic.aggregate3(requests);
+  } catch (error) {
+    // The aggregate itself failed (e.g. out of gas), isolate every call
+    calls.forEach(callDirectly);
+    return;
+  }
+
+  results.forEach(({ success, returnData }, i) => {
+    const call = calls[i];
+
+    if (!success) {
+      call.reject(revertError(returnData));
+      return;
+    }
+
+    try {
+      const fragment = call.contract.interface.getFunction(call.method);
+      const result = call.contract.interface.decodeFunctionResult(fragment, returnData);
+      call.resolve(fragment.outputs.length === 1 ? result[0] : result);
+    } catch (error) {
+      call.reject(error);
+    }
+  });
+}
+
+async function flush(provider: Provider): Promise<void> {
+  const calls = pending.get(provider);
+  pending.delete(provider);
+
+  const multicallAddress = calls.length > 1 ?
+    await getMulticallAddress(provider) : null;
+
+  if (!multicallAddress) {
+    calls.forEach(callDirectly);
+    return;
+  }
+
+  for (let i = 0; i < calls.length; i += settings.maxBatchSize) {
+    const chunk = calls.slice(i, i + settings.maxBatchSize);
+
+    if (chunk.length === 1) {
+      callDirectly(chunk[0]);
+    } else {
+      aggregate(provider, multicallAddress, chunk);
+    }
+  }
+}
+
+/**
+ * Determines whether an `eth_call` can be answered through Multicall. Calls
+ *     that depend on `msg.sender`, `msg.value`, gas overrides or a past block
+ *     are always sent on their own. Only `view` and `pure` members are
+ *     batched, a non-constant member (e.g. a Lens method that accrues
+ *     interest) would run with Multicall as `msg.sender`. Reads through a
+ *     signer are sent on their own unless `multicall: true` is set, because
+ *     the contract would otherwise see Multicall instead of the signer.
+ *
+ * @param {CallOptions} options The call options of a pending `eth_call`.
+ * @param {ethers.utils.FunctionFragment} [fragment] The ABI fragment of the
+ *     contract member that is called.
+ * @param {Provider} [provider] The Ethers.js provider or signer of the call.
+ *
+ * @hidden
+ *
+ * @returns {boolean} True if the call may be batched.
+ */
+export function isBatchable(
+  options: CallOptions = {},
+  fragment?: ethers.utils.FunctionFragment,
+  provider?: Provider
+): boolean {
+  return settings.enabled &&
+    options.multicall !== false &&
+    (!fragment || fragment.constant) &&
+    (!provider || !provider._isSigner || options.multicall === true) &&
+    options.from === undefined &&
+    options.value === undefined &&
+    options.gasLimit === undefined &&
+    options.gasPrice === undefined &&
+    options.maxFeePerGas === undefined &&
+    options.maxPriorityFeePerGas === undefined &&
+    options.blockTag === undefined;
+}
+
+/**
+ * Queues a read to be sent with the other reads issued on the same provider
+ *     within the batching window. Each call resolves or rejects on its own,
+ *     one reverted call does not fail the rest of the batch.
+ *
+ * @param {Provider} provider An Ethers.js provider or signer.
+ * @param {ethers.Contract} contract The Ethers.js contract to call.
+ * @param {string} method The name or signature of the contract method.
+ * @param {any[]} [parameters] Parameters of the method, without overrides.
+ *
+ * @hidden
+ *
+ * @returns {Promise<any>} Returns the decoded return value of the call.
+ */
+export function enqueue(
+  provider: Provider,
+  contract: ethers.Contract,
+  method: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parameters: any[] = []
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<any> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return new Promise<any>((resolve, reject) => {
+    // Surface encoding errors now, instead of failing the whole batch later
+    try {
+      contract.interface.encodeFunctionData(method, parameters);
+    } catch (error) {
+      return reject(error);
+    }
+
+    if (!pending.has(provider)) {
+      pending.set(provider, []);
+      setTimeout(() => flush(provider), settings.wait);
+    }
+
+    pending.get(provider).push({ contract, method, parameters, resolve, reject });
+  });
+}
+
+/**
+ * Changes how reads are batched. Batching is on by default for every network
+ *     with a `Multicall` entry in `constants.address`. A single read can opt
+ *     out with the `multicall: false` call option. Reads through a signer
+ *     opt in with `multicall: true`.
+ *
+ * @param {MulticallOptions} options `enabled` turns batching on or off,
+ *     `wait` is the number of milliseconds to collect reads before sending
+ *     them, and `maxBatchSize` is the most reads sent in one aggregate call.
+ *
+ * @returns {MulticallOptions} Returns the settings now in effect.
+ *
+ * @example
+ * ```
+ * Rifi.multicall.configure({ wait: 10, maxBatchSize: 50 });
+ * ```
+ */
+export function configure(options: MulticallOptions = {}): MulticallOptions {
+  Object.assign(settings, options);
+  return { ...settings };
+}
@@ -0,0 +1,286 @@
+/**
+ * @file Networks
+ * @desc These methods register networks that are not built into Rifi.js, like
+ *     a local Hardhat deployment, so every method of an instance connected to
+ *     them finds its contracts.
+ */
+
+import { ethers } from 'ethers';
+import {
+  constants,
+  address,
+  rTokens,
+  underlyings,
+  decimals,
+  decimalNetwork,
+  vaultConfig,
+  blocksPerYear,
+} from './constants';
+import { RifiValidationError } from './errors';
+import { NetworkConfig, NetworkDeployment, Market } from './types';
+
+// Networks registered at runtime, by name
+const registry: { [name: string]: NetworkConfig } = {};
+
+// Native coin markets found by market discovery, by network name
+const nativeMarkets: { [name: string]: string[] } = {};
+
+function addNames(rTokenName: string, underlyingName: string): void {
+  constants[rTokenName] = rTokenName;
+  constants[underlyingName] = underlyingName;
+
+  if (!underlyings.includes(underlyingName)) {
+    underlyings.push(underlyingName);
+  }
+}
+
+// Methods that are not network aware read the global decimals
+function addDecimals(networkDecimals: { [token: string]: number }): void {
+  Object.keys(networkDecimals).forEach((token) => {
+    if (decimals[token] === undefined) {
+      decimals[token] = networkDecimals[token];
+    }
+  });
+}
+
+function validate(name: string, config: NetworkConfig): void {
+  const errorPrefix = 'Rifi [registerNetwork] | ';
+
+  if (typeof name !== 'string' || name === '') {
+    throw new RifiValidationError(errorPrefix + 'Argument `name` must be a non-empty string.');
+  }
+
+  if (!config || !Number.isInteger(config.chainId) || config.chainId <= 0) {
+    throw new RifiValidationError(errorPrefix + 'Argument `chainId` must be a positive integer.');
+  }
+
+  if (!config.addresses || typeof config.addresses !== 'object') {
+    throw new RifiValidationError(errorPrefix + 'Argument `addresses` must be an object.');
+  }
+
+  Object.keys(config.addresses).forEach((contract) => {
+    const contractAddress = config.addresses[contract];
+    if (contractAddress !== '' && !ethers.utils.isAddress(contractAddress)) {
+      throw new RifiValidationError(
+        errorPrefix + 'Address of `' + contract + '` is not a valid address.'
+      );
+    }
+  });
+
+  if (config.blocksPerYear !== undefined &&
+    (!Number.isInteger(config.blocksPerYear) || config.blocksPerYear <= 0)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `blocksPerYear` must be a positive integer.');
+  }
+
+  (config.rTokens || []).forEach((rTokenName) => {
+    if (!config.addresses[rTokenName]) {
+      throw new RifiValidationError(
+        errorPrefix + 'Market `' + rTokenName + '` has no address in `addresses`.'
+      );
+    }
+  });
+}
+
+/**
+ * Registers a network, or replaces the configuration of a network, so Rifi.js
+ *     instances connected to its chain ID use the given contracts. The
+ *     network is added to the tables in `constants.ts`, so `getAddress` and
+ *     every instance method read it like a built-in network.
+ *
+ * @param {string} name The network name, used in place of names like
+ *     `bsc_mainnet`.
+ * @param {NetworkConfig} config `chainId` and `addresses` are required.
+ *     `addresses` maps contract, market and underlying names to addresses.
+ *     `rTokens` lists the market names, `decimals` the token decimals,
+ *     `vaults` the vault configuration, `blocksPerYear` the block rate and
+ *     `nativeSymbol` the native coin, whose market is `r` + `nativeSymbol`.
+ *
+ * @returns {NetworkConfig} Returns the registered configuration.
+ *
+ * @example
+ * ```
+ * Rifi.registerNetwork('hardhat', {
+ *   chainId: 31337,
+ *   addresses: {
+ *     Cointroller: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+ *     PriceFeed: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+ *     rETH: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+ *   },
+ *   rTokens: [ 'rETH' ],
+ *   decimals: { ETH: 18, rETH: 8 },
+ *   nativeSymbol: 'ETH',
+ * });
+ *
+ * const rifi = new Rifi('http://localhost:8545');
+ * ```
+ */
+export function registerNetwork(name: string, config: NetworkConfig): NetworkConfig {
+  validate(name, config);
+
+  const network: NetworkConfig = {
+    ...config,
+    addresses: { ...config.addresses },
+    rTokens: [ ...(config.rTokens || []) ],
+    decimals: { ...(config.decimals || {}) },
+    vaults: { ...(config.vaults || {}) },
+  };
+
+  // Another name for the same chain would never be resolved
+  Object.keys(registry).forEach((registered) => {
+    if (registered !== name && registry[registered].chainId === network.chainId) {
+      delete registry[registered];
+    }
+  });
+
+  registry[name] = network;
+
+  address[name] = network.addresses;
+  rTokens[name] = network.rTokens;
+  decimalNetwork[name] = network.decimals;
+  vaultConfig[name] = network.vaults;
+
+  if (network.blocksPerYear) {
+    blocksPerYear[name] = network.blocksPerYear;
+  }
+
+  network.rTokens.forEach((rTokenName) => addNames(rTokenName, rTokenName.slice(1)));
+  addDecimals(network.decimals);
+
+  return network;
+}
+
+/**
+ * Adds markets found on chain to the tables of a network. Markets and
+ *     decimals that are already configured are kept.
+ *
+ * @param {string} name The network name.
+ * @param {Market[]} markets The markets to add.
+ *
+ * @hidden
+ */
+export function addMarkets(name: string, markets: Market[]): void {
+  const addresses = address[name] = address[name] || {};
+  const networkMarkets = rTokens[name] = rTokens[name] || [];
+  const networkDecimals = decimalNetwork[name] = decimalNetwork[name] || {};
+
+  markets.forEach((market) => {
+    if (!addresses[market.rToken]) {
+      addresses[market.rToken] = market.address;
+    }
+
+    if (market.underlyingAddress && !addresses[market.underlying]) {
+      addresses[market.underlying] = market.underlyingAddress;
+    }
+
+    if (!networkMarkets.includes(market.rToken)) {
+      networkMarkets.push(market.rToken);
+    }
+
+    if (networkDecimals[market.rToken] === undefined) {
+      networkDecimals[market.rToken] = market.decimals;
+    }
+
+    if (networkDecimals[market.underlying] === undefined) {
+      networkDecimals[market.underlying] = market.underlyingDecimals;
+    }
+
+    if (market.isNativeCoin && !(nativeMarkets[name] || []).includes(market.rToken)) {
+      nativeMarkets[name] = [ ...(nativeMarkets[name] || []), market.rToken ];
+    }
+
+    addNames(market.rToken, market.underlying);
+  });
+
+  addDecimals(networkDecimals);
+}
+
+/**
+ * Tells whether a market of a registered network, or a market found by
+ *     market discovery, is the native coin market.
+ *
+ * @returns {boolean | undefined} Returns undefined when only the built-in
+ *     configuration knows.
+ *
+ * @hidden
+ */
+export function isNativeMarket(name: string, rTokenName: string): boolean | undefined {
+  if ((nativeMarkets[name] || []).includes(rTokenName)) {
+    return true;
+  }
+
+  const registered = registry[name];
+  if (registered) {
+    return !!registered.nativeSymbol && rTokenName === 'r' + registered.nativeSymbol;
+  }
+
+  return undefined;
+}
+
+/**
+ * Registers the network of a deployment file, like the one written by the
+ *     deploy script of a local Hardhat node. The file holds a `name` and the
+ *     members of `registerNetwork`'s configuration.
+ *
+ * @param {NetworkDeployment | string} deployment The parsed deployment, or in
+ *     Node.js the path of the JSON file.
+ *
+ * @returns {NetworkConfig} Returns the registered configuration.
+ *
+ * @example
+ * ```
+ * Rifi.loadDeployment('./deployments/hardhat.json');
+ * const rifi = new Rifi('http://localhost:8545');
+ * ```
+ */
+export function loadDeployment(deployment: NetworkDeployment | string): NetworkConfig {
+  let parsed: NetworkDeployment;
+
+  if (typeof deployment === 'string') {
+    let fs;
+    try {
+      fs = require('fs');
+    } catch (e) {
+      throw new RifiValidationError(
+        'Rifi [loadDeployment] | Deployment files can only be read in Node.js, pass the parsed JSON instead.'
+      );
+    }
+
+    try {
+      parsed = JSON.parse(fs.readFileSync(deployment, 'utf8'));
+    } catch (e) {
+      throw new RifiValidationError(
+        'Rifi [loadDeployment] | Could not read deployment file ' + deployment + ': ' + e.message
+      );
+    }
+  } else {
+    parsed = deployment;
+  }
+
+  if (!parsed || typeof parsed.name !== 'string') {
+    throw new RifiValidationError('Rifi [loadDeployment] | Deployment must have a `name`.');
+  }
+
+  const { name, ...config } = parsed;
+  return registerNetwork(name, config);
+}
+
+/**
+ * Gets the configuration of a registered network.
+ *
+ * @param {string} name The network name.
+ *
+ * @returns {NetworkConfig | undefined} Returns the configuration, or
+ *     undefined for built-in and unknown networks.
+ */
+export function getRegisteredNetwork(name: string): NetworkConfig | undefined {
+  return registry[name];
+}
+
+/**
+ * Finds the registered network of a chain ID.
+ *
+ * @hidden
+ */
+export function findRegisteredNetwork(chainId: number): string | undefined {
+  return Object.keys(registry).find((name) => registry[name].chainId === chainId);
+}
@@ -0,0 +1,263 @@
+/**
+ * @file Portfolio
+ * @desc These methods gather an account's whole position in the Rifi
+ *     Protocol: markets, liquidity, RIFI and vaults, valued in USD.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import { getBorrowValue, formatLiquidity } from './liquidity';
+import {
+  rTokenMetadataAll,
+  rTokenBalancesAll,
+  rTokenUnderlyingPriceAll,
+  getAccountLimits,
+  getRifiBalanceMetadataExt,
+} from './lens';
+import { getMarketApysOf, getRifiPrice } from './apy';
+import { getDepositOf, getRewardBalances } from './vault';
+import { netId, usdDecimals, decimalsOf } from './helpers';
+import { RifiValidationError } from './errors';
+import { address, rTokens, vaultConfig } from './constants';
+import {
+  PortfolioOptions,
+  Portfolio,
+  PortfolioMarket,
+  PortfolioVault,
+} from './types';
+
+const EXP_SCALE = ethers.constants.WeiPerEther;
+
+// Weighted average of the APYs, relative to the supplied value
+function netApyOf(markets: PortfolioMarket[]): number | null {
+  let supplied = 0;
+  let earned = 0;
+
+  markets.forEach(({ human, supplyApy, borrowApy, rifiSupplyApy, rifiBorrowApy }) => {
+    supplied += human.suppliedValue;
+    earned += human.suppliedValue * (supplyApy + (rifiSupplyApy || 0));
+    earned -= human.borrowedValue * (borrowApy - (rifiBorrowApy || 0));
+  });
+
+  return supplied > 0 ? earned / supplied : null;
+}
+
+/**
+ * Reads the deposit and rewards of an account in each vault, valued with the
+ *     price of the vault's deposit token when it has a market.
+ *
+ * @hidden
+ */
+async function getVaults(
+  account: string,
+  vaults: string[],
+  priceOf: { [rTokenName: string]: BigNumber },
+  options: PortfolioOptions
+): Promise<PortfolioVault[]> {
+  const netName = this._network.name;
+  const valueDecimals = usdDecimals(this);
+
+  return Promise.all(vaults.map(async (vault): Promise<PortfolioVault> => {
+    const config = (vaultConfig[netName] || {})[vault] || {};
+    const depositToken: string = config.depositToken || null;
+    const depositDecimals = decimalsOf(netName, depositToken);
+    const price = depositToken ? priceOf['r' + depositToken] : undefined;
+
+    const [ deposit, rewards ] = await Promise.all([
+      getDepositOf.apply(this, [ vault, account, options ]),
+      getRewardBalances.apply(this, [ vault, account, options ]),
+    ]);
+
+    const depositValue = price ? deposit.mul(price).div(EXP_SCALE) : null;
+
+    return {
+      vault,
+      depositToken,
+      deposit,
+      depositValue,
+      rewards,
+      human: {
+        deposit: +ethers.utils.formatUnits(deposit, depositDecimals),
+        depositValue: depositValue ? +ethers.utils.formatUnits(depositValue, valueDecimals) : null,
+      },
+    };
+  }));
+}
+
+/**
+ * Gets a snapshot of an account's position: its balances in every market with
+ *     their USD values and APYs, its liquidity and health factor, its RIFI
+ *     wallet balance and accrued RIFI, and its vault deposits and rewards.
+ *     Markets the account has no balance in and has not entered are left out.
+ *
+ *     `netApy` is the yearly interest earned on supplies, minus the interest
+ *     paid on borrows, relative to the supplied value in percent; RIFI
+ *     distribution is included when its price is known. `borrowUtilization`
+ *     is the borrowed value relative to the borrow limit, where 1 means the
+ *     account can be liquidated.
+ *
+ * @param {string} account The address of the account.
+ * @param {PortfolioOptions} [options] Call options, `rifiPrice`, the USD price
+ *     of RIFI, and `vaults`, the names of the vaults to include. Defaults to
+ *     every deployed vault of the network.
+ *
+ * @returns {Portfolio} Returns the position, with values in USD as mantissas
+ *     and in `human` as plain numbers.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const portfolio = await rifi.getPortfolio(myAddress);
+ *   console.log('Supplied', portfolio.human.suppliedValue, 'USD');
+ *   console.log('Net APY', portfolio.netApy);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getPortfolio(
+  account: string,
+  options: PortfolioOptions = {}
+): Promise<Portfolio> {
+  await netId(this);
+  const errorPrefix = 'Rifi [getPortfolio] | ';
+
+  if (!ethers.utils.isAddress(account)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `account` must be a valid Ethereum address.');
+  }
+
+  const netName = this._network.name;
+  const vaults = options.vaults ||
+    Object.keys(vaultConfig[netName] || {}).filter((vault) => address[netName][vault]);
+
+  if (!Array.isArray(vaults) || vaults.some((vault) => !address[netName][vault])) {
+    throw new RifiValidationError(errorPrefix + 'Option `vaults` must be an array of vault names.');
+  }
+
+  const valueDecimals = usdDecimals(this);
+
+  // The APYs and the liquidity are derived from the same reads as the markets
+  const metadataRead = rTokenMetadataAll.apply(this, [ options ]);
+  const pricesRead = rTokenUnderlyingPriceAll.apply(this, [ options ]);
+  const limitsRead = getAccountLimits.apply(this, [ account, options ]);
+  const rifiPriceRead = getRifiPrice.call(this, options, errorPrefix);
+
+  const [ metadata, balances, prices, limits, apys, liquidity, rifi, rifiPrice ] = await Promise.all([
+    metadataRead,
+    rTokenBalancesAll.apply(this, [ account, options ]),
+    pricesRead,
+    limitsRead,
+    Promise.all([ metadataRead, pricesRead, rifiPriceRead ]).then(([ metadata, prices, rifiPrice ]) => {
+      return getMarketApysOf.apply(this, [ metadata, prices, rifiPrice, options, errorPrefix ]);
+    }),
+    Promise.all([ limitsRead, pricesRead ]).then(async ([ limits, prices ]) => {
+      const [ borrowValue ] = await getBorrowValue.apply(this, [ account, null, options, prices ]);
+      return formatLiquidity(limits.liquidity, limits.shortfall, borrowValue, valueDecimals);
+    }),
+    getRifiBalanceMetadataExt.apply(this, [ account, options ]),
+    rifiPriceRead,
+  ]);
+
+  const toNumber = (value: BigNumber, valueDec: number) => +ethers.utils.formatUnits(value, valueDec);
+  const entered = limits.markets.map((market: string) => market.toLowerCase());
+
+  const priceOf: { [rTokenName: string]: BigNumber } = {};
+  const markets: PortfolioMarket[] = [];
+
+  rTokens[netName].forEach((rTokenName: string) => {
+    const rTokenAddress = address[netName][rTokenName].toLowerCase();
+    const find = (list) => list.find(({ rToken }) => rToken.toLowerCase() === rTokenAddress);
+
+    const market = find(metadata.rTokens);
+    const balance = find(balances);
+    const price = find(prices);
+    const apy = apys.find(({ rToken }) => rToken === rTokenName);
+
+    if (!market || !balance || !price || !apy) {
+      return;
+    }
+
+    priceOf[rTokenName] = price.underlyingPrice;
+
+    const isCollateral = entered.includes(rTokenAddress);
+    if (balance.balanceOf.isZero() && balance.borrowBalanceCurrent.isZero() && !isCollateral) {
+      return;
+    }
+
+    const underlying = rTokenName.slice(1);
+    const underlyingDecimals = decimalsOf(netName, underlying);
+    const suppliedValue = balance.balanceOfUnderlying.mul(price.underlyingPrice).div(EXP_SCALE);
+    const borrowedValue = balance.borrowBalanceCurrent.mul(price.underlyingPrice).div(EXP_SCALE);
+
+    markets.push({
+      rToken: rTokenName,
+      underlying,
+      rTokenBalance: balance.balanceOf,
+      supplied: balance.balanceOfUnderlying,
+      borrowed: balance.borrowBalanceCurrent,
+      walletBalance: balance.tokenBalance,
+      price: price.underlyingPrice,
+      suppliedValue,
+      borrowedValue,
+      isCollateral,
+      collateralFactor: market.collateralFactorMantissa,
+      supplyApy: apy.supplyApy,
+      borrowApy: apy.borrowApy,
+      rifiSupplyApy: apy.rifiSupplyApy,
+      rifiBorrowApy: apy.rifiBorrowApy,
+      human: {
+        supplied: toNumber(balance.balanceOfUnderlying, underlyingDecimals),
+        borrowed: toNumber(balance.borrowBalanceCurrent, underlyingDecimals),
+        walletBalance: toNumber(balance.tokenBalance, underlyingDecimals),
+        price: toNumber(price.underlyingPrice, valueDecimals + 18 - underlyingDecimals),
+        suppliedValue: toNumber(suppliedValue, valueDecimals),
+        borrowedValue: toNumber(borrowedValue, valueDecimals),
+        collateralFactor: toNumber(market.collateralFactorMantissa, 18),
+      },
+    });
+  });
+
+  const vaultPositions = await getVaults.apply(this, [ account, vaults, priceOf, options ]);
+
+  const sum = (values: BigNumber[]) => values.reduce((total, value) => total.add(value), BigNumber.from(0));
+  const suppliedValue = sum(markets.map((market) => market.suppliedValue));
+  const borrowedValue = sum(markets.map((market) => market.borrowedValue));
+  const vaultValue = sum(vaultPositions.map((vault) => vault.depositValue || BigNumber.from(0)));
+
+  // RIFI has 18 decimals, so the price mantissa is the value of one RIFI
+  const rifiValueOf = (amount: BigNumber) => rifiPrice ? amount.mul(rifiPrice.mantissa).div(EXP_SCALE) : null;
+  const rifiBalanceValue = rifiValueOf(rifi.balance);
+  const rifiAccruedValue = rifiValueOf(rifi.allocated);
+
+  const borrowUtilization = liquidity.collateralValue.isZero() ?
+    (liquidity.borrowValue.isZero() ? 0 : Infinity) :
+    +ethers.utils.formatUnits(liquidity.borrowValue.mul(EXP_SCALE).div(liquidity.collateralValue), 18);
+
+  return {
+    account,
+    blockNumber: metadata.blockNumber.toNumber(),
+    markets,
+    vaults: vaultPositions,
+    liquidity,
+    rifi: {
+      balance: rifi.balance,
+      accrued: rifi.allocated,
+      balanceValue: rifiBalanceValue,
+      accruedValue: rifiAccruedValue,
+    },
+    suppliedValue,
+    borrowedValue,
+    vaultValue,
+    netApy: netApyOf(markets),
+    borrowUtilization,
+    human: {
+      suppliedValue: toNumber(suppliedValue, valueDecimals),
+      borrowedValue: toNumber(borrowedValue, valueDecimals),
+      vaultValue: toNumber(vaultValue, valueDecimals),
+      rifiBalance: toNumber(rifi.balance, 18),
+      rifiAccrued: toNumber(rifi.allocated, 18),
+      rifiBalanceValue: rifiBalanceValue ? toNumber(rifiBalanceValue, valueDecimals) : null,
+      rifiAccruedValue: rifiAccruedValue ? toNumber(rifiAccruedValue, valueDecimals) : null,
+    },
+  };
+}
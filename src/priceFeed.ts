@@ -5,12 +5,18 @@
  */
 
 import * as eth from './eth';
-import { netId } from './helpers';
+import { netId, callOptions, NETID_PRICE_FORMULA2 } from './helpers';
+import { RifiValidationError } from './errors';
 import {
   constants, address, abi, rTokens, underlyings, decimals, opfAssets, decimalNetwork
 } from './constants';
 import { CallOptions } from './types';
 import { isNativeCoin } from './util';
+import { resolveAsset } from './markets';
+import { Amount } from './amount';
+
+// Decimals kept in price ratios until they are returned as numbers
+const PRICE_PRECISION = 36;
 
 function validateAsset(
   asset: string,
@@ -18,7 +24,7 @@ function validateAsset(
   errorPrefix: string
 ): (boolean | string | number)[] {
   if (typeof asset !== 'string' || asset.length < 1) {
-    throw Error(errorPrefix + 'Argument `' + argument + '` must be a non-empty string.');
+    throw new RifiValidationError(errorPrefix + 'Argument `' + argument + '` must be a non-empty string.');
   }
 
   const assetIsRToken = asset[0] === 'r';
@@ -33,7 +39,7 @@ function validateAsset(
     (!rTokens[this._network.name].includes(rTokenName) || !underlyings.includes(underlyingName)) &&
     !opfAssets.includes(underlyingName)
   ) {
-    throw Error(errorPrefix + 'Argument `' + argument + '` is not supported.');
+    throw new RifiValidationError(errorPrefix + 'Argument `' + argument + '` is not supported.');
   }
 
   const underlyingDecimals = decimalNetwork[this._network.name] ? decimalNetwork[this._network.name][underlyingName] : decimals[underlyingName];
@@ -47,20 +53,21 @@ function validateAsset(
 async function rTokenExchangeRate(
   rTokenAddress: string,
   rTokenName: string,
-  underlyingDecimals: number
-): Promise<number> {
+  underlyingDecimals: number,
+  options: CallOptions = {}
+): Promise<Amount> {
   const address = rTokenAddress;
   const method = 'exchangeRateCurrent';
 
   await netId(this);
   const isNative: boolean = isNativeCoin(rTokenName, this);
-  const options = {
-    _rifiProvider: this._provider,
+  const trxOptions: CallOptions = {
+    ...callOptions(this, options),
     abi: isNative ? abi.rBinance : abi.rBep20,
   };
-  const exchangeRateCurrent = await eth.read(address, method, [], options);
+  const exchangeRateCurrent = await eth.read(address, method, [], trxOptions);
   const mantissa = 18 + underlyingDecimals - 8; // rToken always 8 decimals
-  const oneRTokenInUnderlying = exchangeRateCurrent / Math.pow(10, mantissa);
+  const oneRTokenInUnderlying = Amount.fromMantissa(exchangeRateCurrent, mantissa);
 
   return oneRTokenInUnderlying;
 }
@@ -74,6 +81,8 @@ async function rTokenExchangeRate(
  *     current price.
  * @param {string} [inAsset] A string of a supported asset in which to express
  *     the `asset` parameter's price. This defaults to USD.
+ * @param {CallOptions} [options] Call options, like the `blockTag` of a past
+ *     block to read the price at.
  *
  * @returns {string} Returns a string of the numeric value of the asset.
  *
@@ -95,11 +104,17 @@ async function rTokenExchangeRate(
  */
 export async function getPrice(
   asset: string,
-  inAsset: string = constants.BUSD
+  inAsset: string = constants.BUSD,
+  options: CallOptions = {}
 ): Promise<number> {
   await netId(this);
   const errorPrefix = 'Rifi [getPrice] | ';
 
+  [ asset, inAsset ] = await Promise.all([
+    resolveAsset(this, asset),
+    resolveAsset(this, inAsset),
+  ]);
+
   const [
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     assetIsRToken, rTokenName, rTokenAddress, underlyingName, underlyingAddress, underlyingDecimals
@@ -112,55 +127,53 @@ export async function getPrice(
 
   const priceFeedAddress = address[this._network.name].PriceFeed;
   const trxOptions: CallOptions = {
-    _rifiProvider: this._provider,
+    ...callOptions(this, options),
     abi: abi.PriceFeed,
   };
 
-  const assetUnderlyingPrice = await eth.read(priceFeedAddress, 'price', [underlyingName], trxOptions);
-  const inAssetUnderlyingPrice = await eth.read(priceFeedAddress, 'price', [inAssetUnderlyingName], trxOptions);
-
-  let assetRTokensInUnderlying, inAssetRTokensInUnderlying;
-
-  if (assetIsRToken) {
-    assetRTokensInUnderlying = await rTokenExchangeRate.bind(this)(rTokenAddress, rTokenName, underlyingDecimals);
-  }
-
-  if (inAssetIsRToken) {
-    inAssetRTokensInUnderlying = await rTokenExchangeRate.bind(this)(inAssetRTokenAddress, inAssetRTokenName, inAssetUnderlyingDecimals);
-  }
-
-  let result;
+  // Issued together so the reads can share one Multicall request
+  const [
+    assetUnderlyingPrice,
+    inAssetUnderlyingPrice,
+    assetRTokensInUnderlying,
+    inAssetRTokensInUnderlying,
+  ] = await Promise.all([
+    eth.read(priceFeedAddress, 'price', [underlyingName], trxOptions),
+    eth.read(priceFeedAddress, 'price', [inAssetUnderlyingName], trxOptions),
+    assetIsRToken ?
+      rTokenExchangeRate.bind(this)(rTokenAddress, rTokenName, underlyingDecimals, options) : undefined,
+    inAssetIsRToken ?
+      rTokenExchangeRate.bind(this)(
+        inAssetRTokenAddress, inAssetRTokenName, inAssetUnderlyingDecimals, options
+      ) : undefined,
+  ]);
+
+  const assetInOther = new Amount(assetUnderlyingPrice, 0)
+    .rescale(PRICE_PRECISION)
+    .div(new Amount(inAssetUnderlyingPrice, 0), 'halfUp');
+
+  let result: Amount;
   if (!assetIsRToken && !inAssetIsRToken) {
-    result = assetUnderlyingPrice / inAssetUnderlyingPrice;
+    result = assetInOther;
   } else if (assetIsRToken && !inAssetIsRToken) {
-    const assetInOther = assetUnderlyingPrice / inAssetUnderlyingPrice;
-    result = assetInOther * assetRTokensInUnderlying;
+    result = assetInOther.mul(assetRTokensInUnderlying, 'halfUp');
   } else if (!assetIsRToken && inAssetIsRToken) {
-    const assetInOther = assetUnderlyingPrice / inAssetUnderlyingPrice;
-    result = assetInOther / inAssetRTokensInUnderlying;
+    result = assetInOther.div(inAssetRTokensInUnderlying, 'halfUp');
   } else {
-    const assetInOther = assetUnderlyingPrice / inAssetUnderlyingPrice;
-    const rTokensInUnderlying = assetInOther / assetRTokensInUnderlying;
-    result = inAssetRTokensInUnderlying * rTokensInUnderlying;
+    const rTokensInUnderlying = assetInOther.div(assetRTokensInUnderlying, 'halfUp');
+    result = inAssetRTokensInUnderlying.rescale(PRICE_PRECISION).mul(rTokensInUnderlying, 'halfUp');
   }
 
-  return result;
+  return result.toNumber();
 }
 
-const NETID_PRICE_FORMULA2 = [
-  81,
-  592,
-  5,
-  80001,
-  1,
-  137
-];
-
 export async function getUnderlyingPrice(
-  asset: string
+  asset: string,
+  options: CallOptions = {}
 ): Promise<number> {
   await netId(this);
   const errorPrefix = 'Rifi [getUnderlyingPrice] | ';
+  asset = await resolveAsset(this, asset);
 
   const [
     , , rTokenAddress, , , underlyingDecimals
@@ -168,15 +181,15 @@ export async function getUnderlyingPrice(
 
   const priceFeedAddress = address[this._network.name].PriceFeed;
   const trxOptions: CallOptions = {
-    _rifiProvider: this._provider,
+    ...callOptions(this, options),
     abi: abi.PriceFeed,
   };
 
   const assetUnderlyingPrice = await eth.read(priceFeedAddress, 'getUnderlyingPrice', [rTokenAddress], trxOptions);
 
   if (NETID_PRICE_FORMULA2.indexOf(this._network.id) > -1) {
-    return assetUnderlyingPrice / (10 ** (26 - underlyingDecimals));
+    return Amount.fromMantissa(assetUnderlyingPrice, 26 - underlyingDecimals).toNumber();
   }
 
-  return assetUnderlyingPrice * 10 ** -parseInt(underlyingDecimals);
+  return Amount.fromMantissa(assetUnderlyingPrice, +underlyingDecimals).toNumber();
 }
@@ -4,26 +4,33 @@
  *     contracts.
  */
 
-import { ethers } from "ethers";
+import { ethers, BigNumber } from "ethers";
 import * as eth from "./eth";
-import { netId } from "./helpers";
+import { netId, callOptions, decimalsOf } from "./helpers";
+import { RifiValidationError } from "./errors";
 import {
   address,
   abi,
-  decimals,
   underlyings,
-  rTokens,
-  decimalNetwork
+  rTokens
 } from "./constants";
-import { BigNumber } from "@ethersproject/bignumber/lib/bignumber";
-import { CallOptions, TrxResponse } from "./types";
-import { parseUnits, isNativeCoin } from "./util";
+import {
+  AmountLike,
+  CallOptions,
+  SimulateOptions,
+  SimulationResult,
+  TrxHandle,
+} from "./types";
+import { isNativeCoin } from "./util";
+import { Amount, toMantissa } from "./amount";
+import { resolveAsset } from "./markets";
+import { insufficientAllowance } from "./simulate";
 
 /**
  * Supplies the user's Ethereum asset to the Rifi Protocol.
  *
  * @param {string} asset A string of the asset to supply.
- * @param {number | string | BigNumber} amount A string, number, or BigNumber
+ * @param {AmountLike} amount A string, number, bigint, BigNumber or Amount
  *     object of the amount of an asset to supply. Use the `mantissa` boolean in
  *     the `options` parameter to indicate if this value is scaled up (so there
  *     are no decimals) or in its natural scale.
@@ -53,39 +60,42 @@ import { parseUnits, isNativeCoin } from "./util";
  * })().catch(console.error);
  * ```
  */
+export function supply(
+  asset: string,
+  amount: AmountLike,
+  noApprove: boolean,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function supply(
+  asset: string,
+  amount: AmountLike,
+  noApprove?: boolean,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function supply(
   asset: string,
-  amount: string | number | BigNumber,
+  amount: AmountLike,
   noApprove = false,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const errorPrefix = "Rifi [supply] | ";
+  asset = await resolveAsset(this, asset, true);
 
   const rTokenName = "r" + asset;
   const rTokenAddress = address[this._network.name][rTokenName];
 
   if (!rTokenAddress || !underlyings.includes(asset)) {
-    throw Error(errorPrefix + "Argument `asset` cannot be supplied.");
+    throw new RifiValidationError(errorPrefix + "Argument `asset` cannot be supplied.");
   }
 
-  if (
-    typeof amount !== "number" &&
-    typeof amount !== "string" &&
-    !ethers.BigNumber.isBigNumber(amount)
-  ) {
-    throw Error(
+  if (!Amount.isAmountLike(amount)) {
+    throw new RifiValidationError(
       errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
     );
   }
 
-  if (!options.mantissa) {
-    amount = +amount;
-    // amount = amount * Math.pow(10, decimals[asset]);
-    amount = parseUnits(amount, decimals[asset]);
-  }
-
-  amount = ethers.BigNumber.from(amount.toString());
+  amount = toMantissa(amount, decimalsOf(this._network.name, asset), options.mantissa);
 
   const isNative: boolean = isNativeCoin(rTokenName, this);
 
@@ -115,6 +125,11 @@ export async function supply(
 
     const notEnough = allowance.lt(amount);
 
+    // A simulated approve would not carry over to the simulated mint
+    if (notEnough && options.simulate) {
+      return insufficientAllowance(userAddress, rTokenAddress, "mint", amount, allowance);
+    }
+
     if (notEnough) {
       // ERC-20 approve transaction
       await eth.trx(
@@ -140,7 +155,7 @@ export async function supply(
  * Redeems the user's Ethereum asset from the Rifi Protocol.
  *
  * @param {string} asset A string of the asset to redeem, or its rToken name.
- * @param {number | string | BigNumber} amount A string, number, or BigNumber
+ * @param {AmountLike} amount A string, number, bigint, BigNumber or Amount
  *     object of the amount of an asset to redeem. Use the `mantissa` boolean in
  *     the `options` parameter to indicate if this value is scaled up (so there
  *     are no decimals) or in its natural scale. This can be an amount of
@@ -165,16 +180,27 @@ export async function supply(
  * })().catch(console.error);
  * ```
  */
+export function redeem(
+  asset: string,
+  amount: AmountLike,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function redeem(
+  asset: string,
+  amount: AmountLike,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function redeem(
   asset: string,
-  amount: string | number | BigNumber,
+  amount: AmountLike,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const errorPrefix = "Rifi [redeem] | ";
+  asset = await resolveAsset(this, asset);
 
   if (typeof asset !== "string" || asset.length < 1) {
-    throw Error(errorPrefix + "Argument `asset` must be a non-empty string.");
+    throw new RifiValidationError(errorPrefix + "Argument `asset` must be a non-empty string.");
   }
 
   const assetIsRToken = asset[0] === "r";
@@ -185,26 +211,16 @@ export async function redeem(
   const underlyingName = assetIsRToken ? asset.slice(1, asset.length) : asset;
 
   if (!rTokens[this._network.name].includes(rTokenName) || !underlyings.includes(underlyingName)) {
-    throw Error(errorPrefix + 'Argument `asset` is not supported.');
+    throw new RifiValidationError(errorPrefix + 'Argument `asset` is not supported.');
   }
 
-  if (
-    typeof amount !== "number" &&
-    typeof amount !== "string" &&
-    !ethers.BigNumber.isBigNumber(amount)
-  ) {
-    throw Error(
+  if (!Amount.isAmountLike(amount)) {
+    throw new RifiValidationError(
       errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
     );
   }
 
-  if (!options.mantissa) {
-    amount = +amount;
-    // amount = amount * Math.pow(10, decimals[asset]);
-    amount = parseUnits(amount, decimals[asset]);
-  }
-
-  amount = ethers.BigNumber.from(amount.toString());
+  amount = toMantissa(amount, decimalsOf(this._network.name, asset), options.mantissa);
 
   const isNative: boolean = isNativeCoin(rTokenName, this);
 
@@ -226,7 +242,7 @@ export async function redeem(
  *
  * @param {string} asset A string of the asset to borrow (must be a supported
  *     underlying asset).
- * @param {number | string | BigNumber} amount A string, number, or BigNumber
+ * @param {AmountLike} amount A string, number, bigint, BigNumber or Amount
  *     object of the amount of an asset to borrow. Use the `mantissa` boolean in
  *     the `options` parameter to indicate if this value is scaled up (so there
  *     are no decimals) or in its natural scale.
@@ -254,40 +270,39 @@ export async function redeem(
  * })().catch(console.error);
  * ```
  */
+export function borrow(
+  asset: string,
+  amount: AmountLike,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function borrow(
+  asset: string,
+  amount: AmountLike,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function borrow(
   asset: string,
-  amount: string | number | BigNumber,
+  amount: AmountLike,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const errorPrefix = "Rifi [borrow] | ";
+  asset = await resolveAsset(this, asset, true);
 
   const rTokenName = "r" + asset;
   const rTokenAddress = address[this._network.name][rTokenName];
 
   if (!rTokenAddress || !underlyings.includes(asset)) {
-    throw Error(errorPrefix + "Argument `asset` cannot be borrowed.");
+    throw new RifiValidationError(errorPrefix + "Argument `asset` cannot be borrowed.");
   }
 
-  if (
-    typeof amount !== "number" &&
-    typeof amount !== "string" &&
-    !ethers.BigNumber.isBigNumber(amount)
-  ) {
-    throw Error(
+  if (!Amount.isAmountLike(amount)) {
+    throw new RifiValidationError(
       errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
     );
   }
 
-  if (!options.mantissa) {
-    amount = +amount;
-    // amount = amount * Math.pow(10, decimals[asset]);
-    const decimal = decimalNetwork[this._network.name] ? decimalNetwork[this._network.name][asset] : 
-    (decimals[asset] || 18);
-    amount = parseUnits(amount, decimal);
-  }
-
-  amount = ethers.BigNumber.from(amount.toString());
+  amount = toMantissa(amount, decimalsOf(this._network.name, asset), options.mantissa);
 
   console.log('amount ==== ', amount)
 
@@ -309,7 +324,7 @@ export async function borrow(
  *
  * @param {string} asset A string of the asset that was borrowed (must be a
  *     supported underlying asset).
- * @param {number | string | BigNumber} amount A string, number, or BigNumber
+ * @param {AmountLike} amount A string, number, bigint, BigNumber or Amount
  *     object of the amount of an asset to borrow. Use the `mantissa` boolean in
  *     the `options` parameter to indicate if this value is scaled up (so there
  *     are no decimals) or in its natural scale.
@@ -342,31 +357,42 @@ export async function borrow(
  * })().catch(console.error);
  * ```
  */
+export function repayBorrow(
+  asset: string,
+  amount: AmountLike,
+  borrower: string,
+  noApprove: boolean,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function repayBorrow(
+  asset: string,
+  amount: AmountLike,
+  borrower: string,
+  noApprove?: boolean,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function repayBorrow(
   asset: string,
-  amount: string | number | BigNumber,
+  amount: AmountLike,
   borrower: string,
   noApprove = false,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const errorPrefix = "Rifi [repayBorrow] | ";
+  asset = await resolveAsset(this, asset, true);
 
   const rTokenName = "r" + asset;
   const rTokenAddress = address[this._network.name][rTokenName];
 
   if (!rTokenAddress || !underlyings.includes(asset)) {
-    throw Error(errorPrefix + "Argument `asset` is not supported.");
+    throw new RifiValidationError(errorPrefix + "Argument `asset` is not supported.");
   }
 
   let contractAddress = rTokenAddress;
 
-  if (
-    typeof amount !== "number" &&
-    typeof amount !== "string" &&
-    !ethers.BigNumber.isBigNumber(amount)
-  ) {
-    throw Error(
+  if (!Amount.isAmountLike(amount)) {
+    throw new RifiValidationError(
       errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
     );
   }
@@ -375,14 +401,10 @@ export async function repayBorrow(
     ? "repayBorrowBehalf"
     : "repayBorrow";
   if (borrower && method === "repayBorrow") {
-    throw Error(errorPrefix + "Invalid `borrower` address.");
+    throw new RifiValidationError(errorPrefix + "Invalid `borrower` address.");
   }
 
-  if (!options.mantissa) {
-    amount = +amount;
-    // amount = amount * Math.pow(10, decimals[asset]);
-    amount = parseUnits(amount, decimals[asset]);
-  }
+  amount = toMantissa(amount, decimalsOf(this._network.name, asset), options.mantissa);
 
   const isNative: boolean = isNativeCoin(rTokenName, this);
 
@@ -414,7 +436,11 @@ export async function repayBorrow(
 
   if (!isNative && noApprove !== true) {
     const underlyingAddress = address[this._network.name][asset];
-    const userAddress = this._provider.address;
+    let userAddress = this._provider.address;
+
+    if (!userAddress && this._provider.getAddress) {
+      userAddress = await this._provider.getAddress();
+    }
 
     // Check allowance
     const allowance = await eth.read(
@@ -426,6 +452,11 @@ export async function repayBorrow(
 
     const notEnough = allowance.lt(amount);
 
+    // A simulated approve would not carry over to the simulated repayment
+    if (notEnough && options.simulate) {
+      return insufficientAllowance(userAddress, rTokenAddress, method, amount, allowance);
+    }
+
     if (notEnough) {
       // ERC-20 approve transaction
       await eth.trx(
@@ -454,7 +485,7 @@ const READ_FUNCTIONS = [
  * Supplies the user's Ethereum asset to the Rifi Protocol.
  *
  * @param {string} asset A string of the asset to supply.
- * @param {number | string | BigNumber} amount A string, number, or BigNumber
+ * @param {AmountLike} amount A string, number, bigint, BigNumber or Amount
  *     object of the amount of an asset to supply. Use the `mantissa` boolean in
  *     the `options` parameter to indicate if this value is scaled up (so there
  *     are no decimals) or in its natural scale.
@@ -490,11 +521,11 @@ export async function tokenRead(
   rTokenName: string,
   parameters = [],
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<BigNumber> {
   const errorPrefix = "Rifi [tokenRead] | ";
 
   if (READ_FUNCTIONS.indexOf(func) === -1) {
-    throw Error(`${errorPrefix}Invalid function name.`);
+    throw new RifiValidationError(`${errorPrefix}Invalid function name.`);
   }
 
   await netId(this);
@@ -502,7 +533,7 @@ export async function tokenRead(
   const rTokenAddress = address[this._network.name][rTokenName];
 
   if (!rTokenAddress || rTokenName[0] !== "r") {
-    throw Error(`${errorPrefix}Cannot call ${func} on "${rTokenName}".`);
+    throw new RifiValidationError(`${errorPrefix}Cannot call ${func} on "${rTokenName}".`);
   }
 
   const isNative: boolean = isNativeCoin(rTokenName, this);
@@ -513,23 +544,21 @@ export async function tokenRead(
     options.abi = abi.rBep20;
   }
 
-  options._rifiProvider = this._provider;
-
-  return eth.trx(rTokenAddress, func, parameters, options);
+  return eth.trx(rTokenAddress, func, parameters, callOptions(this, options));
 }
 
 export async function getBalanceOf(
   rTokenName: string,
   accountAddr: string,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<BigNumber> {
   await netId(this);
   const errorPrefix = "Rifi [getBalanceOf] | ";
 
   const rTokenAddress = address[this._network.name][rTokenName];
 
   if (!rTokenAddress || rTokenName[0] !== "r") {
-    throw Error(`${errorPrefix}Cannot get balance on "${rTokenName}".`);
+    throw new RifiValidationError(`${errorPrefix}Cannot get balance on "${rTokenName}".`);
   }
 
   const isNative: boolean = isNativeCoin(rTokenName, this);
@@ -540,23 +569,21 @@ export async function getBalanceOf(
     options.abi = abi.rBep20;
   }
 
-  options._rifiProvider = this._provider;
-
-  return eth.trx(rTokenAddress, "balanceOf", [accountAddr], options);
+  return eth.trx(rTokenAddress, "balanceOf", [accountAddr], callOptions(this, options));
 }
 
 export async function getBorrowBalanceOf(
   rTokenName: string,
   accountAddr: string,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<BigNumber> {
   await netId(this);
   const errorPrefix = "Rifi [getBalanceOf] | ";
 
   const rTokenAddress = address[this._network.name][rTokenName];
 
   if (!rTokenAddress || rTokenName[0] !== "r") {
-    throw Error(`${errorPrefix}Cannot get balance on "${rTokenName}".`);
+    throw new RifiValidationError(`${errorPrefix}Cannot get balance on "${rTokenName}".`);
   }
 
   const isNative: boolean = isNativeCoin(rTokenName, this);
@@ -567,18 +594,30 @@ export async function getBorrowBalanceOf(
     options.abi = abi.rBep20;
   }
 
-  options._rifiProvider = this._provider;
-
-  return eth.trx(rTokenAddress, "borrowBalanceStored", [accountAddr], options);
+  return eth.trx(rTokenAddress, "borrowBalanceStored", [accountAddr], callOptions(this, options));
 }
 
+export function liquidateBorrow(
+  borrower: string,
+  amount: AmountLike,
+  tokenRepay: string,
+  tokenCollateral: string,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function liquidateBorrow(
+  borrower: string,
+  amount: AmountLike,
+  tokenRepay: string,
+  tokenCollateral: string,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function liquidateBorrow(
   borrower: string,
-  amount: string | number | BigNumber,
+  amount: AmountLike,
   tokenRepay: string,
   tokenCollateral: string,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const errorPrefix = "Rifi [liquidateBorrow] | ";
 
@@ -594,25 +633,16 @@ export async function liquidateBorrow(
     !rTokenCollateralAddress ||
     !underlyings.includes(tokenCollateral)
   ) {
-    throw Error(errorPrefix + "Argument `asset` is not supported.");
+    throw new RifiValidationError(errorPrefix + "Argument `asset` is not supported.");
   }
 
-  if (
-    typeof amount !== "number" &&
-    typeof amount !== "string" &&
-    !ethers.BigNumber.isBigNumber(amount)
-  ) {
-    throw Error(
+  if (!Amount.isAmountLike(amount)) {
+    throw new RifiValidationError(
       errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
     );
   }
 
-  if (!options.mantissa) {
-    amount = +amount;
-    amount = parseUnits(amount, decimals[tokenRepay]);
-  }
-
-  amount = ethers.BigNumber.from(amount.toString());
+  amount = toMantissa(amount, decimalsOf(this._network.name, tokenRepay), options.mantissa);
   const trxOptions: CallOptions = {
     ...options,
     _rifiProvider: this._provider,
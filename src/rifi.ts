@@ -4,19 +4,23 @@
  *     contract.
  */
 
-import { ethers, BigNumber } from 'ethers';
+import { ethers } from 'ethers';
 import * as eth from './eth';
 import { netId } from './helpers';
+import { RifiValidationError } from './errors';
 import { address, abi } from './constants';
 import { sign } from './EIP712';
 import {
   CallOptions,
-  TrxResponse,
+  SimulateOptions,
+  SimulationResult,
+  TrxHandle,
   Signature,
   EIP712Domain,
   DelegateTypes,
   DelegateSignatureMessage,
   Provider,
+  RifiBalanceMetadataExt,
 } from './types';
 
 const keccak256 = ethers.utils.keccak256;
@@ -56,6 +60,8 @@ function toChecksumAddress(_address) {
  * @param {string} _address The address in which to find the RIFI balance.
  * @param {Provider | string} [_provider] An Ethers.js provider or valid network
  *     name string.
+ * @param {CallOptions} [options] Call options, like the `blockTag` of a past
+ *     block to read at.
  *
  * @returns {string} Returns a string of the numeric balance of RIFI. The value
  *     is scaled up by 18 decimal places.
@@ -71,7 +77,8 @@ function toChecksumAddress(_address) {
  */
 export async function getRifiBalance(
   _address: string,
-  _provider: Provider | string = 'mainnet'
+  _provider: Provider | string = 'mainnet',
+  options: CallOptions = {}
 ): Promise<string> {
   const provider = await eth._createProvider({ provider: _provider });
   const net = await eth.getProviderNetwork(provider);
@@ -79,18 +86,19 @@ export async function getRifiBalance(
   const errorPrefix = 'Rifi [getRifiBalance] | ';
 
   if (typeof _address !== 'string') {
-    throw Error(errorPrefix + 'Argument `_address` must be a string.');
+    throw new RifiValidationError(errorPrefix + 'Argument `_address` must be a string.');
   }
 
   try {
     _address = toChecksumAddress(_address);
   } catch (e) {
-    throw Error(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
+    throw new RifiValidationError(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
   }
 
   const rifiAddress = address[net.name].RIFI;
   const parameters = [_address];
   const trxOptions: CallOptions = {
+    ...options,
     _rifiProvider: provider,
     abi: abi.RIFI,
   };
@@ -99,19 +107,14 @@ export async function getRifiBalance(
   return result.toString();
 }
 
-interface RifiBalanceMetadataExt {
-  balance: BigNumber;
-  votes: BigNumber;
-  delegate: string;
-  allocated: BigNumber;
-}
-
 /**
  * Get the amount of RIFI tokens accrued but not yet claimed by an address.
  *
  * @param {string} _address The address in which to find the RIFI accrued.
  * @param {Provider | string} [_provider] An Ethers.js provider or valid network
  *     name string.
+ * @param {CallOptions} [options] Call options, like the `blockTag` of a past
+ *     block to read at.
  *
  * @returns {string} Returns a string of the numeric accruement of RIFI. The
  *     value is scaled up by 18 decimal places.
@@ -127,7 +130,8 @@ interface RifiBalanceMetadataExt {
  */
 export async function getRifiAccrued(
   _address: string,
-  _provider: Provider | string = 'mainnet'
+  _provider: Provider | string = 'mainnet',
+  options: CallOptions = {}
 ): Promise<RifiBalanceMetadataExt> {
   const provider = await eth._createProvider({ provider: _provider });
   const net = await eth.getProviderNetwork(provider);
@@ -135,13 +139,13 @@ export async function getRifiAccrued(
   const errorPrefix = 'Rifi [getRifiAccrued] | ';
 
   if (typeof _address !== 'string') {
-    throw Error(errorPrefix + 'Argument `_address` must be a string.');
+    throw new RifiValidationError(errorPrefix + 'Argument `_address` must be a string.');
   }
 
   try {
     _address = toChecksumAddress(_address);
   } catch (e) {
-    throw Error(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
+    throw new RifiValidationError(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
   }
 
   const lensAddress = address[net.name].RifiLens;
@@ -149,6 +153,7 @@ export async function getRifiAccrued(
   const cointrollerAddress = address[net.name].Cointroller;
   const parameters = [rifiAddress, cointrollerAddress, _address];
   const trxOptions: CallOptions = {
+    ...options,
     _rifiProvider: provider,
     abi: abi.RifiLens,
   };
@@ -179,9 +184,15 @@ export async function getRifiAccrued(
  * })().catch(console.error);
  * ```
  */
+export function claimRifi(
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function claimRifi(
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function claimRifi(
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
 
   try {
@@ -232,22 +243,30 @@ export async function claimRifi(
  * })().catch(console.error);
  * ```
  */
+export function delegate(
+  _address: string,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function delegate(
+  _address: string,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function delegate(
   _address: string,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
 
   const errorPrefix = 'Rifi [delegate] | ';
 
   if (typeof _address !== 'string') {
-    throw Error(errorPrefix + 'Argument `_address` must be a string.');
+    throw new RifiValidationError(errorPrefix + 'Argument `_address` must be a string.');
   }
 
   try {
     _address = toChecksumAddress(_address);
   } catch (e) {
-    throw Error(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
+    throw new RifiValidationError(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
   }
 
   const rifiAddress = address[this._network.name].RIFI;
@@ -300,33 +319,47 @@ export async function delegate(
  * })().catch(console.error);
  * ```
  */
+export function delegateBySig(
+  _address: string,
+  nonce: number,
+  expiry: number,
+  signature: Signature,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function delegateBySig(
+  _address: string,
+  nonce: number,
+  expiry: number,
+  signature?: Signature,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function delegateBySig(
   _address: string,
   nonce: number,
   expiry: number,
   signature: Signature = { v: '', r: '', s: '' },
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
 
   const errorPrefix = 'Rifi [delegateBySig] | ';
 
   if (typeof _address !== 'string') {
-    throw Error(errorPrefix + 'Argument `_address` must be a string.');
+    throw new RifiValidationError(errorPrefix + 'Argument `_address` must be a string.');
   }
 
   try {
     _address = toChecksumAddress(_address);
   } catch (e) {
-    throw Error(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
+    throw new RifiValidationError(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
   }
 
   if (typeof nonce !== 'number') {
-    throw Error(errorPrefix + 'Argument `nonce` must be an integer.');
+    throw new RifiValidationError(errorPrefix + 'Argument `nonce` must be an integer.');
   }
 
   if (typeof expiry !== 'number') {
-    throw Error(errorPrefix + 'Argument `expiry` must be an integer.');
+    throw new RifiValidationError(errorPrefix + 'Argument `expiry` must be an integer.');
   }
 
   if (
@@ -335,7 +368,7 @@ export async function delegateBySig(
     !signature.r ||
     !signature.s
   ) {
-    throw Error(errorPrefix + 'Argument `signature` must be an object that ' +
+    throw new RifiValidationError(errorPrefix + 'Argument `signature` must be an object that ' +
       'contains the v, r, and s pieces of an EIP-712 signature.');
   }
 
@@ -0,0 +1,388 @@
+/**
+ * @file Signer
+ * @desc These methods let a server-side signer send many transactions at
+ *     once, allocating nonces locally instead of asking the node each time.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import { Deferrable } from '@ethersproject/properties';
+import {
+  TransactionRequest,
+  TransactionResponse,
+  Provider as EthersProvider,
+} from '@ethersproject/abstract-provider';
+import { netId } from './helpers';
+import { RifiValidationError } from './errors';
+import { createTrxHandle } from './transaction';
+import {
+  PendingTransaction,
+  ReplacementOptions,
+  TrxHandle,
+} from './types';
+
+// Nodes only accept a replacement paying at least 10% more
+const DEFAULT_BUMP = 1.125;
+
+function isNonceError(error): boolean {
+  const message = (error && (error.message || '') + ' ' + ((error.error && error.error.message) || '')) || '';
+
+  return error && (
+    error.code === ethers.utils.Logger.errors.NONCE_EXPIRED ||
+    /nonce too low|nonce has already been used|invalid nonce/i.test(message)
+  );
+}
+
+function bump(value: BigNumber, factor: number): BigNumber {
+  return value.mul(Math.round(factor * 10000)).div(10000);
+}
+
+/**
+ * An Ethers.js signer that allocates nonces locally, so concurrent
+ *     transactions of one account do not collide. Every sent transaction is
+ *     kept until it is mined, so it can be re-broadcast if the node drops it,
+ *     or replaced to speed it up or cancel it.
+ */
+export class NonceManagedSigner extends ethers.Signer {
+  readonly signer: ethers.Signer;
+  readonly provider: EthersProvider;
+
+  private nextNonce: Promise<number> | null = null;
+  // Nonces allocated to transactions that were never broadcast
+  private releasedNonces: number[] = [];
+  private pending = new Map<number, PendingTransaction>();
+
+  constructor(signer: ethers.Signer) {
+    super();
+    ethers.utils.defineReadOnly(this, 'signer', signer);
+    ethers.utils.defineReadOnly(this, 'provider', signer.provider);
+  }
+
+  getAddress(): Promise<string> {
+    return this.signer.getAddress();
+  }
+
+  signMessage(message: string | ethers.utils.Bytes): Promise<string> {
+    return this.signer.signMessage(message);
+  }
+
+  signTransaction(transaction: Deferrable<TransactionRequest>): Promise<string> {
+    return this.signer.signTransaction(transaction);
+  }
+
+  connect(provider: EthersProvider): NonceManagedSigner {
+    return new NonceManagedSigner(this.signer.connect(provider));
+  }
+
+  /**
+   * Allocates the next nonce. Released nonces are reused first, so a failed
+   *     transaction leaves no gap. The first allocation, and the first one
+   *     after a resync, starts from the account's pending transaction count.
+   *
+   * @hidden
+   */
+  private allocateNonce(): Promise<number> {
+    if (this.releasedNonces.length) {
+      return Promise.resolve(this.releasedNonces.shift());
+    }
+
+    if (!this.nextNonce) {
+      this.nextNonce = this.signer.getTransactionCount('pending');
+    }
+
+    const nonce = this.nextNonce;
+    this.nextNonce = nonce.then((n) => n + 1);
+
+    return nonce;
+  }
+
+  private releaseNonce(nonce: number): void {
+    this.releasedNonces = [ ...this.releasedNonces, nonce ].sort((a, b) => a - b);
+  }
+
+  private async broadcast(
+    request: TransactionRequest,
+    replaced?: PendingTransaction
+  ): Promise<TransactionResponse> {
+    const populated = await this.signer.populateTransaction(request);
+    const signed = await this.signer.signTransaction(populated);
+    const response = await this.provider.sendTransaction(signed);
+
+    this.pending.set(response.nonce, {
+      nonce: response.nonce,
+      hash: response.hash,
+      request: populated,
+      signed,
+      replaces: replaced ? [ ...replaced.replaces, replaced.hash ] : [],
+    });
+
+    return response;
+  }
+
+  /**
+   * Sends a transaction with a locally allocated nonce. A transaction that
+   *     passes its own `nonce` keeps it. If the node rejects the nonce, the
+   *     nonces are synced with the node and the transaction is sent once
+   *     more.
+   *
+   * @param {TransactionRequest} transaction The transaction to send.
+   *
+   * @returns {Promise<TransactionResponse>} Returns the Ethers.js response.
+   */
+  async sendTransaction(
+    transaction: Deferrable<TransactionRequest>
+  ): Promise<TransactionResponse> {
+    const request = await ethers.utils.resolveProperties(transaction);
+
+    if (request.nonce !== undefined && request.nonce !== null) {
+      return this.broadcast(request);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const nonce = await this.allocateNonce();
+
+      try {
+        return await this.broadcast({ ...request, nonce });
+      } catch (error) {
+        if (isNonceError(error) && attempt === 0) {
+          this.resync();
+          continue;
+        }
+
+        if (!isNonceError(error)) {
+          this.releaseNonce(nonce);
+        }
+
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Forgets the locally allocated nonces, the next transaction starts again
+   *     from the account's pending transaction count.
+   */
+  resync(): void {
+    this.nextNonce = null;
+    this.releasedNonces = [];
+  }
+
+  /**
+   * Lists the transactions sent by this signer that are not mined yet.
+   *
+   * @returns {Promise<PendingTransaction[]>} Returns the pending transactions,
+   *     ordered by nonce.
+   */
+  async getPendingTransactions(): Promise<PendingTransaction[]> {
+    const mined = await this.signer.getTransactionCount('latest');
+
+    this.pending.forEach((transaction, nonce) => {
+      if (nonce < mined) {
+        this.pending.delete(nonce);
+      }
+    });
+
+    return Array.from(this.pending.values()).sort((a, b) => a.nonce - b.nonce);
+  }
+
+  /**
+   * Re-broadcasts the pending transactions the node no longer knows, for
+   *     example after it dropped them from its mempool. Transactions whose
+   *     nonce was used by another transaction are forgotten.
+   *
+   * @returns {Promise<number[]>} Returns the nonces that were re-broadcast.
+   */
+  async recover(): Promise<number[]> {
+    const rebroadcast = [];
+
+    for (const transaction of await this.getPendingTransactions()) {
+      const known = await this.provider.getTransaction(transaction.hash);
+      if (known) {
+        continue;
+      }
+
+      try {
+        await this.provider.sendTransaction(transaction.signed);
+        rebroadcast.push(transaction.nonce);
+      } catch (error) {
+        if (isNonceError(error)) {
+          this.pending.delete(transaction.nonce);
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    this.resync();
+    return rebroadcast;
+  }
+
+  /**
+   * Replaces the pending transaction of a nonce with the same transaction at
+   *     higher fees.
+   *
+   * @param {number} nonce The nonce of the pending transaction.
+   * @param {ReplacementOptions} [options] `factor` multiplies the fees
+   *     (defaults to 1.125), or explicit `gasPrice` or `maxFeePerGas` and
+   *     `maxPriorityFeePerGas` set them.
+   *
+   * @returns {Promise<TransactionResponse>} Returns the Ethers.js response of
+   *     the replacement.
+   */
+  speedUp(nonce: number, options: ReplacementOptions = {}): Promise<TransactionResponse> {
+    const transaction = this.getPending(nonce);
+    return this.broadcast(this.replacementFees(transaction.request, options), transaction);
+  }
+
+  /**
+   * Replaces the pending transaction of a nonce with an empty transfer to
+   *     the signer itself, at higher fees, so the original never executes.
+   *
+   * @param {number} nonce The nonce of the pending transaction.
+   * @param {ReplacementOptions} [options] The fee options, as in `speedUp`.
+   *
+   * @returns {Promise<TransactionResponse>} Returns the Ethers.js response of
+   *     the cancellation.
+   */
+  async cancel(nonce: number, options: ReplacementOptions = {}): Promise<TransactionResponse> {
+    const transaction = this.getPending(nonce);
+    const request = this.replacementFees(transaction.request, options);
+
+    return this.broadcast({
+      ...request,
+      to: await this.getAddress(),
+      data: '0x',
+      value: 0,
+      gasLimit: 21000,
+    }, transaction);
+  }
+
+  private getPending(nonce: number): PendingTransaction {
+    const transaction = this.pending.get(nonce);
+
+    if (!transaction) {
+      throw new RifiValidationError(
+        'Rifi [NonceManagedSigner] | No pending transaction with nonce ' + nonce + '.'
+      );
+    }
+
+    return transaction;
+  }
+
+  private replacementFees(
+    request: TransactionRequest,
+    options: ReplacementOptions
+  ): TransactionRequest {
+    const factor = options.factor || DEFAULT_BUMP;
+    const replacement = { ...request };
+
+    if (request.type === 2 || request.maxFeePerGas) {
+      replacement.maxFeePerGas = options.maxFeePerGas !== undefined ?
+        options.maxFeePerGas : bump(BigNumber.from(request.maxFeePerGas), factor);
+      replacement.maxPriorityFeePerGas = options.maxPriorityFeePerGas !== undefined ?
+        options.maxPriorityFeePerGas : bump(BigNumber.from(request.maxPriorityFeePerGas), factor);
+    } else {
+      replacement.gasPrice = options.gasPrice !== undefined ?
+        options.gasPrice : bump(BigNumber.from(request.gasPrice), factor);
+    }
+
+    return replacement;
+  }
+}
+
+function getNonceManager(_rifi): NonceManagedSigner {
+  if (!(_rifi._provider instanceof NonceManagedSigner)) {
+    throw new RifiValidationError(
+      'Rifi [signer] | Create the instance with `nonceManager: true` to manage nonces.'
+    );
+  }
+
+  return _rifi._provider;
+}
+
+/**
+ * Speeds up a pending transaction of the instance's signer by replacing it
+ *     with the same transaction at higher fees. The instance must be created
+ *     with the `nonceManager` option.
+ *
+ * @param {number} nonce The nonce of the pending transaction.
+ * @param {ReplacementOptions} [options] `factor` multiplies the fees
+ *     (defaults to 1.125), or explicit `gasPrice` or `maxFeePerGas` and
+ *     `maxPriorityFeePerGas` set them.
+ *
+ * @returns {TrxHandle} Returns the handle of the replacement transaction.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi(url, { privateKey, nonceManager: true });
+ *
+ * (async function() {
+ *   const trx = await rifi.supply(Rifi.ETH, 1);
+ *   const faster = await rifi.speedUpTransaction(trx.nonce, { factor: 1.5 });
+ *   await faster.wait(1);
+ * })().catch(console.error);
+ * ```
+ */
+export async function speedUpTransaction(
+  nonce: number,
+  options: ReplacementOptions = {}
+): Promise<TrxHandle> {
+  await netId(this);
+  const signer = getNonceManager(this);
+
+  return createTrxHandle(await signer.speedUp(nonce, options), this._provider);
+}
+
+/**
+ * Cancels a pending transaction of the instance's signer by replacing it with
+ *     an empty transfer to itself. The instance must be created with the
+ *     `nonceManager` option.
+ *
+ * @param {number} nonce The nonce of the pending transaction.
+ * @param {ReplacementOptions} [options] The fee options, as in
+ *     `speedUpTransaction`.
+ *
+ * @returns {TrxHandle} Returns the handle of the cancelling transaction.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi(url, { privateKey, nonceManager: true });
+ *
+ * (async function() {
+ *   const trx = await rifi.claimRifi();
+ *   await rifi.cancelTransaction(trx.nonce);
+ * })().catch(console.error);
+ * ```
+ */
+export async function cancelTransaction(
+  nonce: number,
+  options: ReplacementOptions = {}
+): Promise<TrxHandle> {
+  await netId(this);
+  const signer = getNonceManager(this);
+
+  return createTrxHandle(await signer.cancel(nonce, options), this._provider);
+}
+
+/**
+ * Lists the transactions of the instance's signer that are not mined yet.
+ *     The instance must be created with the `nonceManager` option.
+ *
+ * @returns {PendingTransaction[]} Returns the pending transactions, ordered by
+ *     nonce.
+ */
+export async function getPendingTransactions(): Promise<PendingTransaction[]> {
+  return getNonceManager(this).getPendingTransactions();
+}
+
+/**
+ * Re-broadcasts the transactions of the instance's signer that the node
+ *     dropped and re-syncs the local nonces. The instance must be created
+ *     with the `nonceManager` option.
+ *
+ * @returns {number[]} Returns the nonces that were re-broadcast.
+ */
+export async function recoverTransactions(): Promise<number[]> {
+  return getNonceManager(this).recover();
+}
@@ -0,0 +1,202 @@
+/**
+ * @file Simulate
+ * @desc These methods dry-run a transaction with `eth_call` and describe how
+ *     it would end, without sending it.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import { getNetNameWithChainId } from './util';
+import {
+  RifiRevertError,
+  RifiProtocolFailure,
+  getErrorTableName,
+  decodeFailure,
+  decodeFailureLogs,
+  describeFailure,
+  getRevertReason,
+} from './errors';
+import { Provider, SimulationError, SimulationResult } from './types';
+
+// Returns the first non-zero code of a `uint` or `uint[]` return value
+function getReturnCode(fragment: ethers.utils.FunctionFragment, result): number {
+  if (fragment.outputs.length !== 1) {
+    return 0;
+  }
+
+  const type = fragment.outputs[0].type;
+  if (type === 'uint256') {
+    return result.toNumber();
+  } else if (type === 'uint256[]') {
+    const code = result.find((value) => !value.isZero());
+    return code ? code.toNumber() : 0;
+  }
+
+  return 0;
+}
+
+// Tags an error with the `type` that simulation errors had before
+function simulationError(error: RifiRevertError | RifiProtocolFailure): SimulationError {
+  const type: 'revert' | 'failure' =
+    error instanceof RifiProtocolFailure ? 'failure' : 'revert';
+  return Object.assign(error, { type });
+}
+
+/**
+ * Traces the call with `debug_traceCall` to recover the logs it emits. Nodes
+ *     without the debug namespace resolve an empty array.
+ *
+ * @hidden
+ */
+async function traceLogs(
+  provider,
+  transaction: ethers.PopulatedTransaction
+): Promise<{ address: string, topics: string[], data: string }[]> {
+  if (!provider || !provider.send) {
+    return [];
+  }
+
+  try {
+    const request = ethers.providers.JsonRpcProvider.hexlifyTransaction(
+      transaction, { from: true }
+    );
+    const trace = await provider.send('debug_traceCall', [
+      request,
+      'latest',
+      { tracer: 'callTracer', tracerConfig: { withLog: true } },
+    ]);
+
+    const logs = [];
+    const collect = (frame) => {
+      (frame.logs || []).forEach((log) => logs.push(log));
+      (frame.calls || []).forEach(collect);
+    };
+    collect(trace);
+
+    return logs;
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * Describes a simulated transaction that would fail because `from` has not
+ *     approved enough of a token. The approval is neither sent nor
+ *     simulated, its effect would not carry over to the simulated call.
+ *
+ * @param {string} from The address that would send the transaction.
+ * @param {string} to The contract that would spend the token.
+ * @param {string} method The name of the contract method.
+ * @param {BigNumber} required The allowance the method needs, as a mantissa.
+ * @param {BigNumber} allowance The current allowance, as a mantissa.
+ *
+ * @hidden
+ *
+ * @returns {SimulationResult} Returns an unsuccessful simulation result.
+ */
+export function insufficientAllowance(
+  from: string,
+  to: string,
+  method: string,
+  required: BigNumber,
+  allowance: BigNumber
+): SimulationResult {
+  return {
+    simulated: true,
+    success: false,
+    from,
+    to,
+    method,
+    result: undefined,
+    gasEstimate: null,
+    error: simulationError(new RifiRevertError(
+      `${method} needs an allowance of ${required.toString()}, the allowance ` +
+      `is ${allowance.toString()}. Approve the token before sending it.`,
+      { method }
+    )),
+  };
+}
+
+/**
+ * Dry-runs a contract method with the signer's `from` address. A reverted
+ *     call reports its revert reason, a call that returns a non-zero
+ *     Cointroller or rToken error code reports the decoded code and any
+ *     `Failure` events, and every call that would succeed reports its gas
+ *     estimate.
+ *
+ * @param {Provider} provider The Ethers.js provider or signer of the call.
+ * @param {ethers.Contract} contract The Ethers.js contract to call.
+ * @param {string} method The name or signature of the contract method.
+ * @param {any[]} parameters Parameters of the method, the last one being the
+ *     Ethers.js overrides.
+ *
+ * @hidden
+ *
+ * @returns {Promise<SimulationResult>} Returns the simulation result.
+ */
+export async function simulateTransaction(
+  provider: Provider,
+  contract: ethers.Contract,
+  method: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parameters: any[]
+): Promise<SimulationResult> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const _provider: any = provider._isSigner ? provider.provider : provider;
+  const overrides = { ...parameters[parameters.length - 1] };
+  const args = parameters.slice(0, -1);
+
+  if (provider._isSigner && overrides.from === undefined) {
+    overrides.from = await provider.getAddress();
+  }
+
+  const network = await _provider.getNetwork();
+  const netName = getNetNameWithChainId(network.chainId);
+  const fragment = contract.interface.getFunction(method);
+
+  const simulation: SimulationResult = {
+    simulated: true,
+    success: false,
+    from: overrides.from,
+    to: contract.address,
+    method: fragment.name,
+    result: undefined,
+    gasEstimate: null,
+    error: null,
+  };
+
+  try {
+    simulation.result = await contract.callStatic[method](...args, overrides);
+  } catch (e) {
+    const { reason, data } = getRevertReason(e);
+    simulation.error = simulationError(new RifiRevertError(
+      reason ? `execution reverted: ${reason}` : e.message,
+      { error: e, method: fragment.name, reason, data }
+    ));
+    return simulation;
+  }
+
+  const isWrite = !fragment.constant;
+  const code = isWrite && getErrorTableName(contract.address, netName) ?
+    getReturnCode(fragment, simulation.result) : 0;
+
+  if (code !== 0) {
+    const transaction = await contract.populateTransaction[method](...args, overrides);
+    const failures = decodeFailureLogs(await traceLogs(_provider, transaction), netName);
+    const failure = decodeFailure(contract.address, netName, code);
+
+    simulation.error = simulationError(new RifiProtocolFailure(
+      `${fragment.name} failed with ${describeFailure(failures[0] || failure)}`,
+      { method: fragment.name, failure, failures }
+    ));
+    return simulation;
+  }
+
+  try {
+    simulation.gasEstimate = await contract.estimateGas[method](...args, overrides);
+  } catch (e) {
+    // The call succeeded, but the node would not estimate it (e.g. gas caps)
+  }
+
+  simulation.success = true;
+  return simulation;
+}
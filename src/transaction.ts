@@ -0,0 +1,321 @@
+/**
+ * @file Transaction
+ * @desc These methods track a sent transaction until it is confirmed and
+ *     decode the protocol events of its receipt.
+ */
+
+import { ethers } from 'ethers';
+import { TransactionResponse, TransactionReceipt } from '@ethersproject/abstract-provider';
+import { address, abi, rTokens } from './constants';
+import { getNetNameWithChainId } from './util';
+import {
+  RifiError,
+  RifiProtocolFailure,
+  decodeFailure,
+  describeFailure,
+  toRifiError,
+} from './errors';
+import {
+  Provider,
+  TrxHandle,
+  TrxStatus,
+  TrxStatusListener,
+  TrxWaitOptions,
+  DecodedReceipt,
+  ProtocolEvent,
+} from './types';
+
+const PROTOCOL_EVENTS = [
+  'Mint',
+  'Redeem',
+  'Borrow',
+  'RepayBorrow',
+  'LiquidateBorrow',
+  'AccrueInterest',
+  'Failure',
+];
+
+// Every rToken and the Cointroller emit the same `Failure` event
+const protocolInterface = new ethers.utils.Interface(
+  abi.rBep20.filter(
+    (item) => item.type === 'event' && PROTOCOL_EVENTS.includes(item.name)
+  )
+);
+
+// Blocks a transaction may be missing from the node, with its nonce still
+// unused, before it is reported as dropped
+const DROPPED_AFTER_BLOCKS = 5;
+
+function findContractName(contractAddress: string, netName: string): string {
+  const addresses = address[netName] || {};
+  const target = contractAddress.toLowerCase();
+
+  if ((addresses.Cointroller || '').toLowerCase() === target) {
+    return 'Cointroller';
+  }
+
+  return (rTokens[netName] || []).find(
+    (rTokenName: string) => (addresses[rTokenName] || '').toLowerCase() === target
+  );
+}
+
+/**
+ * Decodes the `Mint`, `Redeem`, `Borrow`, `RepayBorrow`, `LiquidateBorrow`,
+ *     `AccrueInterest` and `Failure` events in a list of logs, like the logs of
+ *     a transaction receipt. Logs of other events are skipped.
+ *
+ * @param {object[]} logs Logs with `address`, `topics`, `data` and
+ *     `logIndex`.
+ * @param {string} netName The network name, like `bsc_mainnet`, used to name
+ *     the emitting contracts and decode failures.
+ *
+ * @returns {ProtocolEvent[]} Returns the decoded events in log order.
+ *
+ * @example
+ * ```
+ * const receipt = await provider.getTransactionReceipt(hash);
+ * const events = Rifi.transaction.decodeProtocolEvents(receipt.logs, 'bsc_mainnet');
+ * const mint = events.find(e => e.name === 'Mint');
+ * console.log('rTokens minted', mint.args.mintTokens.toString());
+ * ```
+ */
+export function decodeProtocolEvents(
+  logs: { address: string, topics: string[], data: string, logIndex?: number }[],
+  netName: string
+): ProtocolEvent[] {
+  const events: ProtocolEvent[] = [];
+
+  logs.forEach((log) => {
+    let parsed: ethers.utils.LogDescription;
+    try {
+      parsed = protocolInterface.parseLog(log);
+    } catch (e) {
+      return;
+    }
+
+    const args = {};
+    parsed.eventFragment.inputs.forEach((input, i) => {
+      args[input.name] = parsed.args[i];
+    });
+
+    const event: ProtocolEvent = {
+      name: parsed.name,
+      address: log.address,
+      contract: findContractName(log.address, netName),
+      logIndex: log.logIndex,
+      args,
+    };
+
+    if (parsed.name === 'Failure') {
+      const [ error, info, detail ] = parsed.args;
+      event.failure = decodeFailure(
+        log.address, netName, error.toNumber(), info.toNumber(), detail.toNumber()
+      );
+    }
+
+    events.push(event);
+  });
+
+  return events;
+}
+
+/**
+ * Wraps an Ethers.js `TransactionResponse` in a handle that reports the
+ *     lifecycle of the transaction and decodes the protocol events of its
+ *     receipt. The handle keeps every member of the response, so existing
+ *     code reading `hash` or calling `wait` keeps working.
+ *
+ * @param {TransactionResponse} response The response of the sent transaction.
+ * @param {Provider} provider The Ethers.js provider or signer that sent it.
+ *
+ * @hidden
+ *
+ * @returns {TrxHandle} Returns the transaction handle.
+ */
+export function createTrxHandle(
+  response: TransactionResponse,
+  provider: Provider
+): TrxHandle {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const _provider: any = provider._isSigner ? provider.provider : provider;
+  const listeners = new Map<TrxStatus, TrxStatusListener[]>();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const reached = new Map<TrxStatus, any>();
+
+  let mined: Promise<DecodedReceipt>;
+  let stopWatching = () => undefined;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  function emit(status: TrxStatus, payload: any): void {
+    if (reached.has(status)) {
+      return;
+    }
+
+    reached.set(status, payload);
+    handle.status = status;
+    (listeners.get(status) || []).forEach((listener) => listener(payload));
+  }
+
+  async function decodeReceipt(receipt: TransactionReceipt): Promise<DecodedReceipt> {
+    const network = await _provider.getNetwork();
+    const netName = getNetNameWithChainId(network.chainId);
+
+    const protocolEvents = decodeProtocolEvents(receipt.logs, netName);
+
+    return {
+      ...receipt,
+      protocolEvents,
+      failures: protocolEvents
+        .filter((event) => event.failure)
+        .map((event) => event.failure),
+    };
+  }
+
+  // Rejects once the node lost the transaction and its nonce is still unused
+  function watchDropped(): Promise<never> {
+    return new Promise((resolve, reject) => {
+      let missing = 0;
+
+      const onBlock = async () => {
+        try {
+          const transaction = await _provider.getTransaction(response.hash);
+          if (transaction) {
+            missing = 0;
+            return;
+          }
+
+          const nonce = await _provider.getTransactionCount(response.from);
+          missing = nonce <= response.nonce ? missing + 1 : 0;
+        } catch (e) {
+          return;
+        }
+
+        if (missing >= DROPPED_AFTER_BLOCKS) {
+          stopWatching();
+          emit('dropped', response);
+          reject(new RifiError(
+            'Transaction ' + response.hash + ' was dropped from the mempool.'
+          ));
+        }
+      };
+
+      _provider.on('block', onBlock);
+      stopWatching = () => _provider.off('block', onBlock);
+    });
+  }
+
+  function waitMined(): Promise<DecodedReceipt> {
+    if (!mined) {
+      mined = Promise.race([ response.wait(1), watchDropped() ])
+        .catch(async (error) => {
+          if (error.code === ethers.utils.Logger.errors.TRANSACTION_REPLACED) {
+            emit('replaced', {
+              reason: error.reason,
+              replacement: error.replacement,
+              receipt: error.receipt,
+            });
+
+            // A repriced transaction has the same effect, only a higher fee
+            if (!error.cancelled) {
+              return error.receipt;
+            }
+
+            throw toRifiError(
+              'Transaction ' + response.hash + ' was ' + error.reason + '. See {error}.',
+              error
+            );
+          }
+
+          if (error.code === ethers.utils.Logger.errors.CALL_EXCEPTION && error.receipt) {
+            emit('mined', await decodeReceipt(error.receipt));
+            throw toRifiError('Transaction ' + response.hash + ' reverted. See {error}.', error);
+          }
+
+          throw toRifiError('Error occurred while waiting for the transaction. See {error}.', error);
+        })
+        .then(async (receipt) => {
+          const decoded = await decodeReceipt(receipt);
+          emit('mined', decoded);
+          return decoded;
+        })
+        .finally(() => stopWatching());
+    }
+
+    return mined;
+  }
+
+  /**
+   * Waits for the transaction to be mined and confirmed.
+   *
+   * @param {number} [confirmations] The number of blocks to wait for,
+   *     defaults to 1.
+   * @param {TrxWaitOptions} [options] `throwOnFailure` to reject with a
+   *     `RifiProtocolFailure` when the receipt has a `Failure` event.
+   *
+   * @returns {Promise<DecodedReceipt>} Returns the receipt with the decoded
+   *     `protocolEvents` and the `failures` they report.
+   */
+  async function wait(confirmations = 1, options: TrxWaitOptions = {}): Promise<DecodedReceipt> {
+    let receipt = await waitMined();
+
+    // Compound-style contracts report most failures with an event instead of
+    // reverting, the transaction is mined but did nothing
+    if (options.throwOnFailure && receipt.failures.length > 0) {
+      throw new RifiProtocolFailure(
+        'Transaction ' + response.hash + ' failed with ' + describeFailure(receipt.failures[0]),
+        { failure: receipt.failures[0], failures: receipt.failures }
+      );
+    }
+
+    if (confirmations > 1) {
+      const confirmed = await _provider.waitForTransaction(
+        receipt.transactionHash,
+        confirmations
+      );
+      receipt = { ...receipt, confirmations: confirmed.confirmations };
+    }
+
+    emit('confirmed', receipt);
+    return receipt;
+  }
+
+  /**
+   * Calls a listener when the transaction reaches a status. A listener added
+   *     after the status was reached is called right away.
+   *
+   * @param {TrxStatus} status One of `submitted`, `mined`, `confirmed`,
+   *     `replaced` or `dropped`.
+   * @param {Function} listener The function to call with the status payload.
+   *
+   * @returns {TrxHandle} Returns the handle, to chain calls.
+   */
+  function on(status: TrxStatus, listener: TrxStatusListener): TrxHandle {
+    listeners.set(status, [ ...(listeners.get(status) || []), listener ]);
+
+    if (reached.has(status)) {
+      listener(reached.get(status));
+    } else if (status !== 'submitted') {
+      // Watch the transaction, a failure is reported to `wait` callers
+      waitMined().catch(() => undefined);
+    }
+
+    return handle;
+  }
+
+  function off(status: TrxStatus, listener: TrxStatusListener): TrxHandle {
+    listeners.set(status, (listeners.get(status) || []).filter((l) => l !== listener));
+    return handle;
+  }
+
+  const handle: TrxHandle = {
+    ...response,
+    status: 'submitted',
+    wait,
+    on,
+    off,
+  };
+
+  emit('submitted', handle);
+
+  return handle;
+}
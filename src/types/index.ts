@@ -5,21 +5,220 @@ import {
   FallbackProvider
 } from '@ethersproject/providers/lib/fallback-provider';
 import {
-  BlockTag, TransactionRequest, TransactionResponse
+  BlockTag, TransactionRequest, TransactionResponse, TransactionReceipt
 } from '@ethersproject/abstract-provider';
 import { Deferrable } from '@ethersproject/properties';
 import { BigNumber } from '@ethersproject/bignumber/lib/bignumber';
+import { RifiRevertError, RifiProtocolFailure } from '../errors';
+import { Amount } from '../amount';
 
 // =-=-=-=-=-= /src/index.ts =-=-=-=-=-=
 
 export interface RifiInstance {
-  _networkPromise: Promise<ProviderNetwork>;
-  _network: Network;
+  _originalProvider?: Provider | string;
+  _provider?: Provider;
+  _networkPromise: Promise<void>;
+  _network: ProviderNetwork;
+  _blockTag?: BlockTag;
+
+  // /src/client.ts
+  at(blockTag: BlockTag): RifiInstance;
+
+  // /src/cointroller.ts
+  enterMarkets(markets: string | string[], options: SimulateOptions): Promise<SimulationResult>;
+  enterMarkets(markets?: string | string[], options?: CallOptions): Promise<TrxHandle>;
+  exitMarket(market: string, options: SimulateOptions): Promise<SimulationResult>;
+  exitMarket(market: string, options?: CallOptions): Promise<TrxHandle>;
+  getCollateralFactor(market: string, options?: CallOptions): Promise<CointrollerMarket>;
+  checkMembership(accountAddr: string, rTokenName: string, options?: CallOptions): Promise<boolean>;
+  getAssetsInAccount(accountAddr: string, options?: CallOptions): Promise<string[]>;
+  getCloseFactor(options?: CallOptions): Promise<BigNumber>;
+  getLiquidationIncentive(options?: CallOptions): Promise<BigNumber>;
+  getAccountLiquidity(account: string, options?: CallOptions): Promise<AccountLiquidity>;
+  simulateAccountLiquidity(
+    account: string,
+    action: HypotheticalAction,
+    options?: CallOptions
+  ): Promise<AccountLiquidity>;
+
+  // /src/rToken.ts
+  supply(asset: string, amount: AmountLike, noApprove: boolean, options: SimulateOptions): Promise<SimulationResult>;
+  supply(asset: string, amount: AmountLike, noApprove?: boolean, options?: CallOptions): Promise<TrxHandle>;
+  redeem(asset: string, amount: AmountLike, options: SimulateOptions): Promise<SimulationResult>;
+  redeem(asset: string, amount: AmountLike, options?: CallOptions): Promise<TrxHandle>;
+  borrow(asset: string, amount: AmountLike, options: SimulateOptions): Promise<SimulationResult>;
+  borrow(asset: string, amount: AmountLike, options?: CallOptions): Promise<TrxHandle>;
+  repayBorrow(
+    asset: string,
+    amount: AmountLike,
+    borrower: string,
+    noApprove: boolean,
+    options: SimulateOptions
+  ): Promise<SimulationResult>;
+  repayBorrow(
+    asset: string,
+    amount: AmountLike,
+    borrower: string,
+    noApprove?: boolean,
+    options?: CallOptions
+  ): Promise<TrxHandle>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tokenRead(func: string, rTokenName: string, parameters?: any[], options?: CallOptions): Promise<BigNumber>;
+  getBalanceOf(rTokenName: string, accountAddr: string, options?: CallOptions): Promise<BigNumber>;
+  getBorrowBalanceOf(rTokenName: string, accountAddr: string, options?: CallOptions): Promise<BigNumber>;
+  liquidateBorrow(
+    borrower: string,
+    amount: AmountLike,
+    tokenRepay: string,
+    tokenCollateral: string,
+    options: SimulateOptions
+  ): Promise<SimulationResult>;
+  liquidateBorrow(
+    borrower: string,
+    amount: AmountLike,
+    tokenRepay: string,
+    tokenCollateral: string,
+    options?: CallOptions
+  ): Promise<TrxHandle>;
+
+  // /src/priceFeed.ts
+  getPrice(asset: string, inAsset?: string, options?: CallOptions): Promise<number>;
+  getUnderlyingPrice(asset: string, options?: CallOptions): Promise<number>;
+
+  // /src/gov.ts
+  castVote(proposalId: number, support: boolean, options: SimulateOptions): Promise<SimulationResult>;
+  castVote(proposalId: number, support: boolean, options?: CallOptions): Promise<TrxHandle>;
+  castVoteBySig(
+    proposalId: number,
+    support: boolean,
+    signature: Signature,
+    options: SimulateOptions
+  ): Promise<SimulationResult>;
+  castVoteBySig(
+    proposalId: number,
+    support: boolean,
+    signature: Signature,
+    options?: CallOptions
+  ): Promise<TrxHandle>;
+  createVoteSignature(proposalId: number, support: boolean): Promise<Signature>;
+
+  // /src/lens.ts
+  rTokenMetadataAll(options?: LensOptions): Promise<TokenMetadataAll>;
+  rTokenMetadata(rTokenName: string, options?: LensOptions): Promise<TokenMetadata>;
+  rTokenBalances(rTokenName: string, account: string, options?: LensOptions): Promise<TokenBalances>;
+  rTokenBalancesAll(account: string, options?: LensOptions): Promise<TokenBalances[]>;
+  rTokenUnderlyingPrice(rTokenName: string, options?: LensOptions): Promise<TokenUnderlyingPrice>;
+  rTokenUnderlyingPriceAll(options?: LensOptions): Promise<TokenUnderlyingPrice[]>;
+  getAccountLimits(account: string, options?: LensOptions): Promise<AccountLimits>;
+  getRifiBalanceMetadata(account: string, options?: LensOptions): Promise<RifiBalanceMetadata>;
+  getRifiBalanceMetadataExt(account: string, options?: LensOptions): Promise<RifiBalanceMetadataExt>;
+  getRifiVotes(account: string, blockNumbers: number[], options?: LensOptions): Promise<RifiVotes[]>;
+  getGovReceipts(voter: string, proposalIds: number[], options?: LensOptions): Promise<GovReceipt[]>;
+  getGovProposals(proposalIds: number[], options?: LensOptions): Promise<GovProposal[]>;
+
+  // /src/vault.ts
+  depositEnabled(vault: string, options?: CallOptions): Promise<boolean>;
+  enableDeposit(vault: string, options: SimulateOptions): Promise<SimulationResult>;
+  enableDeposit(vault: string, options?: CallOptions): Promise<TrxHandle>;
+  deposit(vault: string, amount: AmountLike, noApprove: boolean, options: SimulateOptions): Promise<SimulationResult>;
+  deposit(vault: string, amount: AmountLike, noApprove?: boolean, options?: CallOptions): Promise<TrxHandle>;
+  withdraw(vault: string, amount: AmountLike, options: SimulateOptions): Promise<SimulationResult>;
+  withdraw(vault: string, amount?: AmountLike, options?: CallOptions): Promise<TrxHandle>;
+  harvestReward(vault: string, options: SimulateOptions): Promise<SimulationResult>;
+  harvestReward(vault: string, options?: CallOptions): Promise<TrxHandle>;
+  claimReward(vault: string, options: SimulateOptions): Promise<SimulationResult>;
+  claimReward(vault: string, options?: CallOptions): Promise<TrxHandle>;
+  getDepositOf(vault: string, account?: string, options?: CallOptions): Promise<BigNumber>;
+  getRewardBalances(vault: string, account?: string, options?: CallOptions): Promise<RewardBalances[]>;
+
+  // /src/account.ts
+  getMaxBorrow(account: string, asset: string, buffer?: number, options?: CallOptions): Promise<MarketLimit>;
+  getMaxRedeem(account: string, asset: string, buffer?: number, options?: CallOptions): Promise<MarketLimit>;
+  getLiquidationPrices(account: string, options?: CallOptions): Promise<LiquidationPrice[]>;
+
+  // /src/liquidator.ts
+  createLiquidator(liquidatorOptions?: LiquidatorOptions): Liquidator;
+
+  // /src/rifi.ts
+  claimRifi(options: SimulateOptions): Promise<SimulationResult>;
+  claimRifi(options?: CallOptions): Promise<TrxHandle>;
+  delegate(_address: string, options: SimulateOptions): Promise<SimulationResult>;
+  delegate(_address: string, options?: CallOptions): Promise<TrxHandle>;
+  delegateBySig(
+    _address: string,
+    nonce: number,
+    expiry: number,
+    signature: Signature,
+    options: SimulateOptions
+  ): Promise<SimulationResult>;
+  delegateBySig(
+    _address: string,
+    nonce: number,
+    expiry: number,
+    signature?: Signature,
+    options?: CallOptions
+  ): Promise<TrxHandle>;
+  createDelegateSignature(delegatee: string, expiry?: number): Promise<Signature>;
+
+  // /src/signer.ts
+  speedUpTransaction(nonce: number, options?: ReplacementOptions): Promise<TrxHandle>;
+  cancelTransaction(nonce: number, options?: ReplacementOptions): Promise<TrxHandle>;
+  getPendingTransactions(): Promise<PendingTransaction[]>;
+  recoverTransactions(): Promise<number[]>;
+
+  // /src/markets.ts
+  discoverMarkets(refresh?: boolean): Promise<Market[]>;
+
+  // /src/apy.ts
+  getMarketApys(asset: string, options?: ApyOptions): Promise<MarketApy>;
+  getAllMarketApys(options?: ApyOptions): Promise<MarketApy[]>;
+
+  // /src/interestRateModel.ts
+  getInterestRateModel(asset: string, options?: CallOptions): Promise<InterestRateModel>;
+  predictRates(
+    asset: string,
+    action: RateAction,
+    amount: AmountLike,
+    options?: CallOptions
+  ): Promise<RatePrediction>;
+
+  // /src/portfolio.ts
+  getPortfolio(account: string, options?: PortfolioOptions): Promise<Portfolio>;
+
+  // /src/activity.ts
+  createActivityIndexer(account: string, indexerOptions?: ActivityIndexerOptions): ActivityIndexer;
+
+  // /src/accounting.ts
+  getAccountingReport(account: string, options?: AccountingOptions): Promise<AccountingReport>;
+
+  // /src/watch.ts
+  watchMarket(
+    asset: string,
+    listener: WatchListener<MarketUpdate>,
+    options?: WatchOptions
+  ): Promise<WatchSubscription>;
+  watchPrice(
+    asset: string,
+    listener: WatchListener<PriceUpdate>,
+    options?: WatchOptions
+  ): Promise<WatchSubscription>;
+  watchAccount(
+    account: string,
+    listener: WatchListener<AccountUpdate>,
+    options?: WatchOptions
+  ): Promise<WatchSubscription>;
+
+  // /src/alerts.ts
+  createAlertService(alertOptions?: AlertServiceOptions): AlertService;
+
+  // /src/keeper.ts
+  createRepayKeeper(keeperOptions?: RepayKeeperOptions): RepayKeeper;
 }
 
 export interface RifiOptions {
   privateKey?: string;
   mnemonic?: string;
+  nonceManager?: boolean;
   provider?: Provider | string;
 }
 
@@ -49,20 +248,31 @@ export interface CallOptions {
   provider?: Provider | string;
   network?: string;
   from?: number | string;
-  gasPrice?: number;
+  gasPrice?: number | string | BigNumber;
   gasLimit?: number;
+  maxFeePerGas?: number | string | BigNumber;
+  maxPriorityFeePerGas?: number | string | BigNumber;
+  type?: number;
+  gasStrategy?: GasStrategy;
   value?: number | string | BigNumber;
   data?: number | string;
   chainId?: number;
   nonce?: number;
   privateKey?: string;
   mnemonic?: string;
+  nonceManager?: boolean;
   mantissa?: boolean;
   maxRepay?: boolean;
-  // blockNumber?: string;
+  multicall?: boolean;
+  simulate?: boolean;
+  blockTag?: BlockTag;
   // id?: number;
 }
 
+export interface SimulateOptions extends CallOptions {
+  simulate: true;
+}
+
 export interface EthersTrx {
   nonce: number;
   gasPrice: BigNumber;
@@ -83,7 +293,7 @@ export interface TrxError {
   parameters: any[];
 }
 
-export type TrxResponse = EthersTrx | TrxError;
+export type TrxResponse = EthersTrx | TrxError | SimulationResult | TrxHandle;
 
 export interface Connection {
   url?: string;
@@ -126,8 +336,805 @@ export interface Provider extends AbstractSigner, FallbackProvider {
 }
 
 
+// =-=-=-=-=-= /src/cointroller.ts =-=-=-=-=-=
+
+export interface CointrollerMarket {
+  isListed: boolean;
+  collateralFactorMantissa: BigNumber;
+  isRified: boolean;
+}
+
+export interface AccountLiquidityValues {
+  liquidity: number;
+  shortfall: number;
+  collateralValue: number;
+  borrowValue: number;
+  healthFactor: number;
+}
+
+export interface AccountLiquidity {
+  liquidity: BigNumber;
+  shortfall: BigNumber;
+  collateralValue: BigNumber;
+  borrowValue: BigNumber;
+  healthFactor: BigNumber;
+  human: AccountLiquidityValues;
+}
+
+export interface HypotheticalAction {
+  rToken: string;
+  redeem?: number | string | BigNumber;
+  borrow?: number | string | BigNumber;
+  repay?: number | string | BigNumber;
+}
+
+
+// =-=-=-=-=-= /src/lens.ts =-=-=-=-=-=
+
+export interface LensOptions extends CallOptions {
+  human?: boolean;
+}
+
+// Amounts in natural units, added by the `human` option
+export type HumanValues<K extends string> = {
+  [P in K]: number;
+};
+
+export interface TokenMetadata {
+  rToken: string;
+  exchangeRateCurrent: BigNumber;
+  supplyRatePerBlock: BigNumber;
+  borrowRatePerBlock: BigNumber;
+  reserveFactorMantissa: BigNumber;
+  totalBorrows: BigNumber;
+  totalReserves: BigNumber;
+  totalSupply: BigNumber;
+  totalCash: BigNumber;
+  isListed: boolean;
+  collateralFactorMantissa: BigNumber;
+  underlyingAssetAddress: string;
+  rTokenDecimals: BigNumber;
+  underlyingDecimals: BigNumber;
+  human?: HumanValues<
+    'exchangeRateCurrent' | 'supplyRatePerBlock' | 'borrowRatePerBlock' |
+    'reserveFactorMantissa' | 'totalBorrows' | 'totalReserves' | 'totalSupply' |
+    'totalCash' | 'collateralFactorMantissa'
+  >;
+}
+
+export interface TokenMetadataAll {
+  rTokens: TokenMetadata[];
+  blockNumber: BigNumber;
+  blockTimestamp: BigNumber;
+}
+
+export interface TokenBalances {
+  rToken: string;
+  balanceOf: BigNumber;
+  borrowBalanceCurrent: BigNumber;
+  balanceOfUnderlying: BigNumber;
+  tokenBalance: BigNumber;
+  tokenAllowance: BigNumber;
+  human?: HumanValues<
+    'balanceOf' | 'borrowBalanceCurrent' | 'balanceOfUnderlying' |
+    'tokenBalance' | 'tokenAllowance'
+  >;
+}
+
+export interface TokenUnderlyingPrice {
+  rToken: string;
+  underlyingPrice: BigNumber;
+  human?: HumanValues<'underlyingPrice'>;
+}
+
+export interface AccountLimits {
+  markets: string[];
+  liquidity: BigNumber;
+  shortfall: BigNumber;
+  human?: HumanValues<'liquidity' | 'shortfall'>;
+}
+
+export interface RifiBalanceMetadata {
+  balance: BigNumber;
+  votes: BigNumber;
+  delegate: string;
+  human?: HumanValues<'balance' | 'votes'>;
+}
+
+export interface RifiVotes {
+  blockNumber: BigNumber;
+  votes: BigNumber;
+  human?: HumanValues<'votes'>;
+}
+
+export interface GovReceipt {
+  proposalId: BigNumber;
+  hasVoted: boolean;
+  support: boolean;
+  votes: BigNumber;
+  human?: HumanValues<'votes'>;
+}
+
+export interface GovProposal {
+  proposalId: BigNumber;
+  proposer: string;
+  eta: BigNumber;
+  targets: string[];
+  values: BigNumber[];
+  signatures: string[];
+  calldatas: string[];
+  startBlock: BigNumber;
+  endBlock: BigNumber;
+  forVotes: BigNumber;
+  againstVotes: BigNumber;
+  canceled: boolean;
+  executed: boolean;
+  human?: HumanValues<'forVotes' | 'againstVotes'>;
+}
+
+// =-=-=-=-=-= /src/vault.ts =-=-=-=-=-=
+
+export interface RewardBalances {
+  symbol: string;
+  pending: BigNumber;
+  vesting: BigNumber;
+  claimable: BigNumber;
+}
+
+export interface VestingSchedule {
+  startBlock: BigNumber;
+  endBlock: BigNumber;
+  quantity: BigNumber;
+  vestedQuantity: BigNumber;
+}
+
+// =-=-=-=-=-= /src/rifi.ts =-=-=-=-=-=
+
+export interface RifiBalanceMetadataExt {
+  balance: BigNumber;
+  votes: BigNumber;
+  delegate: string;
+  allocated: BigNumber;
+  human?: HumanValues<'balance' | 'votes' | 'allocated'>;
+}
+
+// =-=-=-=-=-= /src/account.ts =-=-=-=-=-=
+
+export interface MarketLimit {
+  amount: BigNumber;
+  human: number;
+  limitedBy: 'liquidity' | 'cash' | 'borrowCap' | 'balance';
+}
+
+export interface LiquidationPrice {
+  asset: string;
+  rToken: string;
+  price: number;
+  liquidationPrice: number | null;
+  liquidationPriceMantissa: BigNumber | null;
+  direction: 'down' | 'up' | null;
+  change: number | null;
+}
+
+
+// =-=-=-=-=-= /src/liquidator.ts =-=-=-=-=-=
+
+export interface LiquidatorOptions {
+  fromBlock?: number;
+  blockRange?: number;
+  gasLimit?: number;
+  gasPrice?: BigNumber;
+  nativePrice?: number;
+  minProfit?: number;
+}
+
+export interface LiquidationOpportunity {
+  borrower: string;
+  repayAsset: string;
+  collateralAsset: string;
+  repayAmount: BigNumber;
+  seizeTokens: BigNumber;
+  seizeAmount: BigNumber;
+  repayValue: BigNumber;
+  seizeValue: BigNumber;
+  gasCost: BigNumber;
+  profit: BigNumber;
+  human: {
+    repayAmount: number;
+    seizeAmount: number;
+    repayValue: number;
+    seizeValue: number;
+    gasCost: number;
+    profit: number;
+  };
+}
+
+export interface LiquidationFailure {
+  opportunity: LiquidationOpportunity;
+  error: Error;
+}
+
+export interface LiquidationRun {
+  opportunities: LiquidationOpportunity[];
+  transactions: TrxHandle[];
+  failures: LiquidationFailure[];
+}
+
+export interface Liquidator {
+  borrowers: Set<string>;
+  addBorrower(borrower: string): void;
+  sync(): Promise<number>;
+  evaluate(borrower: string): Promise<LiquidationOpportunity[]>;
+  findOpportunities(): Promise<LiquidationOpportunity[]>;
+  execute(opportunity: LiquidationOpportunity, options: SimulateOptions): Promise<SimulationResult>;
+  execute(opportunity: LiquidationOpportunity, options?: CallOptions): Promise<TrxHandle>;
+  run(options?: { execute?: boolean }): Promise<LiquidationRun>;
+}
+
+
+// =-=-=-=-=-= /src/multicall.ts =-=-=-=-=-=
+
+export interface MulticallOptions {
+  enabled?: boolean;
+  wait?: number;
+  maxBatchSize?: number;
+}
+
+
+// =-=-=-=-=-= /src/gas.ts =-=-=-=-=-=
+
+export interface GasFees {
+  gasPrice?: number | string | BigNumber;
+  maxFeePerGas?: number | string | BigNumber;
+  maxPriorityFeePerGas?: number | string | BigNumber;
+}
+
+export interface GasStrategyContext {
+  provider: Provider;
+  eip1559: boolean;
+}
+
+export type GasStrategy = (context: GasStrategyContext) => Promise<GasFees>;
+
+export interface GasOptions {
+  strategy?: GasStrategy | null;
+}
+
+export interface FeeHistoryOptions {
+  blocks?: number;
+  percentile?: number;
+  baseFeeMultiplier?: number;
+}
+
+
+// =-=-=-=-=-= /src/errors.ts =-=-=-=-=-=
+
+export interface ProtocolFailure {
+  code: number;
+  error?: string;
+  description?: string;
+  hint?: string;
+  info?: number;
+  infoName?: string;
+  detail?: number;
+  detailName?: string;
+  detailDescription?: string;
+}
+
+
+// =-=-=-=-=-= /src/simulate.ts =-=-=-=-=-=
+
+// `type` is kept from the plain error objects of earlier versions
+export type SimulationError = (RifiRevertError | RifiProtocolFailure) & {
+  type: 'revert' | 'failure';
+};
+
+export interface SimulationResult {
+  simulated: true;
+  success: boolean;
+  from: string;
+  to: string;
+  method: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  result: any;
+  gasEstimate: BigNumber | null;
+  error: SimulationError | null;
+}
+
+
+// =-=-=-=-=-= /src/transaction.ts =-=-=-=-=-=
+
+export type TrxStatus = 'submitted' | 'mined' | 'confirmed' | 'replaced' | 'dropped';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type TrxStatusListener = (payload: any) => void;
+
+export interface ProtocolEvent {
+  name: string;
+  address: string;
+  contract?: string;
+  logIndex?: number;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  args: { [name: string]: any };
+  failure?: ProtocolFailure;
+}
+
+export interface DecodedReceipt extends TransactionReceipt {
+  protocolEvents: ProtocolEvent[];
+  failures: ProtocolFailure[];
+}
+
+export interface TrxWaitOptions {
+  throwOnFailure?: boolean;
+}
+
+export interface TrxHandle extends Omit<TransactionResponse, 'wait'> {
+  status: TrxStatus;
+  wait: (confirmations?: number, options?: TrxWaitOptions) => Promise<DecodedReceipt>;
+  on: (status: TrxStatus, listener: TrxStatusListener) => TrxHandle;
+  off: (status: TrxStatus, listener: TrxStatusListener) => TrxHandle;
+}
+
+
+// =-=-=-=-=-= /src/signer.ts =-=-=-=-=-=
+
+export interface PendingTransaction {
+  nonce: number;
+  hash: string;
+  request: TransactionRequest;
+  signed: string;
+  replaces: string[];
+}
+
+export interface ReplacementOptions {
+  factor?: number;
+  gasPrice?: number | string | BigNumber;
+  maxFeePerGas?: number | string | BigNumber;
+  maxPriorityFeePerGas?: number | string | BigNumber;
+}
+
+
+// =-=-=-=-=-= /src/amount.ts =-=-=-=-=-=
+
+export type AmountLike = string | number | bigint | BigNumber | Amount;
+
+export type RoundingMode = 'down' | 'up' | 'halfUp' | 'halfEven';
+
+// =-=-=-=-=-= /src/networks.ts =-=-=-=-=-=
+
+export interface NetworkVault {
+  depositToken: string;
+  rewardToken?: string;
+  earnToken?: string[];
+  rewardLocker?: string;
+}
+
+export interface NetworkConfig {
+  chainId: number;
+  addresses: { [contract: string]: string };
+  rTokens?: string[];
+  decimals?: { [token: string]: number };
+  vaults?: { [vault: string]: NetworkVault };
+  blocksPerYear?: number;
+  nativeSymbol?: string;
+}
+
+export interface NetworkDeployment extends NetworkConfig {
+  name: string;
+}
+
+// =-=-=-=-=-= /src/markets.ts =-=-=-=-=-=
+
+export interface Market {
+  rToken: string;
+  address: string;
+  underlying: string;
+  underlyingAddress: string | null;
+  decimals: number;
+  underlyingDecimals: number;
+  isNativeCoin: boolean;
+}
+
+// =-=-=-=-=-= /src/apy.ts =-=-=-=-=-=
+
+export interface ApyOptions extends CallOptions {
+  rifiPrice?: AmountLike;
+}
+
+export interface MarketApy {
+  rToken: string;
+  underlying: string;
+  supplyApy: number;
+  borrowApy: number;
+  rifiSupplyApy: number | null;
+  rifiBorrowApy: number | null;
+  blocksPerYear: number;
+}
+
+// =-=-=-=-=-= /src/portfolio.ts =-=-=-=-=-=
+
+export interface PortfolioOptions extends ApyOptions {
+  vaults?: string[];
+}
+
+export interface PortfolioMarket {
+  rToken: string;
+  underlying: string;
+  rTokenBalance: BigNumber;
+  supplied: BigNumber;
+  borrowed: BigNumber;
+  walletBalance: BigNumber;
+  price: BigNumber;
+  suppliedValue: BigNumber;
+  borrowedValue: BigNumber;
+  isCollateral: boolean;
+  collateralFactor: BigNumber;
+  supplyApy: number;
+  borrowApy: number;
+  rifiSupplyApy: number | null;
+  rifiBorrowApy: number | null;
+  human: HumanValues<
+    'supplied' | 'borrowed' | 'walletBalance' | 'price' | 'suppliedValue' |
+    'borrowedValue' | 'collateralFactor'
+  >;
+}
+
+export interface PortfolioVault {
+  vault: string;
+  depositToken: string | null;
+  deposit: BigNumber;
+  depositValue: BigNumber | null;
+  rewards: RewardBalances[];
+  human: {
+    deposit: number;
+    depositValue: number | null;
+  };
+}
+
+export interface Portfolio {
+  account: string;
+  blockNumber: number;
+  markets: PortfolioMarket[];
+  vaults: PortfolioVault[];
+  liquidity: AccountLiquidity;
+  rifi: {
+    balance: BigNumber;
+    accrued: BigNumber;
+    balanceValue: BigNumber | null;
+    accruedValue: BigNumber | null;
+  };
+  suppliedValue: BigNumber;
+  borrowedValue: BigNumber;
+  vaultValue: BigNumber;
+  netApy: number | null;
+  borrowUtilization: number;
+  human: {
+    suppliedValue: number;
+    borrowedValue: number;
+    vaultValue: number;
+    rifiBalance: number;
+    rifiAccrued: number;
+    rifiBalanceValue: number | null;
+    rifiAccruedValue: number | null;
+  };
+}
+
+// =-=-=-=-=-= /src/activity.ts =-=-=-=-=-=
+
+export type ActivityType = 'supply' | 'redeem' | 'borrow' | 'repay' | 'repayBehalf' |
+  'liquidate' | 'liquidated' | 'transferIn' | 'transferOut' | 'vaultDeposit' |
+  'vaultWithdraw' | 'vaultHarvest' | 'claimRifi';
+
+export interface Activity {
+  type: ActivityType;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  source: string;
+  asset: string;
+  amount: BigNumber;
+  rTokenAmount: BigNumber | null;
+  accountBorrows: BigNumber | null;
+  counterparty: string | null;
+  collateral: string | null;
+  human: {
+    amount: number;
+    rTokenAmount: number | null;
+  };
+}
+
+export interface ActivityCheckpoint {
+  network: string;
+  account: string;
+  nextBlock: number;
+  activities: Activity[];
+}
+
+export interface ActivityIndexerOptions {
+  fromBlock?: number;
+  blockRange?: number;
+  vaults?: string[];
+  checkpoint?: ActivityCheckpoint;
+  onCheckpoint?: (checkpoint: ActivityCheckpoint) => void | Promise<void>;
+}
+
+export interface ActivityIndexer {
+  account: string;
+  activities: Activity[];
+  getCheckpoint(): ActivityCheckpoint;
+  sync(): Promise<Activity[]>;
+}
+
+// =-=-=-=-=-= /src/accounting.ts =-=-=-=-=-=
+
+export interface AccountingOptions extends CallOptions {
+  activities?: Activity[];
+  fromBlock?: number;
+  blockRange?: number;
+  vaults?: string[];
+}
+
+export interface AccountingRecord {
+  date: string | null;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+  type: ActivityType;
+  source: string;
+  asset: string;
+  amount: string;
+  rTokenAmount: string | null;
+  price: string | null;
+  value: string | null;
+  interestEarned: string | null;
+  interestPaid: string | null;
+  counterparty: string | null;
+}
+
+export interface MarketInterest {
+  rToken: string;
+  asset: string;
+  interestEarned: string;
+  interestPaid: string;
+  interestEarnedValue: string;
+  interestPaidValue: string;
+}
+
+export interface AccountingReport {
+  account: string;
+  network: string;
+  fromBlock: number | null;
+  toBlock: number | null;
+  records: AccountingRecord[];
+  interest: MarketInterest[];
+}
+
+// =-=-=-=-=-= /src/watch.ts =-=-=-=-=-=
+
+export type WatchedValue = BigNumber | boolean | string;
+
+// The values that changed, by field, e.g. `totalBorrows` or `rUSDC.borrowed`
+export interface WatchChanges {
+  [field: string]: {
+    previous: WatchedValue | null;
+    current: WatchedValue | null;
+  };
+}
+
+export interface WatchOptions {
+  onError?: (error: Error) => void;
+}
+
+export type WatchListener<T> = (update: T) => void;
+
+export interface WatchSubscription {
+  unsubscribe(): void;
+}
+
+export interface MarketUpdate {
+  rToken: string;
+  blockNumber: number;
+  market: TokenMetadata;
+  changes: WatchChanges;
+}
+
+export interface PriceUpdate {
+  rToken: string;
+  asset: string;
+  blockNumber: number;
+  price: BigNumber;
+  previous: BigNumber | null;
+  human: {
+    price: number;
+    previous: number | null;
+  };
+}
+
+export interface AccountUpdate {
+  account: string;
+  blockNumber: number;
+  balances: TokenBalances[];
+  liquidity: AccountLiquidity;
+  changes: WatchChanges;
+}
+
+// =-=-=-=-=-= /src/alerts.ts =-=-=-=-=-=
+
+export type AlertType = 'healthFactor' | 'healthFactorRecovered' | 'rateSpike' |
+  'borrowApy' | 'mintPaused' | 'borrowPaused';
+
+export interface Alert {
+  type: AlertType;
+  network: string;
+  blockNumber: number;
+  accounts: string[];
+  rToken: string | null;
+  message: string;
+  healthFactor?: number | null;
+  threshold?: number;
+  borrowApy?: number;
+  previousBorrowApy?: number;
+}
+
+export interface AlertState {
+  network: string | null;
+  blockNumber: number | null;
+  accounts: {
+    [account: string]: {
+      healthFactor: number | null;
+      crossed: number[];
+    };
+  };
+  markets: {
+    [rTokenName: string]: {
+      borrowApy: number | null;
+      borrowApyAbove: boolean;
+      mintPaused: boolean;
+      borrowPaused: boolean;
+    };
+  };
+}
+
+export interface AlertServiceOptions {
+  accounts?: string[];
+  healthFactors?: number[];
+  rateSpike?: number;
+  maxBorrowApy?: number;
+  interval?: number;
+  webhooks?: string[];
+  state?: AlertState;
+  onAlert?: (alert: Alert) => void | Promise<void>;
+  onState?: (state: AlertState) => void | Promise<void>;
+  onError?: (error: Error) => void;
+}
+
+export interface AlertService {
+  accounts: string[];
+  addAccount(account: string): void;
+  removeAccount(account: string): void;
+  getState(): AlertState;
+  check(): Promise<Alert[]>;
+  start(): void;
+  stop(): void;
+}
+
+// =-=-=-=-=-= /src/keeper.ts =-=-=-=-=-=
+
+export type KeeperAction = 'check' | 'redeem' | 'repay';
+
+export type KeeperStatus = 'triggered' | 'dryRun' | 'confirmed' | 'failed' | 'skipped';
+
+export interface KeeperAuditEntry {
+  timestamp: number;
+  network: string;
+  account: string;
+  blockNumber: number;
+  action: KeeperAction;
+  status: KeeperStatus;
+  asset: string | null;
+  amount: string | null;
+  value: number | null;
+  healthFactor: number | null;
+  simulatedHealthFactor: number | null;
+  transactionHash: string | null;
+  message: string;
+}
+
+export interface KeeperRun {
+  account: string;
+  blockNumber: number;
+  healthFactor: number | null;
+  triggered: boolean;
+  entries: KeeperAuditEntry[];
+}
+
+export interface RepayKeeperOptions {
+  account?: string;
+  healthFactor?: number;
+  targetHealthFactor?: number;
+  assets?: string[];
+  redeem?: boolean;
+  gasReserve?: AmountLike;
+  maxSpendPerRun?: number;
+  maxSpendPerDay?: number;
+  dryRun?: boolean;
+  interval?: number;
+  auditLog?: KeeperAuditEntry[];
+  onAudit?: (entry: KeeperAuditEntry) => void | Promise<void>;
+  onError?: (error: Error) => void;
+}
+
+export interface RepayKeeper {
+  auditLog: KeeperAuditEntry[];
+  dryRun: boolean;
+  getSpent(): number;
+  run(): Promise<KeeperRun>;
+  start(): void;
+  stop(): void;
+}
+
+// =-=-=-=-=-= /src/interestRateModel.ts =-=-=-=-=-=
+
+export interface InterestRate {
+  ratePerBlock: BigNumber;
+  apy: number;
+}
+
+export interface InterestRateModel {
+  rToken: string;
+  address: string;
+  baseRatePerBlock: BigNumber;
+  multiplierPerBlock: BigNumber;
+  jumpMultiplierPerBlock: BigNumber;
+  kink: BigNumber;
+  reserveFactorMantissa: BigNumber;
+  blocksPerYear: number;
+  getBorrowRateAt(utilization: AmountLike): InterestRate;
+  getSupplyRateAt(utilization: AmountLike): InterestRate;
+}
+
+export type RateAction = 'supply' | 'redeem' | 'borrow' | 'repay';
+
+export interface MarketRates {
+  utilization: number;
+  borrowRate: InterestRate;
+  supplyRate: InterestRate;
+}
+
+export interface RatePrediction {
+  rToken: string;
+  action: RateAction;
+  amount: BigNumber;
+  current: MarketRates;
+  predicted: MarketRates;
+}
+
+// =-=-=-=-=-= /src/deployment.ts =-=-=-=-=-=
+
+export interface DeploymentCheck {
+  target: string;
+  check: 'bytecode' | 'oracle' | 'underlying' | 'decimals' | 'cointroller' | 'isListed' | 'price';
+  ok: boolean;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  expected: any;
+  actual: string | undefined;
+  message?: string;
+}
+
+export interface DeploymentReport {
+  network: string;
+  ok: boolean;
+  checks: DeploymentCheck[];
+}
+
 // =-=-=-=-=-= /src/api.ts =-=-=-=-=-=
 
+export interface SupportedTokens {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  rToken: any[];
+}
+
 export interface APIResponse {
   error?: string;
   responseCode?: number;
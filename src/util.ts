@@ -4,8 +4,10 @@
  */
 
 import { address, abi, constants } from "./constants";
-import { AbiType } from "./types";
-import { BigNumber, ethers } from "ethers";
+import { findRegisteredNetwork, isNativeMarket } from "./networks";
+import { Amount } from "./amount";
+import { AbiType, AmountLike } from "./types";
+import { BigNumber } from "ethers";
 
 /* eslint-disable */
 
@@ -27,6 +29,13 @@ function _nodeJsRequest(options: any) {
     // Remove the 'http://' so the native node.js module will understand
     options.hostname = url.split("://")[1];
 
+    // Move a port in 'options.hostname' to 'options.port'
+    const hostAndPort = options.hostname.match(/^([^:]+):(\d+)$/);
+    if (hostAndPort) {
+      options.hostname = hostAndPort[1];
+      options.port = hostAndPort[2];
+    }
+
     let body = "";
     const req = httpOrHttps.request(options, (res: any) => {
       res.on("data", (bodyBuffer: any) => {
@@ -196,7 +205,8 @@ export function getAbi(contract: string): AbiType[] {
 }
 
 /**
- * Gets the name of an Ethereum network based on its chain ID.
+ * Gets the name of an Ethereum network based on its chain ID. Networks added
+ *     with `Rifi.registerNetwork` take precedence over the built-in ones.
  *
  * @param {string} chainId The chain ID of the network.
  *
@@ -221,18 +231,19 @@ export function getNetNameWithChainId(chainId: number): string {
     80001: 'mumbai',
     137: 'polygon'
   };
-  return networks[chainId] || 'bsc_mainnet';
+  return findRegisteredNetwork(+chainId) || networks[chainId] || 'bsc_mainnet';
 }
 
-export function parseUnits(value: number, decimals: number): BigNumber {
-  const fixedAmout = (+value || 0).toFixed(decimals + 1);
-  return ethers.utils.parseUnits(
-    fixedAmout.substring(0, fixedAmout.length - 1),
-    decimals
-  );
+export function parseUnits(value: AmountLike, decimals: number): BigNumber {
+  return Amount.from(value, decimals).mantissa;
 }
 
 export function isNativeCoin(rTokenName: string, _this: {_network: { name: string}}): boolean {
+  const native = isNativeMarket(_this._network.name, rTokenName);
+  if (native !== undefined) {
+    return native;
+  }
+
   if (
     (rTokenName === constants.rBNB && (_this._network.name === "bsc_mainnet" || _this._network.name === "bsc_testnet"))
     || (rTokenName === constants.rASTR && (_this._network.name === "astar_mainnet" || _this._network.name === "shibuya"))
@@ -3,12 +3,22 @@
  * @desc These methods facilitate interactions with the Vault smart contracts.
  */
 
-import { ethers, BigNumber, utils } from "ethers";
-const { parseUnits } = utils;
+import { ethers, BigNumber } from "ethers";
 import * as eth from "./eth";
-import { netId } from "./helpers";
+import { netId, callOptions, decimalsOf } from "./helpers";
+import { RifiValidationError } from "./errors";
+import { Amount, toMantissa } from "./amount";
+import { insufficientAllowance } from "./simulate";
 import * as constants from "./constants";
-import { CallOptions, TrxResponse } from "./types";
+import {
+  AmountLike,
+  CallOptions,
+  SimulateOptions,
+  SimulationResult,
+  TrxHandle,
+  RewardBalances,
+  VestingSchedule,
+} from "./types";
 
 
 const MAX_ALLOWANCE = BigNumber.from(
@@ -58,7 +68,7 @@ async function approve(
   spenderAddress: string,
   amount?: number | string | ethers.BigNumber,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   const trxOptions = {
     ...options,
     abi: constants.abi.Bep20,
@@ -93,14 +103,11 @@ export async function depositEnabled(
   const tokenAddress = constants.address[this._network?.name]?.[tokenName];
 
   if (!vaultAddress || !tokenAddress) {
-    throw Error(errorPrefix + `Vault ${vault} not found.`);
+    throw new RifiValidationError(errorPrefix + `Vault ${vault} not found.`);
   }
 
   const userAddress = await getUserAddress(this._provider);
-  const trxOptions = {
-    ...options,
-    _rifiProvider: this._provider,
-  };
+  const trxOptions = callOptions(this, options);
 
   return await isApproved(
     tokenAddress,
@@ -118,13 +125,21 @@ export async function depositEnabled(
  * @param {CallOptions} [options] Call options and Ethers.js overrides for the
  *     transaction.
  *
- * @returns {TrxResponse} Returns an Ethers.js transaction object of the approve
+ * @returns {TrxHandle} Returns an Ethers.js transaction object of the approve
  *     transaction, or nothing if the vault is already approved.
  */
+export function enableDeposit(
+  vault: string,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function enableDeposit(
+  vault: string,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function enableDeposit(
   vault: string,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const errorPrefix = "Vault [enableDeposit] | ";
 
@@ -133,7 +148,7 @@ export async function enableDeposit(
   const tokenAddress = constants.address[this._network?.name]?.[tokenName];
 
   if (!vaultAddress || !tokenAddress) {
-    throw Error(errorPrefix + `Vault ${vault} not found.`);
+    throw new RifiValidationError(errorPrefix + `Vault ${vault} not found.`);
   }
 
   const userAddress = await getUserAddress(this._provider);
@@ -159,7 +174,7 @@ export async function enableDeposit(
  * Deposit the user's asset into vault.
  *
  * @param {string} vault The name of the vault to deposit into.
- * @param {number | string | BigNumber} amount A string, number, or BigNumber
+ * @param {AmountLike} amount A string, number, bigint, BigNumber or Amount
  *     object of the amount of an asset to deposit. Use the `mantissa` boolean
  *     in the `options` parameter to indicate if this value is scaled up (so
  *     there are no decimals) or in its natural scale.
@@ -168,7 +183,7 @@ export async function enableDeposit(
  * @param {CallOptions} [options] Call options and Ethers.js overrides for the
  *     transaction.
  *
- * @returns {TrxResponse} Returns an Ethers.js transaction object of the deposit
+ * @returns {TrxHandle} Returns an Ethers.js transaction object of the deposit
  *     transaction.
  *
  * @example
@@ -185,12 +200,24 @@ export async function enableDeposit(
  * })().catch(console.error);
  * ```
  */
+export function deposit(
+  vault: string,
+  amount: AmountLike,
+  noApprove: boolean,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function deposit(
+  vault: string,
+  amount: AmountLike,
+  noApprove?: boolean,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function deposit(
   vault: string,
-  amount: string | number | BigNumber,
+  amount: AmountLike,
   noApprove = false,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const errorPrefix = "Vault [deposit] | ";
 
@@ -199,25 +226,17 @@ export async function deposit(
   const tokenAddress = constants.address[this._network?.name]?.[tokenName];
 
   if (!vaultAddress || !tokenAddress) {
-    throw Error(errorPrefix + `Vault ${vault} not found.`);
+    throw new RifiValidationError(errorPrefix + `Vault ${vault} not found.`);
   }
 
-  if (
-    typeof amount !== "number" &&
-    typeof amount !== "string" &&
-    !ethers.BigNumber.isBigNumber(amount)
-  ) {
-    throw Error(
+  if (!Amount.isAmountLike(amount)) {
+    throw new RifiValidationError(
       errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
     );
   }
 
   // Scale up amount
-  if (!options.mantissa) {
-    amount = parseUnits(amount.toString(), constants.decimals[tokenName]);
-  } else {
-    amount = BigNumber.from(amount.toString());
-  }
+  amount = toMantissa(amount, decimalsOf(this._network.name, tokenName), options.mantissa);
 
   const trxOptions: CallOptions = {
     ...options,
@@ -228,7 +247,7 @@ export async function deposit(
   if (noApprove !== true) {
     const userAddress = await getUserAddress(this._provider);
 
-    const approved = isApproved(
+    const approved = await isApproved(
       tokenAddress,
       userAddress,
       vaultAddress,
@@ -236,8 +255,25 @@ export async function deposit(
       trxOptions
     );
 
+    // A simulated approve would not carry over to the simulated deposit
+    if (!approved && options.simulate) {
+      const allowance = await eth.read(
+        tokenAddress,
+        "allowance",
+        [userAddress, vaultAddress],
+        { ...trxOptions, abi: constants.abi.Bep20 }
+      );
+      return insufficientAllowance(
+        userAddress,
+        vaultAddress,
+        "deposit",
+        BigNumber.from(amount),
+        allowance
+      );
+    }
+
     if (!approved) {
-      approve(tokenAddress, vaultAddress, amount, trxOptions);
+      await approve(tokenAddress, vaultAddress, amount, trxOptions);
     }
   }
 
@@ -251,7 +287,7 @@ export async function deposit(
  * Withdraw user's asset from vault.
  *
  * @param {string} vault The name of the vault to withdraw from.
- * @param {number | string | BigNumber} amount A string, number, or BigNumber
+ * @param {AmountLike} amount A string, number, bigint, BigNumber or Amount
  *     object of the amount of an asset to withdraw. Use the `mantissa` boolean
  *     in the `options` parameter to indicate if this value is scaled up (so
  *     there are no decimals) or in its natural scale. Omit this parameter or
@@ -259,7 +295,7 @@ export async function deposit(
  * @param {CallOptions} [options] Call options and Ethers.js overrides for the
  *     transaction.
  *
- * @returns {TrxResponse} Returns an Ethers.js transaction object of the withdraw
+ * @returns {TrxHandle} Returns an Ethers.js transaction object of the withdraw
  *     transaction.
  *
  * @example
@@ -276,40 +312,42 @@ export async function deposit(
  * })().catch(console.error);
  * ```
  */
+export function withdraw(
+  vault: string,
+  amount: AmountLike,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function withdraw(
+  vault: string,
+  amount?: AmountLike,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function withdraw(
   vault: string,
-  amount?: string | number | BigNumber,
+  amount?: AmountLike,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const errorPrefix = "Vault [withdraw] | ";
 
   const vaultAddress = constants.address[this._network?.name]?.[vault];
   if (!vaultAddress) {
-    throw Error(errorPrefix + `Vault ${vault} not found.`);
+    throw new RifiValidationError(errorPrefix + `Vault ${vault} not found.`);
   }
 
   const parameters = [];
   let methodName;
 
   if (amount !== undefined && amount !== null) {
-    if (
-      typeof amount !== "number" &&
-      typeof amount !== "string" &&
-      !ethers.BigNumber.isBigNumber(amount)
-    ) {
-      throw Error(
+    if (!Amount.isAmountLike(amount)) {
+      throw new RifiValidationError(
         errorPrefix +
           "Argument `amount` must be a string, number, or BigNumber."
       );
     }
 
-    if (!options.mantissa) {
-      const tokenName = constants.vaultConfig[this._network?.name]?.[vault]?.depositToken;
-      amount = parseUnits(amount.toString(), constants.decimals[tokenName]);
-    } else {
-      amount = BigNumber.from(amount.toString());
-    }
+    const tokenName = constants.vaultConfig[this._network?.name]?.[vault]?.depositToken;
+    amount = toMantissa(amount, decimalsOf(this._network.name, tokenName), options.mantissa);
 
     methodName = "withdraw";
     parameters.push(amount);
@@ -333,7 +371,7 @@ export async function withdraw(
  * @param {CallOptions} [options] Call options and Ethers.js overrides for the
  *     transaction.
  *
- * @returns {TrxResponse} Returns an Ethers.js transaction object of the harvest
+ * @returns {TrxHandle} Returns an Ethers.js transaction object of the harvest
  *     transaction.
  *
  * @example
@@ -350,16 +388,24 @@ export async function withdraw(
  * })().catch(console.error);
  * ```
  */
+export function harvestReward(
+  vault: string,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function harvestReward(
+  vault: string,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function harvestReward(
   vault: string,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const errorPrefix = "Vault [harvestReward] | ";
 
   const vaultAddress = constants.address[this._network?.name]?.[vault];
   if (!vaultAddress) {
-    throw Error(errorPrefix + `Vault ${vault} not found.`);
+    throw new RifiValidationError(errorPrefix + `Vault ${vault} not found.`);
   }
 
   const trxOptions: CallOptions = {
@@ -372,7 +418,7 @@ export async function harvestReward(
   return eth.trx(vaultAddress, "harvest", parameters, trxOptions);
 }
 
-async function claimRewardNFTVault(vaultAddress, options): Promise<TrxResponse> {
+async function claimRewardNFTVault(vaultAddress, options): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const trxOptions = {
     ...options,
@@ -395,7 +441,7 @@ async function claimRewardNFTVault(vaultAddress, options): Promise<TrxResponse>
  * @param {CallOptions} [options] Call options and Ethers.js overrides for the
  *     transaction.
  *
- * @returns {TrxResponse} Returns an Ethers.js transaction object of the claim
+ * @returns {TrxHandle} Returns an Ethers.js transaction object of the claim
  *     transaction.
  *
  * @example
@@ -412,16 +458,24 @@ async function claimRewardNFTVault(vaultAddress, options): Promise<TrxResponse>
  * })().catch(console.error);
  * ```
  */
+export function claimReward(
+  vault: string,
+  options: SimulateOptions
+): Promise<SimulationResult>;
+export function claimReward(
+  vault: string,
+  options?: CallOptions
+): Promise<TrxHandle>;
 export async function claimReward(
   vault: string,
   options: CallOptions = {}
-): Promise<TrxResponse> {
+): Promise<TrxHandle | SimulationResult> {
   await netId(this);
   const errorPrefix = "Vault [claimReward] | ";
 
   const vaultAddress = constants.address[this._network?.name]?.[vault];
   if (!vaultAddress) {
-    throw Error(errorPrefix + `Vault ${vault} not found.`);
+    throw new RifiValidationError(errorPrefix + `Vault ${vault} not found.`);
   }
 
   const isNFTVault = constants.vaultConfig[this._network?.name]?.[vault]?.isNFTVault;
@@ -434,7 +488,7 @@ export async function claimReward(
   const rewardToken = constants.vaultConfig[this._network?.name]?.[vault]?.rewardToken;
   const tokenAddress = constants.address[this._network?.name]?.[rewardToken];
   if (!lockerAddress || !tokenAddress) {
-    throw Error(errorPrefix + `Locker for ${vault} not found.`);
+    throw new RifiValidationError(errorPrefix + `Locker for ${vault} not found.`);
   }
 
   const userAddress = getUserAddress(this._provider);
@@ -496,7 +550,7 @@ export async function getDepositOf(
 
   const vaultAddress = constants.address[this._network?.name]?.[vault];
   if (!vaultAddress) {
-    throw Error(errorPrefix + `Vault ${vault} not found.`);
+    throw new RifiValidationError(errorPrefix + `Vault ${vault} not found.`);
   }
 
   if (!account) {
@@ -504,29 +558,14 @@ export async function getDepositOf(
   }
 
   const trxOptions: CallOptions = {
-    ...options,
+    ...callOptions(this, options),
     abi: constants.abi.Vault,
-    _rifiProvider: this._provider,
   };
   const parameters = [account];
 
   return await eth.read(vaultAddress, "getBalance", parameters, trxOptions);
 }
 
-interface RewardBalances {
-  symbol: string;
-  pending: BigNumber;
-  vesting: BigNumber;
-  claimable: BigNumber;
-}
-
-interface VestingSchedule {
-  startBlock: BigNumber;
-  endBlock: BigNumber;
-  quantity: BigNumber;
-  vestedQuantity: BigNumber;
-}
-
 /**
  * Query and calculate reward amounts for current user
  *
@@ -562,7 +601,7 @@ export async function getRewardBalances(
   const errorPrefix = "Vault [getRewardBalances] | ";
   const vaultAddress = constants.address[this._network?.name]?.[vault];
   if (!vaultAddress) {
-    throw Error(errorPrefix + `Vault ${vault} not found.`);
+    throw new RifiValidationError(errorPrefix + `Vault ${vault} not found.`);
   }
 
   const rewardLocker = constants.vaultConfig[this._network?.name]?.[vault]?.rewardLocker;
@@ -571,16 +610,15 @@ export async function getRewardBalances(
   const tokenAddress = constants.address[this._network?.name]?.[rewardToken];
   const isNFTVault = constants.vaultConfig[this._network?.name]?.[vault]?.isNFTVault;
   if (rewardToken && !isNFTVault && (!lockerAddress || !tokenAddress)) {
-    throw Error(errorPrefix + `Locker for ${vault} not found.`);
+    throw new RifiValidationError(errorPrefix + `Locker for ${vault} not found.`);
   }
 
   const userAddress = account ? account : await getUserAddress(this._provider);
   const tokenBalances = [];
 
-  let trxOptions: CallOptions = {
-    ...options,
+  const trxOptions: CallOptions = {
+    ...callOptions(this, options),
     abi: constants.abi.VaultV3,
-    _rifiProvider: this._provider,
   };
 
   interface EarningData {
@@ -590,23 +628,32 @@ export async function getRewardBalances(
 
   const earnToken = constants.vaultConfig[this._network?.name]?.[vault]?.earnToken;
 
-  if (earnToken) {
-    const earning: EarningData[] = await eth.read(
-      vaultAddress,
-      "getEarning",
-      [userAddress],
-      trxOptions
-    );
+  const lockerOptions: CallOptions = {
+    ...trxOptions,
+    abi: constants.abi.RewardLocker,
+  };
+  const hasLocker = rewardToken && !isNFTVault;
 
-    for (const val of earning) {
-      for (const sym of earnToken) {
-        if (val.token.toLowerCase() == constants.address[this._network?.name]?.[sym]?.toLowerCase()) {
-          tokenBalances.push({
-            symbol: sym,
-            claimable: val.amount,
-          });
-          break;
-        }
+  // Independent reads are issued together so they share one Multicall request
+  const [ earning, pending, numSchedules ]: [ EarningData[], BigNumber, BigNumber ] = await Promise.all([
+    earnToken ? eth.read(vaultAddress, "getEarning", [userAddress], trxOptions) : [],
+    rewardToken ? eth.read(vaultAddress, "getUnclaimedReward", [userAddress], trxOptions) : undefined,
+    hasLocker ? eth.read(
+      lockerAddress,
+      "numVestingSchedules",
+      [userAddress, tokenAddress],
+      lockerOptions
+    ) : undefined,
+  ]);
+
+  for (const val of earning) {
+    for (const sym of earnToken) {
+      if (val.token.toLowerCase() == constants.address[this._network?.name]?.[sym]?.toLowerCase()) {
+        tokenBalances.push({
+          symbol: sym,
+          claimable: val.amount,
+        });
+        break;
       }
     }
   }
@@ -615,51 +662,33 @@ export async function getRewardBalances(
     return tokenBalances;
   }
 
-  const pending: BigNumber = await eth.read(
-    vaultAddress,
-    "getUnclaimedReward",
-    [userAddress],
-    trxOptions
-  );
-
-  trxOptions = {
-    ...trxOptions,
-    abi: constants.abi.RewardLocker,
-  };
-
   if (isNFTVault) {
     tokenBalances.push({ symbol: rewardToken, pending, vesting: BigNumber.from(0), claimable: pending });
 
     return tokenBalances;
   }
 
-  const numSchedules: BigNumber = await eth.read(
-    lockerAddress,
-    "numVestingSchedules",
-    [userAddress, tokenAddress],
-    trxOptions
-  );
-
   let vesting: BigNumber, claimable: BigNumber;
   if (numSchedules.gt(0)) {
-    try {
-      claimable = await eth.read(
+    let schedules: VestingSchedule[];
+    [ claimable, schedules ] = await Promise.all([
+      // Vests for `msg.sender`, so it cannot go through Multicall
+      eth.read(
         lockerAddress,
         "vestSchedulesInRange",
         [tokenAddress, 0, numSchedules.sub(1)],
-        trxOptions
-      );
-    } catch (err) {
-      console.error("error vestSchedulesInRange  ", err);
-      claimable = BigNumber.from(0);
-    }
-
-    const schedules: VestingSchedule[] = await eth.read(
-      lockerAddress,
-      "getVestingSchedules",
-      [userAddress, tokenAddress],
-      trxOptions
-    );
+        { ...lockerOptions, multicall: false }
+      ).catch((err) => {
+        console.error("error vestSchedulesInRange  ", err);
+        return BigNumber.from(0);
+      }),
+      eth.read(
+        lockerAddress,
+        "getVestingSchedules",
+        [userAddress, tokenAddress],
+        lockerOptions
+      ),
+    ]);
 
     vesting = schedules.reduce<BigNumber>(
       (total, cur) => cur.quantity.sub(cur.vestedQuantity).add(total),
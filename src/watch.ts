@@ -0,0 +1,596 @@
+/**
+ * @file Watch
+ * @desc These methods subscribe to the changes of markets, prices and
+ *     accounts. The subscriptions of a provider share one block listener,
+ *     which works with WebSocket providers as well as HTTP providers that
+ *     poll, and each block's reads are shared by the subscriptions.
+ */
+
+import { ethers, BigNumber } from 'ethers';
+import { getAccountLiquidity } from './cointroller';
+import {
+  rTokenMetadata,
+  rTokenBalancesAll,
+  rTokenUnderlyingPriceAll,
+  getAccountLimits,
+} from './lens';
+import { resolveRToken } from './markets';
+import { netId, usdDecimals, decimalsOf } from './helpers';
+import { RifiValidationError } from './errors';
+import { address, abi, rTokens } from './constants';
+import {
+  RifiInstance,
+  TokenMetadata,
+  TokenBalances,
+  AccountLiquidity,
+  WatchedValue,
+  WatchChanges,
+  WatchOptions,
+  WatchListener,
+  WatchSubscription,
+  MarketUpdate,
+  PriceUpdate,
+  AccountUpdate,
+} from './types';
+
+// After a longer gap, e.g. a lost connection, every subscription is read again
+//     instead of the logs of the gap
+const MAX_LOG_RANGE = 5000;
+
+// Marks every account as changed, e.g. by a new collateral factor
+const ALL_ACCOUNTS = '*';
+
+const rTokenInterface = new ethers.utils.Interface(abi.rBep20);
+const cointrollerInterface = new ethers.utils.Interface(abi.Cointroller);
+
+type WatchKind = 'market' | 'price' | 'account';
+
+interface Snapshot {
+  [field: string]: WatchedValue;
+}
+
+interface Subscriber {
+  kind: WatchKind;
+  // The rToken name of a market or price, the address of an account
+  key: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  listener: WatchListener<any>;
+  options: WatchOptions;
+  snapshot: Snapshot;
+  ready: boolean;
+}
+
+interface Watcher {
+  rifi: RifiInstance;
+  provider: ethers.providers.Provider;
+  subscribers: Set<Subscriber>;
+  prices: Snapshot;
+  lastBlock: number;
+  latestBlock: number;
+  busy: boolean;
+  onBlock: (blockNumber: number) => void;
+}
+
+// One watcher per provider, shared by the instances using it
+const watchers = new Map<ethers.providers.Provider, Promise<Watcher>>();
+
+function rTokenNameOf(netName: string, rTokenAddress: string): string | undefined {
+  return rTokens[netName].find((rTokenName: string) =>
+    address[netName][rTokenName].toLowerCase() === rTokenAddress.toLowerCase()
+  );
+}
+
+function isEqual(a: WatchedValue, b: WatchedValue): boolean {
+  if (BigNumber.isBigNumber(a) && BigNumber.isBigNumber(b)) {
+    return a.eq(b);
+  }
+
+  return a === b;
+}
+
+function diff(previous: Snapshot, current: Snapshot): WatchChanges {
+  const changes: WatchChanges = {};
+  const fields = Object.keys(previous).concat(
+    Object.keys(current).filter((field) => !(field in previous))
+  );
+
+  fields.forEach((field) => {
+    const before = field in previous ? previous[field] : null;
+    const after = field in current ? current[field] : null;
+
+    if (before === null || after === null ? before !== after : !isEqual(before, after)) {
+      changes[field] = { previous: before, current: after };
+    }
+  });
+
+  return changes;
+}
+
+function report(subscriber: Subscriber, error: Error): void {
+  if (subscriber.options.onError) {
+    subscriber.options.onError(error);
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function emit(subscriber: Subscriber, update: any): void {
+  try {
+    subscriber.listener(update);
+  } catch (error) {
+    report(subscriber, error);
+  }
+}
+
+/**
+ * Reads the logs of the markets and the Cointroller between two blocks, and
+ *     finds the markets and the accounts they changed.
+ *
+ * @hidden
+ *
+ * @returns {Set<string>} Returns the rToken names and the account addresses.
+ */
+async function findChanged(
+  watcher: Watcher,
+  marketNames: string[],
+  fromBlock: number,
+  toBlock: number
+): Promise<Set<string>> {
+  const netName = watcher.rifi._network.name;
+  const cointrollerAddress = address[netName].Cointroller;
+  const contracts = marketNames.map((rTokenName) => address[netName][rTokenName]);
+  contracts.push(cointrollerAddress);
+
+  const logs = await Promise.all(contracts.map(
+    (contract) => watcher.provider.getLogs({ address: contract, fromBlock, toBlock })
+  ));
+
+  const changed = new Set<string>();
+
+  [].concat(...logs).forEach((log: ethers.providers.Log) => {
+    const isCointroller = log.address.toLowerCase() === cointrollerAddress.toLowerCase();
+    let parsed: ethers.utils.LogDescription;
+
+    try {
+      parsed = (isCointroller ? cointrollerInterface : rTokenInterface).parseLog(log);
+    } catch (e) {
+      return;
+    }
+
+    if (parsed.name === 'Approval') {
+      return;
+    }
+
+    if (!isCointroller) {
+      changed.add(rTokenNameOf(netName, log.address));
+    }
+
+    if (parsed.name === 'NewCollateralFactor') {
+      changed.add(ALL_ACCOUNTS);
+    }
+
+    // Minters, borrowers, liquidators, senders, accounts entering markets...
+    parsed.eventFragment.inputs.forEach((input, i) => {
+      if (input.type !== 'address') {
+        return;
+      }
+
+      const value: string = parsed.args[i];
+      changed.add(rTokenNameOf(netName, value) || ethers.utils.getAddress(value));
+    });
+  });
+
+  return changed;
+}
+
+interface AccountState {
+  balances: TokenBalances[];
+  liquidity: AccountLiquidity;
+  snapshot: Snapshot;
+}
+
+// The reads of a block, shared by its subscribers
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Reads = Map<string, Promise<any>>;
+
+function readOnce<T>(reads: Reads, key: string, read: () => Promise<T>): Promise<T> {
+  if (!reads.has(key)) {
+    reads.set(key, read());
+  }
+
+  return reads.get(key);
+}
+
+function readMarket(watcher: Watcher, reads: Reads, rTokenName: string): Promise<TokenMetadata> {
+  return readOnce(reads, 'market:' + rTokenName, () => rTokenMetadata.apply(watcher.rifi, [ rTokenName ]));
+}
+
+function readPrices(watcher: Watcher, reads: Reads): Promise<Snapshot> {
+  return readOnce(reads, 'prices', async () => {
+    const netName = watcher.rifi._network.name;
+    const prices = await rTokenUnderlyingPriceAll.apply(watcher.rifi, []);
+    const snapshot: Snapshot = {};
+
+    prices.forEach(({ rToken, underlyingPrice }) => {
+      const rTokenName = rTokenNameOf(netName, rToken);
+
+      if (rTokenName) {
+        snapshot[rTokenName] = underlyingPrice;
+      }
+    });
+
+    return snapshot;
+  });
+}
+
+function readAccount(watcher: Watcher, reads: Reads, account: string): Promise<AccountState> {
+  return readOnce(reads, 'account:' + account, async () => {
+    const netName = watcher.rifi._network.name;
+    const [ balances, liquidity, limits ] = await Promise.all([
+      rTokenBalancesAll.apply(watcher.rifi, [ account ]),
+      getAccountLiquidity.apply(watcher.rifi, [ account ]),
+      getAccountLimits.apply(watcher.rifi, [ account ]),
+    ]);
+
+    const entered = limits.markets.map((market: string) => market.toLowerCase());
+    const snapshot: Snapshot = {};
+
+    balances.forEach((balance: TokenBalances) => {
+      const rTokenName = rTokenNameOf(netName, balance.rToken);
+      const isCollateral = entered.includes(balance.rToken.toLowerCase());
+
+      // Markets the account has never used are left out
+      if (!rTokenName || (balance.balanceOf.isZero() && balance.borrowBalanceCurrent.isZero() && !isCollateral)) {
+        return;
+      }
+
+      snapshot[rTokenName + '.rTokenBalance'] = balance.balanceOf;
+      snapshot[rTokenName + '.supplied'] = balance.balanceOfUnderlying;
+      snapshot[rTokenName + '.borrowed'] = balance.borrowBalanceCurrent;
+      snapshot[rTokenName + '.isCollateral'] = isCollateral;
+    });
+
+    [ 'liquidity', 'shortfall', 'collateralValue', 'borrowValue', 'healthFactor' ].forEach((field) => {
+      snapshot[field] = liquidity[field];
+    });
+
+    return { balances, liquidity, snapshot };
+  });
+}
+
+/**
+ * Reads the state a subscriber watches and calls its listener if it changed.
+ *
+ * @hidden
+ */
+async function refresh(
+  watcher: Watcher,
+  subscriber: Subscriber,
+  reads: Reads,
+  blockNumber: number
+): Promise<void> {
+  const { kind, key } = subscriber;
+  const netName = watcher.rifi._network.name;
+  let market: TokenMetadata;
+  let account: AccountState;
+  let snapshot: Snapshot;
+
+  if (kind === 'market') {
+    market = await readMarket(watcher, reads, key);
+    snapshot = {};
+    Object.keys(market).filter((field) => field !== 'human').forEach((field) => {
+      snapshot[field] = market[field];
+    });
+  } else if (kind === 'price') {
+    const prices = await readPrices(watcher, reads);
+    snapshot = key in prices ? { price: prices[key] } : {};
+  } else {
+    account = await readAccount(watcher, reads, key);
+    snapshot = account.snapshot;
+  }
+
+  const changes = diff(subscriber.snapshot, snapshot);
+  const previous = subscriber.snapshot;
+  subscriber.snapshot = snapshot;
+
+  if (Object.keys(changes).length === 0) {
+    return;
+  }
+
+  if (kind === 'market') {
+    emit(subscriber, { rToken: key, blockNumber, market, changes } as MarketUpdate);
+  } else if (kind === 'price') {
+    const asset = key.slice(1);
+    const priceDecimals = usdDecimals(watcher.rifi) + 18 - decimalsOf(netName, asset);
+    const toNumber = (value) => value ? +ethers.utils.formatUnits(value, priceDecimals) : null;
+    const price = snapshot.price as BigNumber;
+    const before = (previous.price || null) as BigNumber | null;
+
+    emit(subscriber, {
+      rToken: key,
+      asset,
+      blockNumber,
+      price,
+      previous: before,
+      human: { price: toNumber(price), previous: toNumber(before) },
+    } as PriceUpdate);
+  } else {
+    const { balances, liquidity } = account;
+    emit(subscriber, { account: key, blockNumber, balances, liquidity, changes } as AccountUpdate);
+  }
+}
+
+/**
+ * Reads what changed between the last block read and a new block, and
+ *     refreshes the subscribers it concerns. Prices are read on every block,
+ *     as the oracles behind the price feed update without emitting its
+ *     events.
+ *
+ * @hidden
+ */
+async function update(watcher: Watcher, fromBlock: number, toBlock: number): Promise<void> {
+  const netName = watcher.rifi._network.name;
+  const subscribers = Array.from(watcher.subscribers).filter(({ ready }) => ready);
+  const watches = (kind: WatchKind) => subscribers.some((subscriber) => subscriber.kind === kind);
+
+  const reads: Reads = new Map();
+  let changed: Set<string> | null = null;
+
+  if (watches('market') || watches('account')) {
+    const marketNames = watches('account') ? rTokens[netName] : Array.from(new Set(
+      subscribers.filter(({ kind }) => kind === 'market').map(({ key }) => key)
+    ));
+
+    changed = toBlock - fromBlock + 1 > MAX_LOG_RANGE ? null :
+      await findChanged(watcher, marketNames, fromBlock, toBlock);
+  }
+
+  let pricesChanged = false;
+  if (watches('price') || watches('account')) {
+    const prices = await readPrices(watcher, reads);
+    pricesChanged = Object.keys(diff(watcher.prices, prices)).length > 0;
+    watcher.prices = prices;
+  }
+
+  const isChanged = ({ kind, key }: Subscriber): boolean => {
+    if (kind === 'price' || changed === null) {
+      return true;
+    }
+
+    if (kind === 'market') {
+      return changed.has(key);
+    }
+
+    return pricesChanged || changed.has(key) || changed.has(ALL_ACCOUNTS);
+  };
+
+  await Promise.all(subscribers.filter(isChanged).map(
+    (subscriber) => refresh(watcher, subscriber, reads, toBlock)
+      .catch((error) => report(subscriber, error))
+  ));
+}
+
+// Reads the blocks one range at a time, a failed range is read again later
+async function processBlocks(watcher: Watcher): Promise<void> {
+  if (watcher.busy) {
+    return;
+  }
+
+  watcher.busy = true;
+
+  try {
+    while (watcher.lastBlock < watcher.latestBlock) {
+      const toBlock = watcher.latestBlock;
+      await update(watcher, watcher.lastBlock + 1, toBlock);
+      watcher.lastBlock = toBlock;
+    }
+  } catch (error) {
+    watcher.subscribers.forEach((subscriber) => report(subscriber, error));
+  } finally {
+    watcher.busy = false;
+  }
+}
+
+function getWatcher(_rifi: RifiInstance): Promise<Watcher> {
+  const provider = _rifi._provider.provider || _rifi._provider;
+
+  if (!watchers.has(provider)) {
+    const created = provider.getBlockNumber().then((blockNumber: number) => {
+      const watcher: Watcher = {
+        rifi: _rifi,
+        provider,
+        subscribers: new Set(),
+        prices: {},
+        lastBlock: blockNumber,
+        latestBlock: blockNumber,
+        busy: false,
+        onBlock: (latestBlock: number) => {
+          watcher.latestBlock = Math.max(watcher.latestBlock, latestBlock);
+          processBlocks(watcher);
+        },
+      };
+
+      provider.on('block', watcher.onBlock);
+      return watcher;
+    });
+
+    // A failure is not cached, the next subscription tries again
+    created.catch(() => watchers.delete(provider));
+    watchers.set(provider, created);
+  }
+
+  return watchers.get(provider);
+}
+
+function removeSubscriber(watcher: Watcher, subscriber: Subscriber): void {
+  watcher.subscribers.delete(subscriber);
+
+  if (watcher.subscribers.size === 0 && watchers.has(watcher.provider)) {
+    watcher.provider.off('block', watcher.onBlock);
+    watchers.delete(watcher.provider);
+  }
+}
+
+/**
+ * Adds a subscriber to the watcher of an instance's provider and calls its
+ *     listener with the current state.
+ *
+ * @hidden
+ */
+async function subscribe(
+  _rifi: RifiInstance,
+  kind: WatchKind,
+  key: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  listener: WatchListener<any>,
+  options: WatchOptions,
+  errorPrefix: string
+): Promise<WatchSubscription> {
+  if (typeof listener !== 'function') {
+    throw new RifiValidationError(errorPrefix + 'Argument `listener` must be a function.');
+  }
+
+  if (_rifi._blockTag !== undefined) {
+    throw new RifiValidationError(errorPrefix + 'Instances made by `at` cannot watch for changes.');
+  }
+
+  const watcher = await getWatcher(_rifi);
+  const subscriber: Subscriber = { kind, key, listener, options, snapshot: {}, ready: false };
+
+  // Added before the first read, so the watcher is kept while it runs
+  watcher.subscribers.add(subscriber);
+
+  try {
+    await refresh(watcher, subscriber, new Map(), watcher.lastBlock);
+  } catch (error) {
+    removeSubscriber(watcher, subscriber);
+    throw error;
+  }
+
+  subscriber.ready = true;
+
+  return {
+    unsubscribe: () => removeSubscriber(watcher, subscriber),
+  };
+}
+
+/**
+ * Calls a listener when a market changes: its rates, totals, exchange rate,
+ *     collateral factor or listing. The market is read again after blocks
+ *     with its events, like `AccrueInterest`, `Mint` or `Borrow`, or with a
+ *     Cointroller event about it, like `NewCollateralFactor`.
+ *
+ * @param {string} asset The market, e.g. `USDC` or `rUSDC`, or its address.
+ * @param {Function} listener Called with the current state, then with each
+ *     change.
+ * @param {WatchOptions} [options] `onError` is called with the errors of the
+ *     reads and of the listener.
+ *
+ * @returns {WatchSubscription} Returns the subscription, to `unsubscribe`.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi('wss://bsc-ws-node.nariox.org');
+ *
+ * (async function () {
+ *   const subscription = await rifi.watchMarket(Rifi.USDC, ({ changes }) => {
+ *     if (changes.totalBorrows) {
+ *       console.log('Total borrows', changes.totalBorrows.current.toString());
+ *     }
+ *   });
+ * })().catch(console.error);
+ * ```
+ */
+export async function watchMarket(
+  asset: string,
+  listener: WatchListener<MarketUpdate>,
+  options: WatchOptions = {}
+): Promise<WatchSubscription> {
+  await netId(this);
+  const errorPrefix = 'Rifi [watchMarket] | ';
+  const rTokenName = await resolveRToken(this, asset, errorPrefix);
+
+  return subscribe(this, 'market', rTokenName, listener, options, errorPrefix);
+}
+
+/**
+ * Calls a listener when the price feed's price of a market's underlying asset
+ *     changes. The prices of all watched markets are read once per block.
+ *
+ * @param {string} asset The market, e.g. `USDC` or `rUSDC`, or its address.
+ * @param {Function} listener Called with the current price, then with each
+ *     change.
+ * @param {WatchOptions} [options] `onError` is called with the errors of the
+ *     reads and of the listener.
+ *
+ * @returns {WatchSubscription} Returns the subscription, to `unsubscribe`.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi('https://bsc-dataseed.binance.org');
+ *
+ * (async function () {
+ *   await rifi.watchPrice(Rifi.BNB, ({ human }) => {
+ *     console.log('BNB', human.previous, '->', human.price);
+ *   });
+ * })().catch(console.error);
+ * ```
+ */
+export async function watchPrice(
+  asset: string,
+  listener: WatchListener<PriceUpdate>,
+  options: WatchOptions = {}
+): Promise<WatchSubscription> {
+  await netId(this);
+  const errorPrefix = 'Rifi [watchPrice] | ';
+  const rTokenName = await resolveRToken(this, asset, errorPrefix);
+
+  return subscribe(this, 'price', rTokenName, listener, options, errorPrefix);
+}
+
+/**
+ * Calls a listener when an account's position changes: its balances in the
+ *     markets it uses, the markets it entered, and its liquidity and health
+ *     factor. The account is read again after blocks with its events in any
+ *     market or the Cointroller, like `Mint`, `Borrow` or `MarketEntered`,
+ *     and after blocks that change a price.
+ *
+ * @param {string} account The address of the account.
+ * @param {Function} listener Called with the current position, then with
+ *     each change. `changes` names the fields of a market like
+ *     `rUSDC.borrowed`.
+ * @param {WatchOptions} [options] `onError` is called with the errors of the
+ *     reads and of the listener.
+ *
+ * @returns {WatchSubscription} Returns the subscription, to `unsubscribe`.
+ *
+ * @example
+ *
+ * ```
+ * const rifi = new Rifi(window.ethereum);
+ *
+ * (async function () {
+ *   const subscription = await rifi.watchAccount(myAddress, ({ liquidity }) => {
+ *     console.log('Health factor', liquidity.human.healthFactor);
+ *   });
+ *
+ *   // Later
+ *   subscription.unsubscribe();
+ * })().catch(console.error);
+ * ```
+ */
+export async function watchAccount(
+  account: string,
+  listener: WatchListener<AccountUpdate>,
+  options: WatchOptions = {}
+): Promise<WatchSubscription> {
+  await netId(this);
+  const errorPrefix = 'Rifi [watchAccount] | ';
+
+  if (!ethers.utils.isAddress(account)) {
+    throw new RifiValidationError(errorPrefix + 'Argument `account` must be a valid Ethereum address.');
+  }
+
+  return subscribe(this, 'account', ethers.utils.getAddress(account), listener, options, errorPrefix);
+}
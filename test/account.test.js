@@ -0,0 +1,83 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey
+  });
+
+  it('runs account.getMaxBorrow', async function () {
+    const supplyTrx = await rifi.supply(Rifi.ETH, 2);
+    await supplyTrx.wait(1);
+
+    const enterMarketsTrx = await rifi.enterMarkets(Rifi.ETH);
+    await enterMarketsTrx.wait(1);
+
+    const result = await rifi.getMaxBorrow(acc1.address, Rifi.USDC);
+
+    assert.equal(ethers.BigNumber.isBigNumber(result.amount), true);
+    assert.equal(result.human > 0, true);
+    assert.equal([ 'liquidity', 'cash', 'borrowCap' ].includes(result.limitedBy), true);
+  });
+
+  it('runs account.getMaxBorrow with buffer', async function () {
+    const full = await rifi.getMaxBorrow(acc1.address, Rifi.USDC);
+    const buffered = await rifi.getMaxBorrow(acc1.address, Rifi.USDC, 20);
+
+    assert.equal(buffered.amount.lte(full.amount), true);
+  });
+
+  it('runs account.getMaxRedeem', async function () {
+    const result = await rifi.getMaxRedeem(acc1.address, Rifi.ETH);
+
+    assert.equal(ethers.BigNumber.isBigNumber(result.amount), true);
+    assert.equal(result.human > 0, true);
+    assert.equal([ 'balance', 'liquidity', 'cash' ].includes(result.limitedBy), true);
+  });
+
+  it('fails account.getMaxBorrow invalid buffer', async function () {
+    const errorMessage = 'Rifi [getMaxBorrow] | Argument `buffer` must be a percentage from 0 to 100.';
+    try {
+      await rifi.getMaxBorrow(acc1.address, Rifi.USDC, 100);
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails account.getMaxRedeem invalid asset', async function () {
+    const errorMessage = 'Rifi [getMaxRedeem] | Argument `asset` is not supported.';
+    try {
+      await rifi.getMaxRedeem(acc1.address, 'UUU');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('runs account.getLiquidationPrices', async function () {
+    const borrowTrx = await rifi.borrow(Rifi.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const result = await rifi.getLiquidationPrices(acc1.address);
+    const eth = result.find(({ asset }) => asset === Rifi.ETH);
+
+    assert.equal(eth.rToken, Rifi.rETH);
+    assert.equal(eth.direction, 'down');
+    assert.equal(eth.liquidationPrice < eth.price, true);
+    assert.equal(eth.change < 0, true);
+  });
+
+  it('fails account.getLiquidationPrices invalid account', async function () {
+    const errorMessage = 'Rifi [getLiquidationPrices] | Argument `account` must be a valid Ethereum address.';
+    try {
+      await rifi.getLiquidationPrices('bad_address');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}
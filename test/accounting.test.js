@@ -0,0 +1,98 @@
+const assert = require('assert');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey
+  });
+
+  const report = {
+    account: acc1.address,
+    network: 'mainnet',
+    fromBlock: 1,
+    toBlock: 1,
+    records: [{
+      date: '2021-09-01T00:00:00.000Z',
+      timestamp: 1630454400,
+      blockNumber: 1,
+      transactionHash: '0x01',
+      type: 'supply',
+      source: 'rUSDC',
+      asset: 'USDC',
+      amount: '1000.0',
+      rTokenAmount: '49000.0',
+      price: '1.0',
+      value: '1000.0',
+      interestEarned: null,
+      interestPaid: null,
+      counterparty: 'a "quoted", name',
+    }],
+    interest: [],
+  };
+
+  it('runs accounting.toCsv', async function () {
+    const lines = Rifi.accounting.toCsv(report).split('\n');
+
+    assert.equal(lines[0].split(',')[0], 'date');
+    assert.equal(lines[1], '2021-09-01T00:00:00.000Z,1,0x01,supply,rUSDC,USDC,1000.0,49000.0,1.0,1000.0,,,"a ""quoted"", name"');
+    assert.equal(lines.length, 3);
+  });
+
+  it('runs accounting.toJson', async function () {
+    const result = JSON.parse(Rifi.accounting.toJson(report));
+
+    assert.deepEqual(result, report);
+  });
+
+  it('runs accounting.getAccountingReport', async function () {
+    const fromBlock = await rifi._provider.provider.getBlockNumber();
+
+    const supplyTrx = await rifi.supply(Rifi.ETH, 1);
+    await supplyTrx.wait(1);
+
+    const result = await rifi.getAccountingReport(acc1.address, { fromBlock, vaults: [] });
+    const supply = result.records.find(({ type }) => type === 'supply');
+
+    assert.equal(supply.amount, '1.0');
+    assert.equal(+supply.value > 0, true);
+    assert.equal(result.interest[0].rToken, Rifi.rETH);
+  });
+
+  it('runs accounting.getAccountingReport without a price', async function () {
+    const blockNumber = await rifi._provider.provider.getBlockNumber();
+    const activity = {
+      type: 'supply',
+      blockNumber: blockNumber + 1000000,
+      timestamp: null,
+      transactionHash: '0x01',
+      logIndex: 0,
+      source: Rifi.rETH,
+      asset: Rifi.ETH,
+      amount: Rifi._ethers.utils.parseEther('1'),
+      rTokenAmount: Rifi._ethers.utils.parseUnits('50', 8),
+      accountBorrows: null,
+      counterparty: null,
+      collateral: null,
+    };
+
+    const result = await rifi.getAccountingReport(acc1.address, { activities: [ activity ] });
+
+    assert.equal(result.records[0].amount, '1.0');
+    assert.equal(result.records[0].price, null);
+    assert.equal(result.records[0].value, null);
+  });
+
+  it('fails accounting.getAccountingReport invalid activities', async function () {
+    const errorMessage = 'Rifi [getAccountingReport] | Option `activities` must be an array.';
+    try {
+      await rifi.getAccountingReport(acc1.address, { activities: {} });
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}
@@ -0,0 +1,75 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey
+  });
+
+  it('runs activity.createActivityIndexer sync', async function () {
+    const fromBlock = await rifi._provider.provider.getBlockNumber();
+
+    const supplyTrx = await rifi.supply(Rifi.ETH, 1);
+    await supplyTrx.wait(1);
+
+    const indexer = rifi.createActivityIndexer(acc1.address, { fromBlock, vaults: [] });
+    const found = await indexer.sync();
+    const supply = found.find(({ type }) => type === 'supply');
+
+    assert.equal(supply.asset, Rifi.ETH);
+    assert.equal(supply.human.amount, 1);
+    assert.equal(supply.transactionHash, supplyTrx.hash);
+    assert.equal(supply.timestamp > 0, true);
+    assert.equal(indexer.activities.length, found.length);
+  });
+
+  it('runs activity.createActivityIndexer resume', async function () {
+    const fromBlock = await rifi._provider.provider.getBlockNumber();
+
+    const supplyTrx = await rifi.supply(Rifi.ETH, 1);
+    await supplyTrx.wait(1);
+
+    const checkpoints = [];
+    const indexer = rifi.createActivityIndexer(acc1.address, {
+      fromBlock,
+      blockRange: 1,
+      vaults: [],
+      onCheckpoint: (checkpoint) => checkpoints.push(JSON.stringify(checkpoint)),
+    });
+    await indexer.sync();
+
+    const checkpoint = JSON.parse(checkpoints[checkpoints.length - 1]);
+    const resumed = rifi.createActivityIndexer(acc1.address, { checkpoint, vaults: [] });
+    const found = await resumed.sync();
+
+    assert.equal(checkpoints.length > 0, true);
+    assert.equal(found.length, 0);
+    assert.equal(resumed.activities.length, indexer.activities.length);
+    assert.equal(ethers.BigNumber.isBigNumber(resumed.activities[0].amount), true);
+  });
+
+  it('fails activity.createActivityIndexer invalid account', async function () {
+    const errorMessage = 'Rifi [activity] | Argument `account` must be a valid Ethereum address.';
+    try {
+      rifi.createActivityIndexer('0x123');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails activity.createActivityIndexer other account checkpoint', async function () {
+    const errorMessage = 'Rifi [activity] | Option `checkpoint` is for another account.';
+    try {
+      const indexer = rifi.createActivityIndexer(acc1.address, { vaults: [] });
+      rifi.createActivityIndexer(publicKeys[1], { checkpoint: indexer.getCheckpoint() });
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}
@@ -0,0 +1,87 @@
+const assert = require('assert');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey
+  });
+
+  it('runs alerts.check', async function () {
+    const supplyTrx = await rifi.supply(Rifi.ETH, 1);
+    await supplyTrx.wait(1);
+
+    const enterMarketsTrx = await rifi.enterMarkets(Rifi.ETH);
+    await enterMarketsTrx.wait(1);
+
+    const borrowTrx = await rifi.borrow(Rifi.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const states = [];
+    const alerts = rifi.createAlertService({
+      accounts: [ acc1.address ],
+      healthFactors: [ 1000000 ],
+      onState: (state) => states.push(state),
+    });
+
+    const sent = await alerts.check();
+    const again = await alerts.check();
+
+    assert.equal(sent.length, 1);
+    assert.equal(sent[0].type, 'healthFactor');
+    assert.equal(sent[0].threshold, 1000000);
+    assert.equal(sent[0].accounts[0].toLowerCase(), acc1.address.toLowerCase());
+    assert.equal(again.length, 0);
+    assert.deepEqual(states[1].accounts[sent[0].accounts[0]].crossed, [ 1000000 ]);
+    assert.equal(typeof states[1].markets[Rifi.rUSDC].borrowApy, 'number');
+  });
+
+  it('runs alerts.check with saved state', async function () {
+    const first = rifi.createAlertService({ accounts: [ acc1.address ], healthFactors: [ 1000000 ] });
+    await first.check();
+
+    const restarted = rifi.createAlertService({
+      accounts: [ acc1.address ],
+      healthFactors: [ 1000000 ],
+      state: JSON.parse(JSON.stringify(first.getState())),
+    });
+
+    const sent = await restarted.check();
+    assert.equal(sent.length, 0);
+  });
+
+  it('fails alerts.createAlertService invalid account', function () {
+    const errorMessage = 'Rifi [alerts] | Argument `account` must be a valid Ethereum address.';
+    try {
+      rifi.createAlertService({ accounts: [ '0x123' ] });
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails alerts.createAlertService invalid webhooks', function () {
+    const errorMessage = 'Rifi [alerts] | Option `webhooks` must be an array of http or https URLs.';
+    try {
+      rifi.createAlertService({ webhooks: [ 'hooks.example.com' ] });
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails alerts.check state of another network', async function () {
+    const errorMessage = 'Rifi [alerts] | Option `state` is for another network.';
+    const alerts = rifi.createAlertService({
+      state: { network: 'unknown', blockNumber: 1, accounts: {}, markets: {} },
+    });
+
+    try {
+      await alerts.check();
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}
@@ -0,0 +1,94 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const amount = require('../src/amount.ts');
+const Rifi = require('../src/index.ts');
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const { Amount } = amount;
+
+  it('runs amount.Amount.from exact strings', async function () {
+    const result = Amount.from('1.000000000000000001', 18);
+
+    assert.equal(result.mantissa.toString(), '1000000000000000001');
+    assert.equal(result.toString(), '1.000000000000000001');
+  });
+
+  it('runs amount.Amount.from numbers', async function () {
+    assert.equal(Amount.from(0.1, 18).mantissa.toString(), '100000000000000000');
+    assert.equal(Amount.from(1e-7, 8).mantissa.toString(), '10');
+    assert.equal(Amount.from(123456789, 18).mantissa.toString(), '123456789000000000000000000');
+  });
+
+  it('runs amount.Amount.from rounding', async function () {
+    assert.equal(Amount.from('1.2345', 2).mantissa.toString(), '123');
+    assert.equal(Amount.from('1.2345', 2, 'up').mantissa.toString(), '124');
+    assert.equal(Amount.from('1.235', 2, 'halfUp').mantissa.toString(), '124');
+    assert.equal(Amount.from('1.225', 2, 'halfEven').mantissa.toString(), '122');
+    assert.equal(Amount.from('-1.2345', 2, 'up').mantissa.toString(), '-124');
+  });
+
+  it('runs amount.Amount.from BigNumber', async function () {
+    const result = Amount.from(ethers.BigNumber.from(5), 6);
+    assert.equal(result.mantissa.toString(), '5000000');
+  });
+
+  it('runs amount.Amount.fromMantissa', async function () {
+    const result = Amount.fromMantissa('123456789', 6);
+
+    assert.equal(result.toString(), '123.456789');
+    assert.equal(result.format(2), '123.46');
+    assert.equal(Amount.fromMantissa('5', 6).format(), '0.000005');
+  });
+
+  it('runs amount.Amount arithmetic', async function () {
+    const a = Amount.from('0.1', 18);
+    const b = Amount.from('0.2', 18);
+
+    assert.equal(a.add(b).toString(), '0.3');
+    assert.equal(a.sub(b).toString(), '-0.1');
+    assert.equal(a.mul('3').toString(), '0.3');
+    assert.equal(Amount.from(1, 6).div('3').toString(), '0.333333');
+    assert.equal(a.lt(b), true);
+    assert.equal(a.add(a).eq(b), true);
+  });
+
+  it('runs amount.Amount.toUnderlying', async function () {
+    // 0.02 USDC (6 decimals) per rUSDC (8 decimals)
+    const exchangeRate = ethers.BigNumber.from('200000000000000');
+    const rTokens = Amount.from('5000', 8);
+    const underlying = rTokens.toUnderlying(exchangeRate, 6);
+
+    assert.equal(underlying.toString(), '100');
+    assert.equal(underlying.toRToken(exchangeRate, 8).toString(), '5000');
+  });
+
+  it('runs amount.Amount static', async function () {
+    assert.equal(Rifi.Amount, Amount);
+  });
+
+  it('fails amount.Amount.from invalid', async function () {
+    const errorMessage = 'Rifi [Amount] | `1.2.3` is not a decimal number.';
+
+    assert.throws(() => {
+      Amount.from('1.2.3', 18);
+    }, { message: errorMessage });
+  });
+
+  it('fails amount.Amount.from infinite', async function () {
+    const errorMessage = 'Rifi [Amount] | `Infinity` is not a finite number.';
+
+    assert.throws(() => {
+      Amount.from(Infinity, 18);
+    }, { message: errorMessage });
+  });
+
+  it('fails amount.Amount.div by zero', async function () {
+    const errorMessage = 'Rifi [Amount] | Division by zero.';
+
+    assert.throws(() => {
+      Amount.from(1, 18).div(0);
+    }, { message: errorMessage });
+  });
+
+}
@@ -0,0 +1,44 @@
+const assert = require('assert');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const rifi = new Rifi(providerUrl);
+
+  it('runs apy.getMarketApys', async function () {
+    const result = await rifi.getMarketApys(Rifi.USDC, { rifiPrice: '0.05' });
+
+    assert.equal(result.rToken, Rifi.rUSDC);
+    assert.equal(result.underlying, Rifi.USDC);
+    assert.equal(result.blocksPerYear, Rifi.blocksPerYear.mainnet);
+    assert.equal(typeof result.supplyApy, 'number');
+    assert.equal(result.borrowApy >= result.supplyApy, true);
+    assert.equal(typeof result.rifiSupplyApy, 'number');
+  });
+
+  it('runs apy.getMarketApys without RIFI price', async function () {
+    const result = await rifi.getMarketApys(Rifi.rUSDC);
+
+    assert.equal(result.rifiSupplyApy, null);
+    assert.equal(result.rifiBorrowApy, null);
+  });
+
+  it('runs apy.getAllMarketApys', async function () {
+    const result = await rifi.getAllMarketApys();
+    const rUsdc = result.find(m => m.rToken === Rifi.rUSDC);
+
+    assert.equal(result.length >= 1, true);
+    assert.equal(typeof rUsdc.supplyApy, 'number');
+  });
+
+  it('fails apy.getMarketApys asset not supported', async function () {
+    const errorMessage = 'Rifi [getMarketApys] | Argument `asset` is not supported.';
+    try {
+      await rifi.getMarketApys('UNKNOWN');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}
@@ -95,4 +95,85 @@ module.exports = function suite([ publicKeys, privateKeys ]) {
     }
   });
 
+  it('runs cointroller.getAccountLiquidity', async function () {
+    const result = await rifi.getAccountLiquidity(acc1.address);
+
+    const collateralMinusBorrows = result.liquidity.sub(result.shortfall);
+
+    assert.equal(ethers.BigNumber.isBigNumber(result.healthFactor), true);
+    assert.equal(result.collateralValue.sub(result.borrowValue).eq(collateralMinusBorrows), true);
+    assert.equal(typeof result.human.healthFactor, 'number');
+  });
+
+  it('runs cointroller.simulateAccountLiquidity borrow', async function () {
+    const supplyTrx = await rifi.supply(Rifi.ETH, 2);
+    await supplyTrx.wait(1);
+
+    const enterMarketsTrx = await rifi.enterMarkets(Rifi.ETH);
+    await enterMarketsTrx.wait(1);
+
+    const before = await rifi.getAccountLiquidity(acc1.address);
+    const after = await rifi.simulateAccountLiquidity(acc1.address, {
+      rToken: Rifi.USDC,
+      borrow: 10,
+    });
+
+    assert.equal(after.borrowValue.gt(before.borrowValue), true);
+    assert.equal(after.human.healthFactor < before.human.healthFactor, true);
+  });
+
+  it('runs cointroller.simulateAccountLiquidity repay', async function () {
+    const borrowTrx = await rifi.borrow(Rifi.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const before = await rifi.getAccountLiquidity(acc1.address);
+    const after = await rifi.simulateAccountLiquidity(acc1.address, {
+      rToken: Rifi.USDC,
+      repay: 5,
+    });
+
+    assert.equal(after.borrowValue.lt(before.borrowValue), true);
+    assert.equal(after.liquidity.gt(before.liquidity), true);
+    assert.equal(after.human.healthFactor > before.human.healthFactor, true);
+  });
+
+  it('runs cointroller.simulateAccountLiquidity repay more than borrowed', async function () {
+    const borrowed = await Rifi.eth.read(
+      Rifi.util.getAddress(Rifi.rUSDC),
+      'function borrowBalanceStored(address) returns (uint)',
+      [ acc1.address ],
+      { provider: providerUrl }
+    );
+
+    const repayAll = await rifi.simulateAccountLiquidity(acc1.address, {
+      rToken: Rifi.USDC,
+      repay: borrowed,
+    }, { mantissa: true });
+    const repayMore = await rifi.simulateAccountLiquidity(acc1.address, {
+      rToken: Rifi.USDC,
+      repay: 1000000,
+    });
+
+    assert.equal(repayMore.liquidity.eq(repayAll.liquidity), true);
+    assert.equal(repayMore.borrowValue.eq(repayAll.borrowValue), true);
+  });
+
+  it('fails cointroller.getAccountLiquidity invalid account', async function () {
+    const errorMessage = 'Rifi [getAccountLiquidity] | Argument `account` must be a valid Ethereum address.';
+    try {
+      await rifi.getAccountLiquidity('bad_address');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails cointroller.simulateAccountLiquidity invalid rToken', async function () {
+    const errorMessage = 'Rifi [simulateAccountLiquidity] | Provided market `rbadrtokenname` is not a recognized rToken.';
+    try {
+      await rifi.simulateAccountLiquidity(acc1.address, { rToken: 'badrtokenname', borrow: 1 });
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
 }
@@ -0,0 +1,54 @@
+const assert = require('assert');
+const deployment = require('../src/deployment.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  it('runs deployment.verifyDeployment', async function () {
+    const report = await deployment.verifyDeployment('mainnet', providerUrl);
+
+    assert.equal(report.network, 'mainnet');
+    assert.equal(typeof report.ok, 'boolean');
+    assert.equal(report.ok, report.checks.every(c => c.ok));
+
+    const rUsdcChecks = report.checks.filter(c => c.target === 'rUSDC').map(c => c.check);
+    assert.deepEqual(rUsdcChecks, [ 'bytecode', 'underlying', 'decimals', 'cointroller', 'isListed', 'price' ]);
+  });
+
+  it('runs deployment.verifyDeployment oracle', async function () {
+    const report = await deployment.verifyDeployment('mainnet', providerUrl);
+    const oracle = report.checks.find(c => c.target === 'Cointroller' && c.check === 'oracle');
+
+    assert.equal(oracle.ok, oracle.actual.toLowerCase() === oracle.expected.toLowerCase());
+  });
+
+  it('runs deployment.verifyDeployment empty address', async function () {
+    const report = await deployment.verifyDeployment('mainnet', providerUrl);
+    const dai = report.checks.find(c => c.target === 'DAI');
+
+    assert.equal(dai.check, 'bytecode');
+    assert.equal(dai.ok, false);
+    assert.equal(dai.message, 'No address is configured.');
+  });
+
+  it('fails deployment.verifyDeployment unknown network', async function () {
+    const errorMessage = 'Rifi [verifyDeployment] | Argument `network` must be a configured network name.';
+
+    try {
+      await deployment.verifyDeployment('unknown', providerUrl);
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails deployment.verifyDeployment other network', async function () {
+    const errorMessage = 'Rifi [verifyDeployment] | The provider is connected to mainnet, not bsc_mainnet.';
+
+    try {
+      await deployment.verifyDeployment('bsc_mainnet', providerUrl);
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}
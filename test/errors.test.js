@@ -0,0 +1,110 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const errors = require('../src/errors.ts');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey
+  });
+
+  const network = 'bsc_mainnet';
+  const cointrollerAddress = Rifi.util.getAddress('Cointroller', network);
+  const rTokenAddress = Rifi.util.getAddress(Rifi.rUSDT, network);
+
+  it('runs errors.decodeFailure cointroller code', async function () {
+    const failure = errors.decodeFailure(cointrollerAddress, network, 4);
+
+    assert.equal(failure.code, 4);
+    assert.equal(failure.error, 'INSUFFICIENT_LIQUIDITY');
+    assert.equal(typeof failure.description, 'string');
+  });
+
+  it('runs errors.decodeFailure rToken rejection', async function () {
+    const failure = errors.decodeFailure(rTokenAddress, network, 3, 14, 4);
+
+    assert.equal(failure.error, 'COINTROLLER_REJECTION');
+    assert.equal(failure.infoName, 'BORROW_COINTROLLER_REJECTION');
+    assert.equal(failure.detail, 4);
+    assert.equal(failure.detailName, 'INSUFFICIENT_LIQUIDITY');
+  });
+
+  it('runs errors.decodeFailure unknown contract', async function () {
+    const failure = errors.decodeFailure(acc1.address, network, 3);
+
+    assert.equal(failure.code, 3);
+    assert.equal(failure.error, undefined);
+  });
+
+  it('runs errors.decodeFailureLogs', async function () {
+    const iface = new ethers.utils.Interface([
+      'event Failure(uint error, uint info, uint detail)',
+      'event Transfer(address indexed from, address indexed to, uint amount)',
+    ]);
+    const failureLog = {
+      address: rTokenAddress,
+      ...iface.encodeEventLog(iface.getEvent('Failure'), [ 3, 31, 9 ]),
+    };
+    const transferLog = {
+      address: rTokenAddress,
+      ...iface.encodeEventLog(iface.getEvent('Transfer'), [ acc1.address, acc1.address, 1 ]),
+    };
+
+    const failures = errors.decodeFailureLogs([ transferLog, failureLog ], network);
+
+    assert.equal(failures.length, 1);
+    assert.equal(failures[0].infoName, 'MINT_COINTROLLER_REJECTION');
+    assert.equal(failures[0].detailName, 'MARKET_NOT_LISTED');
+  });
+
+  it('runs errors.toRifiError revert', async function () {
+    const reason = 'borrow paused';
+    const data = '0x08c379a0' + ethers.utils.defaultAbiCoder.encode([ 'string' ], [ reason ]).slice(2);
+    const error = errors.toRifiError('failed', { message: 'call exception', data });
+
+    assert.equal(error instanceof errors.RifiRevertError, true);
+    assert.equal(error instanceof errors.RifiError, true);
+    assert.equal(error.reason, reason);
+    assert.equal(error.message, 'failed');
+  });
+
+  it('runs errors.toRifiError network', async function () {
+    const error = errors.toRifiError('failed', {
+      message: 'could not detect network',
+      code: ethers.utils.Logger.errors.NETWORK_ERROR,
+    }, 'mint', []);
+
+    assert.equal(error instanceof errors.RifiNetworkError, true);
+    assert.equal(error.method, 'mint');
+  });
+
+  it('fails with RifiValidationError', async function () {
+    try {
+      await rifi.supply('UNKNOWN', 1);
+    } catch (e) {
+      assert.equal(e instanceof Rifi.errors.RifiValidationError, true);
+      assert.equal(e.message, 'Rifi [supply] | Argument `asset` cannot be supplied.');
+    }
+  });
+
+  it('fails eth.read with RifiRevertError', async function () {
+    const rTokenAddress = Rifi.util.getAddress(Rifi.rUSDC);
+
+    try {
+      await Rifi.eth.read(
+        rTokenAddress,
+        'function notAFunction() returns (uint256)',
+        [],
+        { provider: providerUrl, multicall: false }
+      );
+    } catch (e) {
+      assert.equal(e instanceof Rifi.errors.RifiRevertError, true);
+      assert.equal(e.message, 'Error occurred during [eth_call]. See {error}.');
+    }
+  });
+
+}
@@ -0,0 +1,88 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const gas = require('../src/gas.ts');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey
+  });
+
+  it('runs gas.configure', async function () {
+    const strategy = gas.fixed({ gasPrice: 1e9 });
+    const settings = gas.configure({ strategy });
+
+    assert.equal(settings.strategy, strategy);
+
+    gas.configure({ strategy: null });
+  });
+
+  it('runs gas.fixed', async function () {
+    const fees = await gas.fixed({ gasPrice: 5e9 })({});
+
+    assert.equal(fees.gasPrice, 5e9);
+  });
+
+  it('runs gas.applyFees legacy', async function () {
+    const provider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const overrides = {};
+
+    await gas.applyFees(provider, { type: 0, gasStrategy: gas.fixed({ maxFeePerGas: 7e9 }) }, overrides);
+
+    assert.equal(overrides.type, 0);
+    assert.equal(overrides.gasPrice, 7e9);
+  });
+
+  it('runs gas.applyFees EIP-1559', async function () {
+    const provider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const overrides = {};
+
+    await gas.applyFees(provider, { type: 2, gasStrategy: gas.fixed({ gasPrice: 7e9 }) }, overrides);
+
+    assert.equal(overrides.type, 2);
+    assert.equal(overrides.maxFeePerGas, 7e9);
+    assert.equal(overrides.maxPriorityFeePerGas, 7e9);
+  });
+
+  it('runs gas.applyFees keeps explicit fees', async function () {
+    const provider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const overrides = { gasPrice: 3e9 };
+
+    await gas.applyFees(provider, { gasPrice: 3e9, gasStrategy: gas.fixed({ gasPrice: 9e9 }) }, overrides);
+
+    assert.equal(overrides.type, 0);
+    assert.equal(overrides.gasPrice, 3e9);
+  });
+
+  it('runs gas.supportsEip1559', async function () {
+    const provider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const eip1559 = await gas.supportsEip1559(provider);
+
+    assert.equal(typeof eip1559, 'boolean');
+  });
+
+  it('runs eth.trx constant member without a gas strategy', async function () {
+    let calls = 0;
+    const gasStrategy = async () => {
+      calls++;
+      return { gasPrice: 5e9 };
+    };
+
+    const assets = await rifi.getAssetsInAccount(acc1.address, { gasStrategy });
+
+    assert.equal(Array.isArray(assets), true);
+    assert.equal(calls, 0);
+  });
+
+  it('runs rToken.supply with a gas strategy', async function () {
+    const trx = await rifi.supply(Rifi.ETH, 1, { gasStrategy: Rifi.gas.multiplier(1.1) });
+    const receipt = await trx.wait(1);
+
+    assert.equal(receipt.status, 1);
+  });
+
+}
@@ -15,6 +15,26 @@ const gov = require('./gov.test.js');
 const priceFeed = require('./priceFeed.test.js');
 const util = require('./util.test.js');
 const initialize = require('./initialize.test.js');
+const multicall = require('./multicall.test.js');
+const account = require('./account.test.js');
+const liquidator = require('./liquidator.test.js');
+const errors = require('./errors.test.js');
+const transaction = require('./transaction.test.js');
+const gas = require('./gas.test.js');
+const signer = require('./signer.test.js');
+const networks = require('./networks.test.js');
+const deployment = require('./deployment.test.js');
+const markets = require('./markets.test.js');
+const amount = require('./amount.test.js');
+const apy = require('./apy.test.js');
+const interestRateModel = require('./interestRateModel.test.js');
+const lens = require('./lens.test.js');
+const portfolio = require('./portfolio.test.js');
+const activity = require('./activity.test.js');
+const accounting = require('./accounting.test.js');
+const watch = require('./watch.test.js');
+const alerts = require('./alerts.test.js');
+const keeper = require('./keeper.test.js');
 
 const providerUrl = process.env.MAINNET_PROVIDER_URL;
 
@@ -53,6 +73,26 @@ describe('Rifi.js', function () {
   describe('./src/priceFeed.ts', priceFeed.bind(this, acc));
   describe('./src/util.ts', util.bind(this, acc));
   describe('initialize', initialize.bind(this, acc));
+  describe('./src/multicall.ts', multicall.bind(this, acc));
+  describe('./src/account.ts', account.bind(this, acc));
+  describe('./src/liquidator.ts', liquidator.bind(this, acc));
+  describe('./src/errors.ts', errors.bind(this, acc));
+  describe('./src/transaction.ts', transaction.bind(this, acc));
+  describe('./src/gas.ts', gas.bind(this, acc));
+  describe('./src/signer.ts', signer.bind(this, acc));
+  describe('./src/networks.ts', networks.bind(this, acc));
+  describe('./src/deployment.ts', deployment.bind(this, acc));
+  describe('./src/markets.ts', markets.bind(this, acc));
+  describe('./src/amount.ts', amount.bind(this, acc));
+  describe('./src/apy.ts', apy.bind(this, acc));
+  describe('./src/interestRateModel.ts', interestRateModel.bind(this, acc));
+  describe('./src/lens.ts', lens.bind(this, acc));
+  describe('./src/portfolio.ts', portfolio.bind(this, acc));
+  describe('./src/activity.ts', activity.bind(this, acc));
+  describe('./src/accounting.ts', accounting.bind(this, acc));
+  describe('./src/watch.ts', watch.bind(this, acc));
+  describe('./src/alerts.ts', alerts.bind(this, acc));
+  describe('./src/keeper.ts', keeper.bind(this, acc));
 });
 
 after(function () {
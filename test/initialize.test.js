@@ -55,4 +55,46 @@ module.exports = function suite() {
     assert.equal(typeof rifi, expectedType);
   });
 
-}
\ No newline at end of file
+  it('initializes rifi with the RifiClient class', async function () {
+    const rifi = new Rifi.RifiClient(providerUrl, {
+      privateKey: unlockedPrivateKey
+    });
+
+    assert.equal(rifi instanceof Rifi.RifiClient, true);
+    assert.equal(typeof rifi.supply, 'function');
+    assert.equal(typeof rifi.getMarketApys, 'function');
+  });
+
+  it('runs client.at', async function () {
+    const rifi = new Rifi(providerUrl, {
+      privateKey: unlockedPrivateKey
+    });
+    const account = await rifi._provider.getAddress();
+
+    const blockBefore = await rifi._provider.provider.getBlockNumber();
+    const trx = await rifi.supply(Rifi.ETH, 1);
+    await trx.wait(1);
+
+    const past = rifi.at(blockBefore);
+    const balanceBefore = await past.getBalanceOf(Rifi.rETH, account);
+    const balanceAfter = await rifi.getBalanceOf(Rifi.rETH, account);
+    const balanceAt = await past.getBalanceOf(Rifi.rETH, account, { blockTag: 'latest' });
+
+    assert.equal(past._blockTag, blockBefore);
+    assert.equal(rifi._blockTag, undefined);
+    assert.equal(balanceAfter.gt(balanceBefore), true);
+    assert.equal(balanceAt.eq(balanceAfter), true);
+  });
+
+  it('fails client.at invalid block tag', async function () {
+    const rifi = new Rifi(providerUrl);
+
+    const errorMessage = 'Rifi [at] | Argument `blockTag` must be a block number or a block tag.';
+    try {
+      rifi.at('yesterday');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}
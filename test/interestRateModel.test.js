@@ -0,0 +1,56 @@
+const assert = require('assert');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const rifi = new Rifi(providerUrl);
+
+  it('runs interestRateModel.getInterestRateModel', async function () {
+    const model = await rifi.getInterestRateModel(Rifi.USDC);
+
+    assert.equal(model.rToken, Rifi.rUSDC);
+    assert.equal(Rifi._ethers.utils.isAddress(model.address), true);
+    assert.equal(model.getBorrowRateAt(0).ratePerBlock.eq(model.baseRatePerBlock), true);
+    assert.equal(model.getSupplyRateAt(0).ratePerBlock.isZero(), true);
+  });
+
+  it('runs interestRateModel.getBorrowRateAt above kink', async function () {
+    const model = await rifi.getInterestRateModel(Rifi.USDC);
+    const kink = Rifi._ethers.utils.formatUnits(model.kink, 18);
+
+    const atKink = model.getBorrowRateAt(kink);
+    const aboveKink = model.getBorrowRateAt(+kink + 0.1);
+
+    assert.equal(aboveKink.ratePerBlock.gte(atKink.ratePerBlock), true);
+    assert.equal(aboveKink.apy >= atKink.apy, true);
+  });
+
+  it('runs interestRateModel.predictRates', async function () {
+    const result = await rifi.predictRates(Rifi.USDC, 'supply', 1000);
+
+    assert.equal(result.rToken, Rifi.rUSDC);
+    assert.equal(result.amount.toString(), '1000000000');
+    assert.equal(result.predicted.utilization <= result.current.utilization, true);
+    assert.equal(result.predicted.borrowRate.ratePerBlock.lte(result.current.borrowRate.ratePerBlock), true);
+  });
+
+  it('fails interestRateModel.predictRates invalid action', async function () {
+    const errorMessage = 'Rifi [predictRates] | Argument `action` must be one of supply, redeem, borrow, repay.';
+    try {
+      await rifi.predictRates(Rifi.USDC, 'mint', 1);
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails interestRateModel.getInterestRateModel asset not supported', async function () {
+    const errorMessage = 'Rifi [getInterestRateModel] | Argument `asset` is not supported.';
+    try {
+      await rifi.getInterestRateModel('UNKNOWN');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}
@@ -0,0 +1,116 @@
+const assert = require('assert');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey
+  });
+
+  it('runs keeper.run dry run', async function () {
+    const supplyTrx = await rifi.supply(Rifi.ETH, 1);
+    await supplyTrx.wait(1);
+
+    const enterMarketsTrx = await rifi.enterMarkets(Rifi.ETH);
+    await enterMarketsTrx.wait(1);
+
+    const borrowTrx = await rifi.borrow(Rifi.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const audited = [];
+    const keeper = rifi.createRepayKeeper({
+      healthFactor: 1000000,
+      targetHealthFactor: 2000000,
+      assets: [ Rifi.USDC ],
+      redeem: false,
+      dryRun: true,
+      onAudit: (entry) => audited.push(entry),
+    });
+
+    const before = await rifi.getAccountLiquidity(acc1.address);
+    const result = await keeper.run();
+    const after = await rifi.getAccountLiquidity(acc1.address);
+    const repay = result.entries.find(({ action }) => action === 'repay');
+
+    assert.equal(result.triggered, true);
+    assert.equal(result.entries[0].status, 'triggered');
+    assert.equal(repay.status, 'dryRun');
+    assert.equal(repay.asset, Rifi.USDC);
+    assert.equal(repay.simulatedHealthFactor > result.healthFactor, true);
+    assert.equal(audited.length, result.entries.length);
+    assert.equal(after.borrowValue.gte(before.borrowValue), true);
+  });
+
+  it('runs keeper.run', async function () {
+    const supplyTrx = await rifi.supply(Rifi.ETH, 1);
+    await supplyTrx.wait(1);
+
+    const enterMarketsTrx = await rifi.enterMarkets(Rifi.ETH);
+    await enterMarketsTrx.wait(1);
+
+    const borrowTrx = await rifi.borrow(Rifi.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const keeper = rifi.createRepayKeeper({
+      healthFactor: 1000000,
+      targetHealthFactor: 2000000,
+      assets: [ Rifi.USDC ],
+      redeem: false,
+      dryRun: false,
+    });
+
+    const before = await rifi.getAccountLiquidity(acc1.address);
+    const result = await keeper.run();
+    const after = await rifi.getAccountLiquidity(acc1.address);
+    const confirmed = keeper.auditLog.filter(({ status }) => status === 'confirmed');
+
+    assert.equal(result.triggered, true);
+    assert.equal(confirmed.length > 0, true);
+    assert.equal(confirmed[0].action, 'repay');
+    assert.equal(confirmed[0].asset, Rifi.USDC);
+    assert.equal(keeper.getSpent() > 0, true);
+    assert.equal(after.borrowValue.lt(before.borrowValue), true);
+  });
+
+  it('runs keeper.run spend limit', async function () {
+    const keeper = rifi.createRepayKeeper({
+      healthFactor: 1000000,
+      targetHealthFactor: 2000000,
+      maxSpendPerDay: 1,
+      auditLog: [ {
+        timestamp: Date.now(),
+        action: 'repay',
+        status: 'confirmed',
+        value: 1,
+      } ],
+    });
+
+    const result = await keeper.run();
+
+    assert.equal(keeper.getSpent(), 1);
+    assert.equal(result.entries[1].status, 'skipped');
+    assert.equal(result.entries[1].message, 'The spend limit is reached.');
+  });
+
+  it('fails keeper.createRepayKeeper invalid target', function () {
+    const errorMessage = 'Rifi [keeper] | Option `targetHealthFactor` must be above `healthFactor`.';
+    try {
+      rifi.createRepayKeeper({ healthFactor: 1.5, targetHealthFactor: 1.2 });
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails keeper.createRepayKeeper invalid spend limit', function () {
+    const errorMessage = 'Rifi [keeper] | Option `maxSpendPerRun` must be a positive number.';
+    try {
+      rifi.createRepayKeeper({ maxSpendPerRun: -1 });
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}
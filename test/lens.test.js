@@ -0,0 +1,131 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey
+  });
+
+  it('runs lens.rTokenMetadata', async function () {
+    const result = await rifi.rTokenMetadata(Rifi.rUSDC);
+
+    assert.equal(Array.isArray(result), false);
+    assert.equal(ethers.BigNumber.isBigNumber(result.totalCash), true);
+    assert.equal(result.isListed, true);
+    assert.equal(result.human, undefined);
+  });
+
+  it('runs lens.rTokenMetadataAll with human', async function () {
+    const result = await rifi.rTokenMetadataAll({ human: true });
+
+    assert.equal(Array.isArray(result.rTokens), true);
+    assert.equal(typeof result.rTokens[0].human.totalCash, 'number');
+    assert.equal(result.rTokens[0].human.collateralFactorMantissa < 1, true);
+  });
+
+  it('runs lens.rTokenBalances with human', async function () {
+    const result = await rifi.rTokenBalances(Rifi.rUSDC, acc1.address, { human: true });
+
+    assert.equal(ethers.BigNumber.isBigNumber(result.balanceOf), true);
+    assert.equal(typeof result.human.balanceOfUnderlying, 'number');
+  });
+
+  it('runs lens.rTokenUnderlyingPrice with human', async function () {
+    const result = await rifi.rTokenUnderlyingPrice(Rifi.rUSDC, { human: true });
+
+    assert.equal(result.human.underlyingPrice > 0.9, true);
+    assert.equal(result.human.underlyingPrice < 1.1, true);
+  });
+
+  it('runs lens.getAccountLimits with human', async function () {
+    const result = await rifi.getAccountLimits(acc1.address, { human: true });
+
+    assert.equal(Array.isArray(result.markets), true);
+    assert.equal(typeof result.human.liquidity, 'number');
+  });
+
+  it('runs lens.getRifiBalanceMetadataExt', async function () {
+    const result = await rifi.getRifiBalanceMetadataExt(acc1.address, { human: true });
+
+    assert.equal(ethers.BigNumber.isBigNumber(result.allocated), true);
+    assert.equal(ethers.utils.isAddress(result.delegate), true);
+    assert.equal(typeof result.human.balance, 'number');
+  });
+
+  it('runs lens.getRifiVotes', async function () {
+    const blockNumber = await rifi._provider.getBlockNumber();
+    const result = await rifi.getRifiVotes(acc1.address, [ blockNumber - 1 ]);
+
+    assert.equal(result.length, 1);
+    assert.equal(result[0].blockNumber.toNumber(), blockNumber - 1);
+  });
+
+  it('fails lens.getRifiBalanceMetadata invalid account', async function () {
+    const errorMessage = 'Rifi [getRifiBalanceMetadata] | Argument `account` must be a valid Ethereum address.';
+    try {
+      await rifi.getRifiBalanceMetadata('0x123');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails lens.rTokenBalances invalid account', async function () {
+    const errorMessage = 'Rifi [rTokenBalances] | Argument `account` must be a valid Ethereum address.';
+    try {
+      await rifi.rTokenBalances(Rifi.rUSDC, '0x123');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails lens.rTokenBalancesAll invalid account', async function () {
+    const errorMessage = 'Rifi [rTokenBalancesAll] | Argument `account` must be a valid Ethereum address.';
+    try {
+      await rifi.rTokenBalancesAll('0x123');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails lens.getAccountLimits invalid account', async function () {
+    const errorMessage = 'Rifi [getAccountLimits] | Argument `account` must be a valid Ethereum address.';
+    try {
+      await rifi.getAccountLimits('0x123');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails lens.getGovProposals invalid proposalIds', async function () {
+    const errorMessage = 'Rifi [getGovProposals] | Argument `proposalIds` must be an array of non-negative integers.';
+    try {
+      await rifi.getGovProposals([ -1 ]);
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails lens.rTokenUnderlyingPrice invalid rToken', async function () {
+    const errorMessage = 'Rifi [rTokenUnderlyingPrice] | Argument `rTokenName` is not a rToken.';
+    try {
+      await rifi.rTokenUnderlyingPrice(Rifi.USDC);
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails lens.rTokenMetadata invalid rToken', async function () {
+    const errorMessage = 'Rifi [rTokenMetadata] | Argument `rTokenName` is not a rToken.';
+    try {
+      await rifi.rTokenMetadata(Rifi.USDC);
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}
@@ -0,0 +1,128 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+  const acc3 = { address: publicKeys[2], privateKey: privateKeys[2] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey
+  });
+
+  it('runs liquidator.addBorrower', async function () {
+    const liquidator = rifi.createLiquidator();
+    liquidator.addBorrower(acc1.address.toLowerCase());
+
+    assert.equal(liquidator.borrowers.has(ethers.utils.getAddress(acc1.address)), true);
+  });
+
+  it('fails liquidator.addBorrower address invalid', async function () {
+    const liquidator = rifi.createLiquidator();
+    const errorMessage = 'Rifi [liquidator] | Argument `borrower` must be a valid Ethereum address.';
+
+    try {
+      liquidator.addBorrower('0xbad');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('runs liquidator.sync', async function () {
+    const latestBlock = await rifi._provider.provider.getBlockNumber();
+    const liquidator = rifi.createLiquidator({ fromBlock: latestBlock - 100, blockRange: 50 });
+    const count = await liquidator.sync();
+
+    assert.equal(count, liquidator.borrowers.size);
+  });
+
+  it('runs liquidator.evaluate healthy account', async function () {
+    const liquidator = rifi.createLiquidator();
+    const opportunities = await liquidator.evaluate(acc1.address);
+
+    assert.deepEqual(opportunities, []);
+  });
+
+  it('runs liquidator.run without executing', async function () {
+    const liquidator = rifi.createLiquidator({ nativePrice: 1 });
+    liquidator.addBorrower(acc1.address);
+
+    const { opportunities, transactions, failures } = await liquidator.run();
+
+    assert.equal(Array.isArray(opportunities), true);
+    assert.deepEqual(transactions, []);
+    assert.deepEqual(failures, []);
+  });
+
+  it('runs liquidator.run executing a shortfall', async function () {
+    const borrower = new Rifi(providerUrl, { privateKey: acc3.privateKey });
+    const provider = new ethers.providers.JsonRpcProvider(providerUrl);
+
+    // Lower the rETH collateral factor as the Cointroller admin of the fork
+    const cointroller = new ethers.Contract(
+      Rifi.util.getAddress('Cointroller'),
+      Rifi.util.getAbi('Cointroller'),
+      provider
+    );
+    const admin = await cointroller.admin();
+    await provider.send('evm_unlockUnknownAccount', [ admin ]);
+    const asAdmin = cointroller.connect(provider.getSigner(admin));
+    const rEthAddress = Rifi.util.getAddress(Rifi.rETH);
+
+    const { collateralFactorMantissa } = await borrower.getCollateralFactor(Rifi.ETH);
+    const collateralFactor = +ethers.utils.formatEther(collateralFactorMantissa);
+
+    const supplyTrx = await borrower.supply(Rifi.ETH, 1);
+    await supplyTrx.wait(1);
+
+    const enterMarketsTrx = await borrower.enterMarkets(Rifi.ETH);
+    await enterMarketsTrx.wait(1);
+
+    // Borrow close to the limit of the 1 ETH collateral
+    const borrowTrx = await borrower.borrow(Rifi.ETH, collateralFactor * 0.9, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const lowerTrx = await asAdmin._setCollateralFactor(
+      rEthAddress,
+      collateralFactorMantissa.div(2),
+      { gasPrice: 0 }
+    );
+    await lowerTrx.wait(1);
+
+    try {
+      const liquidator = rifi.createLiquidator({ gasPrice: ethers.BigNumber.from(1) });
+      liquidator.addBorrower(acc3.address);
+
+      const opportunities = await liquidator.evaluate(acc3.address);
+      const before = await rifi.getAccountLiquidity(acc3.address);
+      const { opportunities: ranked, transactions, failures } = await liquidator.run({ execute: true });
+      const receipt = await transactions[0].wait(1);
+      const after = await rifi.getAccountLiquidity(acc3.address);
+
+      assert.equal(before.shortfall.isZero(), false);
+      assert.equal(opportunities.length > 0, true);
+      opportunities.slice(1).forEach((opportunity, i) => {
+        assert.equal(opportunities[i].profit.gte(opportunity.profit), true);
+      });
+      assert.equal(opportunities[0].repayAsset, Rifi.ETH);
+      assert.equal(opportunities[0].collateralAsset, Rifi.ETH);
+      assert.equal(opportunities[0].profit.gt(0), true);
+      assert.equal(ranked[0].borrower, ethers.utils.getAddress(acc3.address));
+      assert.deepEqual(failures, []);
+      assert.equal(transactions.length, 1);
+      assert.equal(receipt.status, 1);
+      assert.deepEqual(receipt.failures, []);
+      assert.equal(after.borrowValue.lt(before.borrowValue), true);
+    } finally {
+      const restoreTrx = await asAdmin._setCollateralFactor(
+        rEthAddress,
+        collateralFactorMantissa,
+        { gasPrice: 0 }
+      );
+      await restoreTrx.wait(1);
+    }
+  });
+
+}
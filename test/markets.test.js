@@ -0,0 +1,46 @@
+const assert = require('assert');
+const markets = require('../src/markets.ts');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const rifi = new Rifi(providerUrl);
+
+  it('runs markets.discoverMarkets', async function () {
+    const result = await rifi.discoverMarkets();
+    const rUsdc = result.find(m => m.rToken === Rifi.rUSDC);
+
+    assert.equal(rUsdc.address, Rifi.util.getAddress(Rifi.rUSDC));
+    assert.equal(rUsdc.underlying, Rifi.USDC);
+    assert.equal(rUsdc.decimals, 8);
+    assert.equal(rUsdc.underlyingDecimals, 6);
+    assert.equal(rUsdc.isNativeCoin, false);
+
+    const rEth = result.find(m => m.rToken === Rifi.rETH);
+    assert.equal(rEth.isNativeCoin, true);
+    assert.equal(rEth.underlyingAddress, null);
+  });
+
+  it('runs markets.discoverMarkets cached', async function () {
+    const first = await rifi.discoverMarkets();
+    const second = await rifi.discoverMarkets();
+
+    assert.equal(first, second);
+  });
+
+  it('runs markets.resolveAsset by address', async function () {
+    const rUsdcAddress = Rifi.util.getAddress(Rifi.rUSDC);
+    const usdcAddress = Rifi.util.getAddress(Rifi.USDC);
+
+    assert.equal(await markets.resolveAsset(rifi, rUsdcAddress), Rifi.rUSDC);
+    assert.equal(await markets.resolveAsset(rifi, rUsdcAddress, true), Rifi.USDC);
+    assert.equal(await markets.resolveAsset(rifi, usdcAddress), Rifi.USDC);
+  });
+
+  it('runs markets.resolveAsset by name', async function () {
+    assert.equal(await markets.resolveAsset(rifi, Rifi.USDC, true), Rifi.USDC);
+    assert.equal(await markets.resolveAsset(rifi, Rifi.rUSDC, true), Rifi.rUSDC);
+  });
+
+}
@@ -0,0 +1,89 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const multicall = require('../src/multicall.ts');
+const { abi } = require('../src/constants.ts');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite() {
+
+  const rifi = new Rifi(providerUrl);
+
+  it('runs multicall.configure', async function () {
+    const settings = multicall.configure({ wait: 5 });
+
+    assert.equal(settings.enabled, true);
+    assert.equal(settings.wait, 5);
+    assert.equal(settings.maxBatchSize, 100);
+
+    multicall.configure({ wait: 0 });
+  });
+
+  it('runs multicall.isBatchable', async function () {
+    assert.equal(multicall.isBatchable({}), true);
+    assert.equal(multicall.isBatchable({ multicall: false }), false);
+    assert.equal(multicall.isBatchable({ from: Rifi.util.getAddress(Rifi.Cointroller) }), false);
+    assert.equal(multicall.isBatchable({ value: 1 }), false);
+
+    const lens = new ethers.utils.Interface(abi.RifiLens);
+    const view = lens.getFunction('getRifiBalanceMetadata');
+    const nonView = lens.getFunction('rTokenMetadataAll');
+    const signer = new ethers.providers.JsonRpcProvider(providerUrl).getSigner();
+
+    assert.equal(multicall.isBatchable({}, view), true);
+    assert.equal(multicall.isBatchable({}, nonView), false);
+    assert.equal(multicall.isBatchable({}, view, signer), false);
+    assert.equal(multicall.isBatchable({ multicall: true }, view, signer), true);
+  });
+
+  it('runs multicall batched reads like individual reads', async function () {
+    const provider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const rTokenAddress = Rifi.util.getAddress(Rifi.rUSDC, 'bsc_testnet');
+    const method = 'function decimals() returns (uint8)';
+
+    const [ batched, batchedAgain ] = await Promise.all([
+      Rifi.eth.read(rTokenAddress, method, [], { _rifiProvider: provider }),
+      Rifi.eth.read(rTokenAddress, method, [], { _rifiProvider: provider }),
+    ]);
+    const single = await Rifi.eth.read(
+      rTokenAddress, method, [], { _rifiProvider: provider, multicall: false }
+    );
+
+    assert.equal(batched, single);
+    assert.equal(batchedAgain, single);
+  });
+
+  it('fails multicall only the reverted read', async function () {
+    const provider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const rTokenAddress = Rifi.util.getAddress(Rifi.rUSDC, 'bsc_testnet');
+
+    const [ good, bad ] = await Promise.all([
+      Rifi.eth.read(
+        rTokenAddress,
+        'function decimals() returns (uint8)',
+        [],
+        { _rifiProvider: provider }
+      ),
+      Rifi.eth.read(
+        rTokenAddress,
+        'function notAFunction() returns (uint256)',
+        [],
+        { _rifiProvider: provider }
+      ).catch(e => e),
+    ]);
+
+    assert.equal(good, 8);
+    assert.equal(bad.message, 'Error occurred during [eth_call]. See {error}.');
+  });
+
+  it('runs multicall through instance reads', async function () {
+    const [ closeFactor, liquidationIncentive ] = await Promise.all([
+      rifi.getCloseFactor(),
+      rifi.getLiquidationIncentive(),
+    ]);
+
+    assert.equal(ethers.BigNumber.isBigNumber(closeFactor), true);
+    assert.equal(ethers.BigNumber.isBigNumber(liquidationIncentive), true);
+  });
+
+}
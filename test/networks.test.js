@@ -0,0 +1,85 @@
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const networks = require('../src/networks.ts');
+const Rifi = require('../src/index.ts');
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const hardhat = {
+    chainId: 31337,
+    addresses: {
+      Cointroller: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+      PriceFeed: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+      rETH: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+      rTEST: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
+      TEST: '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9',
+    },
+    rTokens: [ 'rETH', 'rTEST' ],
+    decimals: { ETH: 18, rETH: 8, TEST: 6, rTEST: 8 },
+    blocksPerYear: 2102400,
+    nativeSymbol: 'ETH',
+  };
+
+  it('runs networks.registerNetwork', async function () {
+    const network = Rifi.registerNetwork('hardhat', hardhat);
+
+    assert.equal(network.chainId, 31337);
+    assert.equal(Rifi.util.getNetNameWithChainId(31337), 'hardhat');
+    assert.equal(Rifi.util.getAddress(Rifi.rTEST, 'hardhat'), hardhat.addresses.rTEST);
+    assert.equal(Rifi.decimals.TEST, 6);
+    assert.equal(Rifi.blocksPerYear.hardhat, 2102400);
+  });
+
+  it('runs networks.registerNetwork native coin', async function () {
+    const _this = { _network: { name: 'hardhat' } };
+
+    assert.equal(Rifi.util.isNativeCoin('rETH', _this), true);
+    assert.equal(Rifi.util.isNativeCoin('rTEST', _this), false);
+  });
+
+  it('fails networks.registerNetwork invalid address', async function () {
+    const errorMessage = 'Rifi [registerNetwork] | Address of `Cointroller` is not a valid address.';
+
+    assert.throws(() => {
+      networks.registerNetwork('broken', {
+        chainId: 1337,
+        addresses: { Cointroller: '0x123' },
+      });
+    }, { message: errorMessage });
+  });
+
+  it('fails networks.registerNetwork market without address', async function () {
+    const errorMessage = 'Rifi [registerNetwork] | Market `rDAI` has no address in `addresses`.';
+
+    assert.throws(() => {
+      networks.registerNetwork('broken', {
+        chainId: 1337,
+        addresses: {},
+        rTokens: [ 'rDAI' ],
+      });
+    }, { message: errorMessage });
+  });
+
+  it('runs networks.loadDeployment', async function () {
+    const file = path.join(os.tmpdir(), 'rifi-deployment.json');
+    fs.writeFileSync(file, JSON.stringify({ name: 'localhost', ...hardhat, chainId: 1338 }));
+
+    const network = Rifi.loadDeployment(file);
+    fs.unlinkSync(file);
+
+    assert.equal(network.chainId, 1338);
+    assert.equal(Rifi.util.getNetNameWithChainId(1338), 'localhost');
+    assert.deepEqual(networks.getRegisteredNetwork('localhost').rTokens, hardhat.rTokens);
+  });
+
+  it('fails networks.loadDeployment without name', async function () {
+    const errorMessage = 'Rifi [loadDeployment] | Deployment must have a `name`.';
+
+    assert.throws(() => {
+      networks.loadDeployment({ ...hardhat });
+    }, { message: errorMessage });
+  });
+
+}
@@ -0,0 +1,47 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey
+  });
+
+  it('runs portfolio.getPortfolio', async function () {
+    const supplyTrx = await rifi.supply(Rifi.ETH, 1);
+    await supplyTrx.wait(1);
+
+    const result = await rifi.getPortfolio(acc1.address, { vaults: [] });
+    const market = result.markets.find(({ rToken }) => rToken === Rifi.rETH);
+
+    assert.equal(ethers.BigNumber.isBigNumber(result.suppliedValue), true);
+    assert.equal(market.human.supplied > 0.99, true);
+    assert.equal(result.human.suppliedValue >= market.human.suppliedValue, true);
+    assert.equal(typeof result.netApy, 'number');
+    assert.equal(result.borrowUtilization >= 0, true);
+    assert.equal(ethers.BigNumber.isBigNumber(result.rifi.accrued), true);
+  });
+
+  it('fails portfolio.getPortfolio invalid account', async function () {
+    const errorMessage = 'Rifi [getPortfolio] | Argument `account` must be a valid Ethereum address.';
+    try {
+      await rifi.getPortfolio('0x123');
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails portfolio.getPortfolio invalid vaults', async function () {
+    const errorMessage = 'Rifi [getPortfolio] | Option `vaults` must be an array of vault names.';
+    try {
+      await rifi.getPortfolio(acc1.address, { vaults: [ 'NotAVault' ] });
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}
@@ -84,6 +84,64 @@ module.exports = function suite([ publicKeys, privateKeys ]) {
     assert.equal(events.includes('Failure'), true);
   });
 
+  it('runs rToken.supply USDC simulate without allowance', async function () {
+    const usdcAddress = Rifi.util.getAddress(Rifi.USDC);
+    const rUsdcAddress = Rifi.util.getAddress(Rifi.rUSDC);
+    const allowanceOptions = { provider: providerUrl, privateKey: acc1.privateKey };
+
+    const approveTrx = await Rifi.eth.trx(
+      usdcAddress,
+      'function approve(address spender, uint256 amount) returns (bool)',
+      [ rUsdcAddress, 0 ],
+      allowanceOptions
+    );
+    await approveTrx.wait(1);
+
+    const result = await rifi.supply(Rifi.USDC, 2, false, { simulate: true });
+
+    const allowance = await Rifi.eth.read(
+      usdcAddress,
+      'function allowance(address owner, address spender) view returns (uint256)',
+      [ acc1.address, rUsdcAddress ],
+      allowanceOptions
+    );
+
+    assert.equal(result.simulated, true);
+    assert.equal(result.success, false);
+    assert.equal(result.method, 'mint');
+    assert.equal(result.error.type, 'revert');
+    assert.equal(result.error instanceof Rifi.errors.RifiRevertError, true);
+    assert.equal(result.gasEstimate, null);
+    assert.equal(allowance.toString(), '0');
+  });
+
+  it('runs rToken.supply USDC simulate with allowance', async function () {
+    const supplyEthTrx = await rifi.supply(Rifi.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await rifi.enterMarkets(Rifi.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowUsdcTrx = await rifi.borrow(Rifi.USDC, 5, { gasLimit: 600000 });
+    await borrowUsdcTrx.wait(1);
+
+    const approveTrx = await Rifi.eth.trx(
+      Rifi.util.getAddress(Rifi.USDC),
+      'function approve(address spender, uint256 amount) returns (bool)',
+      [ Rifi.util.getAddress(Rifi.rUSDC), ethers.constants.MaxUint256 ],
+      { provider: providerUrl, privateKey: acc1.privateKey }
+    );
+    await approveTrx.wait(1);
+
+    const result = await rifi.supply(Rifi.USDC, 2, false, { simulate: true });
+
+    assert.equal(result.simulated, true);
+    assert.equal(result.success, true);
+    assert.equal(result.method, 'mint');
+    assert.equal(result.gasEstimate.gt(0), true);
+    assert.equal(result.error, null);
+  });
+
   it('fails rToken.supply asset type', async function () {
     const errorMessage = 'Rifi [supply] | Argument `asset` cannot be supplied.';
     try {
@@ -257,6 +315,34 @@ module.exports = function suite([ publicKeys, privateKeys ]) {
     assert.equal(events.includes('Borrow'), true);
   });
 
+  it('runs rToken.borrow USDC simulate', async function () {
+    const supplyEthTrx = await rifi.supply(Rifi.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await rifi.enterMarkets(Rifi.ETH);
+    await enterEthMarket.wait(1);
+
+    const result = await rifi.borrow(Rifi.USDC, 5, { simulate: true });
+
+    assert.equal(result.simulated, true);
+    assert.equal(result.success, true);
+    assert.equal(result.method, 'borrow');
+    assert.equal(result.from, ethers.utils.getAddress(acc1.address));
+    assert.equal(result.gasEstimate.gt(0), true);
+    assert.equal(result.error, null);
+  });
+
+  it('runs rToken.borrow USDC simulate without collateral', async function () {
+    const result = await rifi2.borrow(Rifi.USDC, 1000000, { simulate: true });
+
+    assert.equal(result.simulated, true);
+    assert.equal(result.success, false);
+    assert.equal(result.error.type, 'failure');
+    assert.equal(result.error instanceof Rifi.errors.RifiProtocolFailure, true);
+    assert.equal(result.error.failure.error, 'COINTROLLER_REJECTION');
+    assert.equal(result.gasEstimate, null);
+  });
+
   it('fails rToken.borrow invalid asset', async function () {
     const errorMessage = 'Rifi [borrow] | Argument `asset` cannot be borrowed.';
     try {
@@ -0,0 +1,79 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const { NonceManagedSigner } = require('../src/signer.ts');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+  const acc2 = { address: publicKeys[1], privateKey: privateKeys[1] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey,
+    nonceManager: true,
+  });
+
+  it('runs signer with nonceManager option', async function () {
+    assert.equal(rifi._provider instanceof NonceManagedSigner, true);
+    assert.equal(await rifi._provider.getAddress(), ethers.utils.getAddress(acc1.address));
+  });
+
+  it('runs signer concurrent transactions', async function () {
+    const trxs = await Promise.all([
+      rifi.supply(Rifi.ETH, 1),
+      rifi.supply(Rifi.ETH, 1),
+      rifi.supply(Rifi.ETH, 1),
+    ]);
+
+    const nonces = trxs.map(trx => trx.nonce).sort((a, b) => a - b);
+    assert.equal(nonces[1], nonces[0] + 1);
+    assert.equal(nonces[2], nonces[0] + 2);
+
+    const receipts = await Promise.all(trxs.map(trx => trx.wait(1)));
+    receipts.forEach(receipt => assert.equal(receipt.status, 1));
+  });
+
+  it('runs signer rToken.repayBorrow USDC', async function () {
+    const enterEthMarket = await rifi.enterMarkets(Rifi.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowTrx = await rifi.borrow(Rifi.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const trx = await rifi.repayBorrow(Rifi.USDC, 5, null, false, { gasLimit: 600000 });
+    const receipt = await trx.wait(1);
+    const repay = receipt.protocolEvents.find(e => e.name === 'RepayBorrow');
+
+    assert.equal(receipt.status, 1);
+    assert.equal(repay.args.payer, ethers.utils.getAddress(acc1.address));
+  });
+
+  it('runs signer.getPendingTransactions', async function () {
+    const pending = await rifi.getPendingTransactions();
+
+    assert.equal(Array.isArray(pending), true);
+  });
+
+  it('fails signer.speedUpTransaction unknown nonce', async function () {
+    const errorMessage = 'Rifi [NonceManagedSigner] | No pending transaction with nonce 999999.';
+
+    try {
+      await rifi.speedUpTransaction(999999);
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails signer.cancelTransaction without nonceManager', async function () {
+    const rifi2 = new Rifi(providerUrl, { privateKey: acc2.privateKey });
+    const errorMessage = 'Rifi [signer] | Create the instance with `nonceManager: true` to manage nonces.';
+
+    try {
+      await rifi2.cancelTransaction(0);
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}
@@ -0,0 +1,70 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const transaction = require('../src/transaction.ts');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey
+  });
+
+  it('runs transaction.decodeProtocolEvents', async function () {
+    const network = 'bsc_mainnet';
+    const rTokenAddress = Rifi.util.getAddress(Rifi.rUSDT, network);
+    const iface = new ethers.utils.Interface(Rifi.util.getAbi('rBep20'));
+    const encode = (name, values, logIndex) => ({
+      address: rTokenAddress,
+      logIndex,
+      ...iface.encodeEventLog(iface.getEvent(name), values),
+    });
+
+    const events = transaction.decodeProtocolEvents([
+      encode('Mint', [ acc1.address, 100, 5000 ], 0),
+      encode('Transfer', [ rTokenAddress, acc1.address, 5000 ], 1),
+      encode('Failure', [ 3, 14, 4 ], 2),
+    ], network);
+
+    assert.equal(events.length, 2);
+    assert.equal(events[0].name, 'Mint');
+    assert.equal(events[0].contract, Rifi.rUSDT);
+    assert.equal(events[0].args.mintTokens.toNumber(), 5000);
+    assert.equal(events[1].name, 'Failure');
+    assert.equal(events[1].failure.detailName, 'INSUFFICIENT_LIQUIDITY');
+  });
+
+  it('runs transaction handle lifecycle', async function () {
+    const statuses = [];
+    const trx = await rifi.supply(Rifi.ETH, 1);
+
+    trx.on('submitted', () => statuses.push('submitted'));
+    trx.on('mined', () => statuses.push('mined'));
+    trx.on('confirmed', () => statuses.push('confirmed'));
+
+    const receipt = await trx.wait(1);
+    const mint = receipt.protocolEvents.find(e => e.name === 'Mint');
+
+    assert.deepEqual(statuses, [ 'submitted', 'mined', 'confirmed' ]);
+    assert.equal(trx.status, 'confirmed');
+    assert.equal(mint.contract, Rifi.rETH);
+    assert.equal(mint.args.mintTokens.gt(0), true);
+  });
+
+  it('runs transaction handle wait with Failure events', async function () {
+    // An account without collateral, the Cointroller rejects its borrow
+    const rifi2 = new Rifi(providerUrl, { privateKey: privateKeys[1] });
+    const trx = await rifi2.borrow(Rifi.USDC, 5, { gasLimit: 600000 });
+
+    const receipt = await trx.wait(1);
+    const error = await trx.wait(1, { throwOnFailure: true }).catch(e => e);
+
+    assert.equal(receipt.status, 1);
+    assert.equal(receipt.failures[0].error, 'COINTROLLER_REJECTION');
+    assert.equal(error instanceof Rifi.errors.RifiProtocolFailure, true);
+    assert.deepEqual(error.failures, receipt.failures);
+  });
+
+}
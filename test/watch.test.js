@@ -0,0 +1,96 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const Rifi = require('../src/index.ts');
+const providerUrl = 'http://localhost:8545';
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  const rifi = new Rifi(providerUrl, {
+    privateKey: acc1.privateKey
+  });
+
+  // Polls for new blocks quickly, the default is 4 seconds
+  rifi._provider.provider.pollingInterval = 100;
+
+  function nextUpdate(updates, count) {
+    return new Promise((resolve) => {
+      const check = setInterval(() => {
+        if (updates.length > count) {
+          clearInterval(check);
+          resolve(updates[count]);
+        }
+      }, 50);
+    });
+  }
+
+  it('runs watch.watchMarket', async function () {
+    const updates = [];
+    const subscription = await rifi.watchMarket(Rifi.ETH, (update) => updates.push(update));
+
+    const supplyTrx = await rifi.supply(Rifi.ETH, 1);
+    await supplyTrx.wait(1);
+
+    const update = await nextUpdate(updates, 1);
+    subscription.unsubscribe();
+
+    assert.equal(updates[0].rToken, Rifi.rETH);
+    assert.equal(ethers.BigNumber.isBigNumber(updates[0].market.totalCash), true);
+    assert.equal(update.changes.totalCash.current.gt(update.changes.totalCash.previous), true);
+  });
+
+  it('runs watch.watchAccount', async function () {
+    const updates = [];
+    const subscription = await rifi.watchAccount(acc1.address, (update) => updates.push(update));
+
+    const supplyTrx = await rifi.supply(Rifi.ETH, 1);
+    await supplyTrx.wait(1);
+
+    const update = await nextUpdate(updates, 1);
+    subscription.unsubscribe();
+
+    assert.equal(updates[0].account, acc1.address);
+    assert.equal(typeof updates[0].liquidity.human.healthFactor, 'number');
+    assert.equal(update.changes['rETH.supplied'].current.gt(update.changes['rETH.supplied'].previous), true);
+  });
+
+  it('runs watch.watchPrice', async function () {
+    const updates = [];
+    const subscription = await rifi.watchPrice(Rifi.ETH, (update) => updates.push(update));
+    subscription.unsubscribe();
+
+    assert.equal(updates.length, 1);
+    assert.equal(updates[0].asset, Rifi.ETH);
+    assert.equal(updates[0].previous, null);
+    assert.equal(updates[0].human.price > 0, true);
+  });
+
+  it('fails watch.watchAccount invalid account', async function () {
+    const errorMessage = 'Rifi [watchAccount] | Argument `account` must be a valid Ethereum address.';
+    try {
+      await rifi.watchAccount('0x123', () => {});
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails watch.watchPrice invalid listener', async function () {
+    const errorMessage = 'Rifi [watchPrice] | Argument `listener` must be a function.';
+    try {
+      await rifi.watchPrice(Rifi.ETH, null);
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+  it('fails watch.watchMarket instance made by at', async function () {
+    const errorMessage = 'Rifi [watchMarket] | Instances made by `at` cannot watch for changes.';
+    try {
+      await rifi.at(1).watchMarket(Rifi.ETH, () => {});
+    } catch (e) {
+      assert.equal(e.message, errorMessage);
+    }
+  });
+
+}